@@ -24,21 +24,16 @@
 
 import type { Plugin, PluginInput } from "@opencode-ai/plugin";
 import type { Auth } from "@opencode-ai/sdk";
+import { decodeJWT } from "./lib/auth/auth.js";
+import { AccountPool } from "./lib/auth/account-pool.js";
+import { createLoginMethods, type WorkspaceChooser } from "./lib/auth/login-methods.js";
+import { listWorkspaceOptions, resolveWorkspaceId } from "./lib/auth/workspace.js";
+import { getCodexBaseUrl, getCodexMode, loadPluginConfig } from "./lib/config.js";
 import {
-  createAuthorizationFlow,
-  decodeJWT,
-  exchangeAuthorizationCode,
-  REDIRECT_URI,
-} from "./lib/auth/auth.js";
-import { openBrowserUrl } from "./lib/auth/browser.js";
-import { startLocalOAuthServer } from "./lib/auth/server.js";
-import { getCodexMode, loadPluginConfig } from "./lib/config.js";
-import {
-  AUTH_LABELS,
-  CODEX_BASE_URL,
   DUMMY_API_KEY,
   ERROR_MESSAGES,
   JWT_CLAIM_PATH,
+  PLATFORM_BASE_URL,
   PROVIDER_ID,
 } from "./lib/constants.js";
 import { configureLogger, logWarn, logError } from "./lib/logger.js";
@@ -46,14 +41,16 @@ import { getCodexInstructions } from "./lib/prompts/codex.js";
 import { warmCachesOnStartup, areCachesWarm } from "./lib/cache/cache-warming.js";
 import { createCodexFetcher } from "./lib/request/codex-fetcher.js";
 import { SessionManager } from "./lib/session/session-manager.js";
-import type { UserConfig } from "./lib/types.js";
+import { UsageLedger } from "./lib/session/usage-ledger.js";
+import type { TokenResult, UserConfig } from "./lib/types.js";
 
 /**
  * OpenAI Codex OAuth authentication plugin for opencode
  *
  * This plugin enables opencode to use OpenAI's Codex backend via ChatGPT Plus/Pro
  * OAuth authentication, allowing users to leverage their ChatGPT subscription
- * instead of OpenAI Platform API credits.
+ * instead of OpenAI Platform API credits. API-key logins use the same request pipeline
+ * against the public Platform Responses API.
  *
  * @example
  * ```json
@@ -71,23 +68,51 @@ export const OpenAIAuthPlugin: Plugin = async ({ client, directory }: PluginInpu
       "The OpenAI Codex plugin is intended for personal use with your own ChatGPT Plus/Pro subscription. Ensure your usage complies with OpenAI's Terms of Service.",
     );
   }, 5000);
+  // Every successful login is remembered so usage-limit failover can switch accounts
+  const accountPool = new AccountPool();
+  const usageLedger = new UsageLedger();
+  const completeLogin = async (tokens: TokenResult | undefined, chooseWorkspace?: WorkspaceChooser) => {
+    if (tokens?.type !== "success") return { type: "failed" } as const;
+    const account = accountPool.addFromTokens(tokens);
+    // Logins that span several workspaces pick one interactively unless the config pins it
+    if (account && chooseWorkspace && !pluginConfig.workspaceId) {
+      const options = listWorkspaceOptions(account.accountId, account.identity);
+      if (options.length > 1) {
+        accountPool.setWorkspace(account.accountId, await chooseWorkspace(options));
+      }
+    }
+    return tokens;
+  };
   return {
     auth: {
       provider: PROVIDER_ID,
       /**
-       * Loader function that configures OAuth authentication and request handling
+       * Loader function that configures OAuth or API-key authentication and request handling
        */
       async loader(getAuth: () => Promise<Auth>, provider: unknown) {
         const auth = await getAuth();
-        if (auth.type !== "oauth") return {};
+        if (auth.type !== "oauth" && auth.type !== "api") return {};
 
-        // Extract ChatGPT account ID from JWT access token
-        const decoded = decodeJWT(auth.access);
-        const accountId = decoded?.[JWT_CLAIM_PATH]?.chatgpt_account_id;
-        if (!accountId) {
-          logError(ERROR_MESSAGES.NO_ACCOUNT_ID);
-          return {};
+        let accountId: string | undefined;
+        let workspaceId: string | undefined;
+        if (auth.type === "oauth") {
+          // Extract ChatGPT account ID from JWT access token
+          const decoded = decodeJWT(auth.access);
+          accountId = decoded?.[JWT_CLAIM_PATH]?.chatgpt_account_id;
+          if (!accountId) {
+            logError(ERROR_MESSAGES.NO_ACCOUNT_ID);
+            return {};
+          }
+          accountPool.addFromTokens({
+            type: "success",
+            access: auth.access,
+            refresh: auth.refresh,
+            expires: auth.expires,
+          });
+          workspaceId = resolveWorkspaceId(accountId, pluginConfig.workspaceId, accountPool.get(accountId));
         }
+        // API keys bill the Platform API directly: same request pipeline, public Responses endpoint
+        const apiKey = auth.type === "api" ? auth.key : undefined;
 
         // Extract user configuration (global + per-model options)
         const providerConfig = provider as
@@ -127,47 +152,29 @@ export const OpenAIAuthPlugin: Plugin = async ({ client, directory }: PluginInpu
           getAuth,
           client,
           accountId,
+          apiKey,
+          workspaceId,
           userConfig,
           codexMode,
           sessionManager,
           codexInstructions: CODEX_INSTRUCTIONS,
           pluginConfig,
+          accountPool,
+          usageLedger,
+          projectDirectory: directory,
         });
 
         return {
-          apiKey: DUMMY_API_KEY,
-          baseURL: CODEX_BASE_URL,
+          apiKey: apiKey ?? DUMMY_API_KEY,
+          baseURL: apiKey ? PLATFORM_BASE_URL : getCodexBaseUrl(pluginConfig),
           fetch: codexFetch,
         };
       },
-      methods: [
-        {
-          label: AUTH_LABELS.OAUTH,
-          type: "oauth" as const,
-          authorize: async () => {
-            const { pkce, state, url } = await createAuthorizationFlow();
-            const serverInfo = await startLocalOAuthServer({ state });
-            openBrowserUrl(url);
-            return {
-              url,
-              method: "auto" as const,
-              instructions: AUTH_LABELS.INSTRUCTIONS,
-              callback: async () => {
-                const result = await serverInfo.waitForCode(state);
-                serverInfo.close();
-                if (!result) return { type: "failed" as const };
-                const tokens = await exchangeAuthorizationCode(
-                  result.code,
-                  pkce.verifier,
-                  REDIRECT_URI,
-                );
-                return tokens?.type === "success" ? tokens : ({ type: "failed" } as const);
-              },
-            };
-          },
-        },
-        { label: AUTH_LABELS.API_KEY, type: "api" as const },
-      ],
+      methods: createLoginMethods(completeLogin, {
+        client,
+        oauth: pluginConfig.oauth,
+        workspaceId: pluginConfig.workspaceId,
+      }),
     },
   };
 };
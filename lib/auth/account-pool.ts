@@ -0,0 +1,265 @@
+/**
+ * Local ChatGPT account pool
+ *
+ * Keeps tokens for every account that completed an OAuth login so requests can fail over
+ * to another subscription when the active one reaches its usage limit. Several opencode processes
+ * share the pool file, so every change is applied on top of a fresh read of it and refreshes run
+ * under the cross-process refresh lock.
+ */
+
+import { writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { ACCOUNT_POOL_CONFIG, JWT_CLAIM_PATH } from "../constants.js";
+import { logDebug, logWarn } from "../logger.js";
+import type { AccountIdentity, PooledAccount, TokenSuccess } from "../types.js";
+import { ensureDirectory, getOpenCodePath, safeReadFile } from "../utils/file-system-utils.js";
+import { decodeJWT, extractAccountIdentity, refreshAccessToken } from "./auth.js";
+import { syncCodexCliTokens } from "./codex-cli-import.js";
+import { withRefreshLock } from "./refresh-lock.js";
+
+const ACCOUNT_POOL_PATH = getOpenCodePath("openhax-codex-accounts.json");
+
+interface AccountPoolFile {
+	version: 1;
+	accounts: PooledAccount[];
+}
+
+/**
+ * Credentials ready to be sent for a pooled account
+ */
+export interface AcquiredAccount {
+	accountId: string;
+	access: string;
+	/** Workspace sent as `chatgpt-account-id` when it differs from accountId */
+	workspaceId?: string;
+}
+
+/**
+ * Extract the ChatGPT account ID from an access token
+ * @param accessToken - OAuth access token (JWT)
+ * @returns Account ID or undefined when the claim is missing
+ */
+export function getAccountIdFromToken(accessToken: string): string | undefined {
+	return decodeJWT(accessToken)?.[JWT_CLAIM_PATH]?.chatgpt_account_id;
+}
+
+/**
+ * Merge freshly decoded claims into a stored identity
+ * Refresh responses may omit the id_token, so id_token-only fields are kept from earlier logins.
+ */
+function mergeIdentity(previous: AccountIdentity | undefined, next: AccountIdentity): AccountIdentity {
+	if (!previous) return next;
+	return {
+		...previous,
+		...next,
+		organizations: next.organizations.length > 0 ? next.organizations : previous.organizations,
+	};
+}
+
+function withTokens(account: PooledAccount, tokens: TokenSuccess): PooledAccount {
+	return {
+		...account,
+		access: tokens.access,
+		refresh: tokens.refresh,
+		expires: tokens.expires,
+		identity: mergeIdentity(account.identity, extractAccountIdentity(tokens.access, tokens.idToken)),
+	};
+}
+
+function isPooledAccount(value: unknown): value is PooledAccount {
+	if (!value || typeof value !== "object") return false;
+	const candidate = value as Record<string, unknown>;
+	return (
+		typeof candidate.accountId === "string" &&
+		typeof candidate.access === "string" &&
+		typeof candidate.refresh === "string" &&
+		typeof candidate.expires === "number"
+	);
+}
+
+export class AccountPool {
+	private readonly filePath: string;
+
+	private accounts: PooledAccount[] = [];
+
+	constructor(options: { filePath?: string } = {}) {
+		this.filePath = options.filePath ?? ACCOUNT_POOL_PATH;
+		this.load();
+	}
+
+	public list(): PooledAccount[] {
+		return this.accounts.map((account) => ({ ...account }));
+	}
+
+	public get(accountId: string): PooledAccount | undefined {
+		const account = this.accounts.find((entry) => entry.accountId === accountId);
+		return account ? { ...account } : undefined;
+	}
+
+	/**
+	 * Add an account from freshly issued tokens, or update the stored tokens of a known account
+	 * @param tokens - Successful token exchange/refresh result
+	 * @returns The stored account, or undefined when the token carries no account ID
+	 */
+	public addFromTokens(tokens: TokenSuccess): PooledAccount | undefined {
+		const accountId = getAccountIdFromToken(tokens.access);
+		if (!accountId) {
+			logWarn("Account pool: token has no ChatGPT account ID; not storing it");
+			return undefined;
+		}
+		this.update(() => {
+			const index = this.accounts.findIndex((entry) => entry.accountId === accountId);
+			if (index !== -1) {
+				this.accounts[index] = withTokens(this.accounts[index], tokens);
+			} else {
+				this.accounts.push({
+					accountId,
+					access: tokens.access,
+					refresh: tokens.refresh,
+					expires: tokens.expires,
+					addedAt: Date.now(),
+					identity: extractAccountIdentity(tokens.access, tokens.idToken),
+				});
+			}
+		});
+		return this.get(accountId);
+	}
+
+	/**
+	 * Remember which workspace requests for an account are routed to
+	 * @param accountId - Pooled account (token account ID)
+	 * @param workspaceId - Chosen workspace; undefined resets to the token workspace
+	 */
+	public setWorkspace(accountId: string, workspaceId: string | undefined): void {
+		this.update(() => {
+			const account = this.accounts.find((entry) => entry.accountId === accountId);
+			if (!account) return;
+			account.workspaceId = workspaceId && workspaceId !== accountId ? workspaceId : undefined;
+		});
+	}
+
+	public remove(accountId: string): PooledAccount | undefined {
+		return this.update(() => {
+			const index = this.accounts.findIndex((entry) => entry.accountId === accountId);
+			return index === -1 ? undefined : this.accounts.splice(index, 1)[0];
+		});
+	}
+
+	/**
+	 * Remember that an account hit its usage limit so it is skipped until the limit resets
+	 * @param accountId - Exhausted account
+	 * @param resetsAt - Epoch ms when the limit resets (defaults to a fixed cooldown)
+	 */
+	public markExhausted(accountId: string, resetsAt?: number): void {
+		const exhaustedUntil = resetsAt ?? Date.now() + ACCOUNT_POOL_CONFIG.DEFAULT_COOLDOWN_MS;
+		const marked = this.update(() => {
+			const account = this.accounts.find((entry) => entry.accountId === accountId);
+			if (account) account.exhaustedUntil = exhaustedUntil;
+			return !!account;
+		});
+		if (!marked) return;
+		logDebug("Account pool: marked account exhausted", {
+			accountId,
+			exhaustedUntil: new Date(exhaustedUntil).toISOString(),
+		});
+	}
+
+	public isExhausted(accountId: string, now = Date.now()): boolean {
+		const account = this.accounts.find((entry) => entry.accountId === accountId);
+		return !!account?.exhaustedUntil && account.exhaustedUntil > now;
+	}
+
+	/**
+	 * Pick the next account that still has quota, refreshing its tokens when needed
+	 * @param exclude - Account IDs already tried for this request
+	 * @returns Credentials for the next usable account, or undefined when none remain
+	 */
+	public async acquire(exclude: string[], now = Date.now()): Promise<AcquiredAccount | undefined> {
+		this.load();
+		for (const candidate of [...this.accounts]) {
+			if (exclude.includes(candidate.accountId) || this.isExhausted(candidate.accountId, now)) {
+				continue;
+			}
+			const account =
+				candidate.access && candidate.expires > now
+					? candidate
+					: await withRefreshLock(() => this.refreshLocked(candidate.accountId, now));
+			if (account) {
+				return { accountId: account.accountId, access: account.access, workspaceId: account.workspaceId };
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Refresh a pooled account while holding the cross-process lock
+	 * Another opencode process may have rotated the token while this one waited for the lock;
+	 * in that case its stored tokens are used instead of spending the stale refresh token.
+	 */
+	private async refreshLocked(accountId: string, now: number): Promise<PooledAccount | undefined> {
+		this.load();
+		const stored = this.get(accountId);
+		if (!stored) return undefined;
+		if (stored.access && stored.expires > now) {
+			logDebug("Account pool: using tokens refreshed by another opencode process", { accountId });
+			return stored;
+		}
+
+		const refreshed = await refreshAccessToken(stored.refresh);
+		if (refreshed.type === "failed") {
+			logWarn("Account pool: failed to refresh pooled account; skipping it", { accountId });
+			return undefined;
+		}
+		syncCodexCliTokens(stored.refresh, refreshed);
+		return this.update(() => {
+			// Not re-added when another process removed the account during the refresh
+			const index = this.accounts.findIndex((entry) => entry.accountId === accountId);
+			if (index === -1) return undefined;
+			this.accounts[index] = withTokens(this.accounts[index], refreshed);
+			return { ...this.accounts[index] };
+		});
+	}
+
+	/**
+	 * Apply a change on top of the latest stored pool and persist it
+	 * Changes address accounts by ID, so accounts added, refreshed or removed by other processes
+	 * since the last read are kept as they are on disk.
+	 */
+	private update<T>(change: () => T): T {
+		this.load();
+		const result = change();
+		this.save();
+		return result;
+	}
+
+	private load(): void {
+		const raw = safeReadFile(this.filePath);
+		if (!raw) {
+			this.accounts = [];
+			return;
+		}
+		try {
+			const parsed = JSON.parse(raw) as Partial<AccountPoolFile>;
+			this.accounts = Array.isArray(parsed.accounts) ? parsed.accounts.filter(isPooledAccount) : [];
+		} catch (error) {
+			logWarn("Account pool: failed to parse account store", {
+				path: this.filePath,
+				error: (error as Error).message,
+			});
+		}
+	}
+
+	private save(): void {
+		const payload: AccountPoolFile = { version: 1, accounts: this.accounts };
+		try {
+			// Tokens live in this file, so keep it private to the current user
+			ensureDirectory(dirname(this.filePath));
+			writeFileSync(this.filePath, JSON.stringify(payload, null, 2), { encoding: "utf8", mode: 0o600 });
+		} catch (error) {
+			logWarn("Account pool: failed to persist account store", {
+				path: this.filePath,
+				error: (error as Error).message,
+			});
+		}
+	}
+}
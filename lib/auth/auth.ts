@@ -1,7 +1,16 @@
 import { randomBytes } from "node:crypto";
 import { generatePKCE } from "@openauthjs/openauth/pkce";
+import { ERROR_MESSAGES, JWT_CLAIM_PATH } from "../constants.js";
 import { logError } from "../logger.js";
-import type { AuthorizationFlow, JWTPayload, ParsedAuthInput, PKCEPair, TokenResult } from "../types.js";
+import type {
+	AccountIdentity,
+	AccountOrganization,
+	AuthorizationFlow,
+	JWTPayload,
+	ParsedAuthInput,
+	PKCEPair,
+	TokenResult,
+} from "../types.js";
 
 // OAuth constants (from openai/codex)
 /* Stryker disable StringLiteral */
@@ -51,6 +60,27 @@ export function parseAuthorizationInput(input: string): ParsedAuthInput {
 	return { code: value };
 }
 
+/**
+ * Resolve pasted authorization input (URL, code#state, or bare code) against the flow state
+ * A bare code carries no state and is accepted as-is; any state that is present must match.
+ * @param input - User input pasted after completing login in a browser
+ * @param expectedState - State generated for this authorization flow
+ * @returns Authorization code, or a user-facing error message
+ */
+export function resolveManualAuthorizationCode(
+	input: string,
+	expectedState: string,
+): { code: string } | { error: string } {
+	const { code, state } = parseAuthorizationInput(input);
+	if (!code) {
+		return { error: ERROR_MESSAGES.MISSING_AUTH_CODE };
+	}
+	if (state !== undefined && state !== expectedState) {
+		return { error: ERROR_MESSAGES.STATE_MISMATCH };
+	}
+	return { code };
+}
+
 /**
  * Exchange authorization code for access and refresh tokens
  * @param code - Authorization code from OAuth flow
@@ -85,6 +115,7 @@ export async function exchangeAuthorizationCode(
 	const json = (await res.json()) as {
 		access_token?: string;
 		refresh_token?: string;
+		id_token?: string;
 		expires_in?: number;
 	};
 	if (!json?.access_token || !json?.refresh_token || typeof json?.expires_in !== "number") {
@@ -96,6 +127,7 @@ export async function exchangeAuthorizationCode(
 		access: json.access_token,
 		refresh: json.refresh_token,
 		expires: Date.now() + json.expires_in * 1000,
+		...(json.id_token ? { idToken: json.id_token } : {}),
 	};
 }
 
@@ -118,6 +150,76 @@ export function decodeJWT(token: string): JWTPayload | null {
 	}
 }
 
+/**
+ * Collect account identity from OAuth token claims
+ * The id_token carries email and organizations; the access token carries the plan and, on
+ * refresh responses without an id_token, is the only source available.
+ * @param accessToken - OAuth access token (JWT)
+ * @param idToken - OpenID Connect id_token, when the token endpoint returned one
+ * @returns Decoded identity (fields are omitted when the claims are missing)
+ */
+export function extractAccountIdentity(accessToken: string, idToken?: string): AccountIdentity {
+	const access = decodeJWT(accessToken);
+	const id = idToken ? decodeJWT(idToken) : null;
+	const idAuth = id?.[JWT_CLAIM_PATH] ?? {};
+	const accessAuth = access?.[JWT_CLAIM_PATH] ?? {};
+
+	const identity: AccountIdentity = { organizations: toOrganizations(idAuth.organizations) };
+	const email = id?.email ?? access?.["https://api.openai.com/profile"]?.email;
+	const planType = idAuth.chatgpt_plan_type ?? accessAuth.chatgpt_plan_type;
+	const userId = [idAuth, accessAuth].map((claims) => claims.chatgpt_user_id ?? claims.user_id).find(Boolean);
+	if (email) identity.email = email;
+	if (planType) identity.planType = planType;
+	if (userId) identity.userId = userId;
+	if (typeof id?.exp === "number") identity.idTokenExpiresAt = id.exp * 1000;
+	return identity;
+}
+
+function toOrganizations(
+	claims: NonNullable<JWTPayload[typeof JWT_CLAIM_PATH]>["organizations"],
+): AccountOrganization[] {
+	if (!Array.isArray(claims)) return [];
+	return claims
+		.filter((org) => typeof org?.id === "string")
+		.map((org) => ({
+			id: org.id as string,
+			title: org.title,
+			role: org.role,
+			isDefault: org.is_default,
+		}));
+}
+
+/**
+ * Revoke a token at an RFC 7009 revocation endpoint
+ * @param token - Refresh (or access) token to revoke
+ * @param revocationUrl - Revocation endpoint
+ * @param tokenTypeHint - `refresh_token` or `access_token`
+ * @returns True when the endpoint accepted the revocation
+ */
+export async function revokeToken(
+	token: string,
+	revocationUrl: string,
+	tokenTypeHint: "refresh_token" | "access_token" = "refresh_token",
+): Promise<boolean> {
+	try {
+		const response = await fetch(revocationUrl, {
+			method: "POST",
+			headers: { "Content-Type": "application/x-www-form-urlencoded" },
+			body: new URLSearchParams({ token, token_type_hint: tokenTypeHint, client_id: CLIENT_ID }),
+		});
+		if (!response.ok) {
+			logError("Token revocation failed", {
+				status: response.status,
+				body: await response.text().catch(() => ""),
+			});
+		}
+		return response.ok;
+	} catch (error) {
+		logError("Token revocation error", { error: (error as Error).message });
+		return false;
+	}
+}
+
 /**
  * Refresh access token using refresh token
  * @param refreshToken - Refresh token
@@ -141,17 +243,19 @@ export async function refreshAccessToken(refreshToken: string): Promise<TokenRes
 				status: response.status,
 				body: text,
 			});
-			return { type: "failed" };
+			const reason = isInvalidGrant(text) ? "invalid_grant" : "http_error";
+			return { type: "failed", reason, status: response.status };
 		}
 
 		const json = (await response.json()) as {
 			access_token?: string;
 			refresh_token?: string;
+			id_token?: string;
 			expires_in?: number;
 		};
 		if (!json?.access_token || !json?.refresh_token || typeof json?.expires_in !== "number") {
 			logError("Token refresh response missing fields", json);
-			return { type: "failed" };
+			return { type: "failed", reason: "invalid_response" };
 		}
 
 		return {
@@ -159,19 +263,39 @@ export async function refreshAccessToken(refreshToken: string): Promise<TokenRes
 			access: json.access_token,
 			refresh: json.refresh_token,
 			expires: Date.now() + json.expires_in * 1000,
+			...(json.id_token ? { idToken: json.id_token } : {}),
 		};
 	} catch (error) {
 		const err = error as Error;
 		logError("Token refresh error", { error: err.message });
-		return { type: "failed" };
+		return { type: "failed", reason: "network_error" };
+	}
+}
+
+/**
+ * Detect an OAuth `invalid_grant` error (refresh token revoked, expired, or already rotated)
+ * @param body - Raw token endpoint error body
+ * @returns True when the refresh token can no longer be used
+ */
+function isInvalidGrant(body: string): boolean {
+	try {
+		const parsed = JSON.parse(body) as { error?: unknown };
+		const code =
+			typeof parsed?.error === "string" ? parsed.error : (parsed?.error as { code?: unknown })?.code;
+		return code === "invalid_grant";
+	} catch {
+		return /\binvalid_grant\b/.test(body);
 	}
 }
 
 /**
  * Create OAuth authorization flow
+ * @param options.workspaceId - Restrict the login page to this ChatGPT workspace
  * @returns Authorization flow details
  */
-export async function createAuthorizationFlow(): Promise<AuthorizationFlow> {
+export async function createAuthorizationFlow(
+	options: { workspaceId?: string } = {},
+): Promise<AuthorizationFlow> {
 	const pkce = (await generatePKCE()) as PKCEPair;
 	const state = createState();
 
@@ -186,6 +310,9 @@ export async function createAuthorizationFlow(): Promise<AuthorizationFlow> {
 	url.searchParams.set("id_token_add_organizations", "true");
 	url.searchParams.set("codex_cli_simplified_flow", "true");
 	url.searchParams.set("originator", "codex_cli_rs");
+	if (options.workspaceId) {
+		url.searchParams.set("allowed_workspace_id", options.workspaceId);
+	}
 
 	return { pkce, state, url: url.toString() };
 }
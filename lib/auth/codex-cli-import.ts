@@ -0,0 +1,161 @@
+/**
+ * Codex CLI credential import
+ *
+ * OpenAI's Codex CLI keeps its ChatGPT login in `$CODEX_HOME/auth.json` (default `~/.codex/auth.json`).
+ * Importing it reuses that login instead of running a second browser flow. Both tools then share one
+ * single-use refresh token, so every rotation of it is written back to the Codex CLI file as well.
+ */
+
+import { writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { PluginInput } from "@opencode-ai/plugin";
+import { JWT_CLAIM_PATH, PROVIDER_ID } from "../constants.js";
+import { logDebug, logInfo, logWarn } from "../logger.js";
+import type { TokenSuccess } from "../types.js";
+import { safeReadFile } from "../utils/file-system-utils.js";
+import { decodeJWT, refreshAccessToken } from "./auth.js";
+
+/**
+ * Token section of the Codex CLI auth file
+ */
+interface CodexCliTokens {
+	id_token?: string;
+	access_token: string;
+	refresh_token: string;
+	account_id?: string;
+}
+
+export type CodexCliImportResult =
+	| { type: "success"; tokens: TokenSuccess }
+	| { type: "failed"; error: string };
+
+/**
+ * Resolve the Codex CLI auth file, honouring CODEX_HOME like the CLI does
+ * @param env - Environment variables
+ * @returns Absolute path to auth.json
+ */
+export function getCodexCliAuthPath(env: NodeJS.ProcessEnv = process.env): string {
+	return join(env.CODEX_HOME || join(homedir(), ".codex"), "auth.json");
+}
+
+function parseCodexCliTokens(raw: string, authPath: string): CodexCliTokens | { error: string } {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(raw);
+	} catch {
+		return { error: `${authPath} is not valid JSON. Run \`codex login\` to recreate it.` };
+	}
+	const file = (parsed ?? {}) as { tokens?: Partial<CodexCliTokens> | null; OPENAI_API_KEY?: unknown };
+	const tokens = file.tokens;
+	if (typeof tokens?.access_token === "string" && typeof tokens.refresh_token === "string") {
+		return tokens as CodexCliTokens;
+	}
+	if (typeof file.OPENAI_API_KEY === "string" && file.OPENAI_API_KEY) {
+		return {
+			error: `${authPath} only holds an API key. Choose "Manually enter API Key" to use it, or run \`codex login\` with ChatGPT first.`,
+		};
+	}
+	return {
+		error: `Unrecognized Codex CLI auth format in ${authPath} (expected tokens.access_token and tokens.refresh_token).`,
+	};
+}
+
+/**
+ * Keep the Codex CLI logged in after the plugin rotated the refresh token the two share
+ * The file is only updated while it still holds the refresh token that was just spent, so a separate
+ * Codex CLI login (or one the CLI already refreshed itself) is left alone.
+ * @param previousRefresh - Refresh token the rotation consumed
+ * @param tokens - Rotated tokens
+ * @param authPath - Auth file override (defaults to $CODEX_HOME/auth.json)
+ * @returns True when the Codex CLI file was updated
+ */
+export function syncCodexCliTokens(
+	previousRefresh: string,
+	tokens: TokenSuccess,
+	authPath: string = getCodexCliAuthPath(),
+): boolean {
+	const raw = safeReadFile(authPath);
+	if (!raw) return false;
+	try {
+		const file = JSON.parse(raw) as { tokens?: Record<string, unknown> | null; last_refresh?: string };
+		if (file.tokens?.refresh_token !== previousRefresh) return false;
+		file.tokens = {
+			...file.tokens,
+			access_token: tokens.access,
+			refresh_token: tokens.refresh,
+			...(tokens.idToken ? { id_token: tokens.idToken } : {}),
+		};
+		file.last_refresh = new Date().toISOString();
+		writeFileSync(authPath, JSON.stringify(file, null, 2), { encoding: "utf8", mode: 0o600 });
+		logDebug("Wrote rotated tokens back to the Codex CLI auth file", { authPath });
+		return true;
+	} catch (error) {
+		logWarn("Failed to write refreshed tokens back to the Codex CLI auth file; run `codex login` again", {
+			authPath,
+			error: (error as Error).message,
+		});
+		return false;
+	}
+}
+
+/**
+ * Import the Codex CLI login into the opencode auth store
+ * Validates the stored tokens, refreshes them when expired, and saves them through `client.auth.set`.
+ * @param client - opencode SDK client
+ * @param options.authPath - Auth file override (defaults to $CODEX_HOME/auth.json)
+ * @param options.now - Current timestamp
+ * @returns Imported tokens, or an actionable error
+ */
+export async function importCodexCliAuth(
+	client: PluginInput["client"],
+	options: { authPath?: string; now?: number } = {},
+): Promise<CodexCliImportResult> {
+	const authPath = options.authPath ?? getCodexCliAuthPath();
+	const now = options.now ?? Date.now();
+
+	const raw = safeReadFile(authPath);
+	if (!raw) {
+		return {
+			type: "failed",
+			error: `No Codex CLI credentials found at ${authPath}. Run \`codex login\` first.`,
+		};
+	}
+	const stored = parseCodexCliTokens(raw, authPath);
+	if ("error" in stored) return { type: "failed", error: stored.error };
+
+	const decoded = decodeJWT(stored.access_token);
+	if (!decoded) {
+		return { type: "failed", error: `The access token in ${authPath} is not a valid JWT.` };
+	}
+	if (!decoded[JWT_CLAIM_PATH]?.chatgpt_account_id) {
+		return { type: "failed", error: `The access token in ${authPath} has no ChatGPT account ID.` };
+	}
+
+	let tokens: TokenSuccess = {
+		type: "success",
+		access: stored.access_token,
+		refresh: stored.refresh_token,
+		expires: typeof decoded.exp === "number" ? decoded.exp * 1000 : 0,
+		idToken: stored.id_token,
+	};
+	if (tokens.expires <= now) {
+		const refreshed = await refreshAccessToken(stored.refresh_token);
+		if (refreshed.type === "failed") {
+			const error =
+				refreshed.reason === "invalid_grant"
+					? "The Codex CLI session expired or was revoked. Run `codex login` and import again."
+					: "Failed to refresh the expired Codex CLI tokens. Check your connection and try again.";
+			return { type: "failed", error };
+		}
+		tokens = refreshed;
+		syncCodexCliTokens(stored.refresh_token, tokens, authPath);
+	}
+
+	await client.auth.set({
+		path: { id: PROVIDER_ID },
+		body: { type: "oauth", access: tokens.access, refresh: tokens.refresh, expires: tokens.expires },
+	});
+	logInfo("Imported Codex CLI credentials", { authPath });
+	return { type: "success", tokens };
+}
@@ -0,0 +1,167 @@
+/**
+ * opencode auth methods offered by the plugin
+ * Browser (local callback server), headless paste-the-code, Codex CLI import, and API key login
+ */
+
+import type { Hooks, PluginInput } from "@opencode-ai/plugin";
+import { AUTH_LABELS, ERROR_MESSAGES } from "../constants.js";
+import { logError } from "../logger.js";
+import type {
+	AuthorizationFlow,
+	OAuthConfig,
+	OAuthServerInfo,
+	TokenResult,
+	WorkspaceOption,
+} from "../types.js";
+import {
+	createAuthorizationFlow,
+	exchangeAuthorizationCode,
+	REDIRECT_URI,
+	resolveManualAuthorizationCode,
+} from "./auth.js";
+import { openBrowserUrl } from "./browser.js";
+import { getCodexCliAuthPath, importCodexCliAuth } from "./codex-cli-import.js";
+import { startLocalOAuthServer } from "./server.js";
+import { promptWorkspaceInTerminal } from "./workspace.js";
+
+export type AuthMethods = NonNullable<Hooks["auth"]>["methods"];
+
+type LoginResult = { type: "failed" } | Extract<TokenResult, { type: "success" }>;
+
+/**
+ * Interactive workspace picker offered to completeLogin; resolves undefined to keep the token workspace
+ */
+export type WorkspaceChooser = (options: WorkspaceOption[]) => Promise<string | undefined>;
+
+/**
+ * Offer the workspace picker in the browser tab that just completed the login
+ */
+async function chooseWorkspaceInBrowser(
+	serverInfo: OAuthServerInfo,
+	state: string,
+	options: WorkspaceOption[],
+): Promise<string | undefined> {
+	const choice = serverInfo.chooseWorkspace(options);
+	// The picker lives on the redirect origin so it also works through a forwarded callback port
+	const pickerUrl = new URL("/auth/workspace", REDIRECT_URI);
+	pickerUrl.searchParams.set("state", state);
+	openBrowserUrl(pickerUrl.toString());
+	return (await choice) ?? undefined;
+}
+
+export interface LoginMethodOptions {
+	/** opencode SDK client used to store imported credentials */
+	client: PluginInput["client"];
+	/** Callback server settings from the plugin config */
+	oauth?: OAuthConfig;
+	/** Workspace forced by the plugin config (preselected on the login page) */
+	workspaceId?: string;
+}
+
+/**
+ * Build the auth methods shown by `opencode auth login`
+ * @param completeLogin - Persists a token exchange result and maps it to the opencode callback result
+ * @param options - Plugin config and SDK client
+ * @returns Auth method definitions in display order
+ */
+export function createLoginMethods(
+	completeLogin: (
+		tokens: TokenResult | undefined,
+		chooseWorkspace?: WorkspaceChooser,
+	) => Promise<LoginResult>,
+	{ client, oauth: oauthConfig = {}, workspaceId }: LoginMethodOptions,
+): AuthMethods {
+	// Paste-the-redirect flow shared by the headless method and the browser fallback
+	const pasteCodeFlow = ({ pkce, state, url }: AuthorizationFlow, instructions: string) => ({
+		url,
+		method: "code" as const,
+		instructions,
+		callback: async (input: string) => {
+			const resolved = resolveManualAuthorizationCode(input, state);
+			if ("error" in resolved) {
+				logError(resolved.error);
+				return { type: "failed" as const };
+			}
+			const tokens = await exchangeAuthorizationCode(resolved.code, pkce.verifier, REDIRECT_URI);
+			if (tokens.type === "failed") {
+				// opencode only prints a generic failure, so say why and what to do next
+				logError(ERROR_MESSAGES.CODE_EXCHANGE_FAILED);
+				return { type: "failed" as const };
+			}
+			return completeLogin(tokens, (options) => promptWorkspaceInTerminal(options));
+		},
+	});
+
+	return [
+		{
+			label: AUTH_LABELS.OAUTH,
+			type: "oauth" as const,
+			authorize: async () => {
+				const flow = await createAuthorizationFlow({ workspaceId });
+				const { pkce, state, url } = flow;
+				let serverInfo: OAuthServerInfo;
+				try {
+					serverInfo = await startLocalOAuthServer({
+						state,
+						port: oauthConfig.callbackPort,
+						timeoutMs: oauthConfig.callbackTimeoutMs,
+					});
+				} catch (error) {
+					// Port conflicts shouldn't dead-end the login: surface why and let the user paste the redirect
+					const message = error instanceof Error ? error.message : String(error);
+					logError(message);
+					return pasteCodeFlow(flow, `${message}\n${AUTH_LABELS.INSTRUCTIONS_MANUAL}`);
+				}
+				openBrowserUrl(url);
+				return {
+					url,
+					method: "auto" as const,
+					instructions: AUTH_LABELS.INSTRUCTIONS,
+					callback: async () => {
+						try {
+							const result = await serverInfo.waitForCode(state);
+							if (!result) return { type: "failed" as const };
+							const tokens = await exchangeAuthorizationCode(result.code, pkce.verifier, REDIRECT_URI);
+							return await completeLogin(tokens, (options) =>
+								chooseWorkspaceInBrowser(serverInfo, state, options),
+							);
+						} finally {
+							serverInfo.close();
+						}
+					},
+				};
+			},
+		},
+		{
+			label: AUTH_LABELS.OAUTH_MANUAL,
+			type: "oauth" as const,
+			authorize: async () => {
+				// Headless flow for SSH/container sessions: no local callback server, the user
+				// pastes the redirected URL (or code#state / bare code) back into opencode.
+				const flow = await createAuthorizationFlow({ workspaceId });
+				return pasteCodeFlow(flow, AUTH_LABELS.INSTRUCTIONS_MANUAL);
+			},
+		},
+		{
+			label: AUTH_LABELS.CODEX_CLI_IMPORT,
+			type: "oauth" as const,
+			authorize: async () => {
+				const authPath = getCodexCliAuthPath();
+				return {
+					url: "",
+					method: "auto" as const,
+					instructions: `Importing the Codex CLI login from ${authPath}`,
+					callback: async () => {
+						const imported = await importCodexCliAuth(client, { authPath });
+						if (imported.type === "failed") {
+							logError(imported.error);
+							return { type: "failed" as const };
+						}
+						return completeLogin(imported.tokens);
+					},
+				};
+			},
+		},
+		{ label: AUTH_LABELS.API_KEY, type: "api" as const },
+	];
+}
@@ -0,0 +1,63 @@
+/**
+ * Sign out of the Codex provider
+ *
+ * The opencode SDK has no way to delete stored credentials, so logout overwrites them with an
+ * empty OAuth record; the loader and token manager treat that as "not logged in".
+ */
+
+import type { PluginInput } from "@opencode-ai/plugin";
+import { PROVIDER_ID } from "../constants.js";
+import { logInfo, logWarn } from "../logger.js";
+import type { SessionManager } from "../session/session-manager.js";
+import type { AccountPool } from "./account-pool.js";
+import { revokeToken } from "./auth.js";
+
+export interface LogoutOptions {
+	client: PluginInput["client"];
+	/** Refresh token of the signed-in account, revoked when an endpoint is configured */
+	refreshToken?: string;
+	/** RFC 7009 revocation endpoint from the plugin config */
+	revocationUrl?: string;
+	/** Account to drop from the local pool */
+	accountId?: string;
+	accountPool?: AccountPool;
+	sessionManager?: SessionManager;
+}
+
+export interface LogoutResult {
+	/** Whether stored credentials were cleared */
+	cleared: boolean;
+	revocation: "revoked" | "failed" | "skipped";
+	removedAccountId?: string;
+}
+
+/**
+ * Revoke (when configured) and clear the stored credentials, then drop in-memory session state
+ * @param options - Credentials and state to tear down
+ * @returns What was cleaned up
+ */
+export async function logoutCodex(options: LogoutOptions): Promise<LogoutResult> {
+	let revocation: LogoutResult["revocation"] = "skipped";
+	if (options.revocationUrl && options.refreshToken) {
+		revocation = (await revokeToken(options.refreshToken, options.revocationUrl)) ? "revoked" : "failed";
+	}
+
+	let cleared = true;
+	try {
+		await options.client.auth.set({
+			path: { id: PROVIDER_ID },
+			body: { type: "oauth", access: "", refresh: "", expires: 0 },
+		});
+	} catch (error) {
+		cleared = false;
+		logWarn("Failed to clear stored Codex credentials", { error: (error as Error).message });
+	}
+
+	const removedAccountId = options.accountId
+		? options.accountPool?.remove(options.accountId)?.accountId
+		: undefined;
+	options.sessionManager?.clear();
+
+	logInfo("Signed out of the Codex provider", { revocation, cleared, removedAccountId });
+	return { cleared, revocation, removedAccountId };
+}
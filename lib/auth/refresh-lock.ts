@@ -0,0 +1,153 @@
+/**
+ * Cross-process refresh lock
+ *
+ * Refresh tokens rotate on every use, so two opencode instances refreshing the same stored
+ * credentials would invalidate each other. A lock file under ~/.opencode serializes the
+ * refresh-and-persist sequence across processes.
+ */
+
+import { closeSync, openSync, statSync, unlinkSync, writeSync } from "node:fs";
+import { dirname } from "node:path";
+import { REFRESH_LOCK_CONFIG } from "../constants.js";
+import { logDebug, logWarn } from "../logger.js";
+import { ensureDirectory, getOpenCodePath, safeReadFile } from "../utils/file-system-utils.js";
+
+const REFRESH_LOCK_PATH = getOpenCodePath("openhax-codex-refresh.lock");
+
+export interface RefreshLockOptions {
+	/** Lock file location (defaults to ~/.opencode/openhax-codex-refresh.lock) */
+	lockPath?: string;
+	/** Age after which a lock is considered abandoned even if its owner looks alive */
+	staleMs?: number;
+	/** Maximum time to wait for another process before proceeding without the lock */
+	timeoutMs?: number;
+	/** Delay between acquisition attempts */
+	pollMs?: number;
+}
+
+interface LockOwner {
+	pid: number;
+	token: string;
+	createdAt: number;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function readOwner(lockPath: string): LockOwner | null {
+	const content = safeReadFile(lockPath);
+	if (!content) return null;
+	try {
+		const parsed = JSON.parse(content) as Partial<LockOwner>;
+		if (typeof parsed.pid !== "number" || typeof parsed.createdAt !== "number") return null;
+		return { pid: parsed.pid, token: String(parsed.token ?? ""), createdAt: parsed.createdAt };
+	} catch {
+		return null;
+	}
+}
+
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM means the process exists but belongs to another user
+		return (error as NodeJS.ErrnoException).code === "EPERM";
+	}
+}
+
+/**
+ * Check whether an existing lock was abandoned (owner exited or lock outlived staleMs)
+ * @param lockPath - Lock file path
+ * @param staleMs - Maximum lock age
+ * @param now - Current timestamp
+ * @returns True when the lock can be broken
+ */
+export function isLockStale(lockPath: string, staleMs: number, now: number = Date.now()): boolean {
+	const owner = readOwner(lockPath);
+	if (!owner) {
+		// Unreadable lock: only break it once it is old enough to rule out a writer mid-creation
+		try {
+			return now - statSync(lockPath).mtimeMs > REFRESH_LOCK_CONFIG.UNREADABLE_GRACE_MS;
+		} catch {
+			return false;
+		}
+	}
+	if (now - owner.createdAt > staleMs) return true;
+	return !isProcessAlive(owner.pid);
+}
+
+function tryAcquire(lockPath: string, owner: LockOwner): boolean {
+	try {
+		const fd = openSync(lockPath, "wx", 0o600);
+		try {
+			writeSync(fd, JSON.stringify(owner));
+		} finally {
+			closeSync(fd);
+		}
+		return true;
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "EEXIST") return false;
+		throw error;
+	}
+}
+
+function release(lockPath: string, owner: LockOwner): void {
+	// Never remove a lock another process took over after ours was declared stale
+	if (readOwner(lockPath)?.token !== owner.token) return;
+	try {
+		unlinkSync(lockPath);
+	} catch {
+		// Already removed
+	}
+}
+
+/**
+ * Run a function while holding the cross-process refresh lock
+ * @param fn - Critical section (refresh + persist)
+ * @param options - Lock tuning
+ * @returns Result of fn
+ */
+export async function withRefreshLock<T>(fn: () => Promise<T>, options: RefreshLockOptions = {}): Promise<T> {
+	const lockPath = options.lockPath ?? REFRESH_LOCK_PATH;
+	const staleMs = options.staleMs ?? REFRESH_LOCK_CONFIG.STALE_MS;
+	const timeoutMs = options.timeoutMs ?? REFRESH_LOCK_CONFIG.TIMEOUT_MS;
+	const pollMs = options.pollMs ?? REFRESH_LOCK_CONFIG.POLL_MS;
+	const owner: LockOwner = {
+		pid: process.pid,
+		token: `${process.pid}-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+		createdAt: Date.now(),
+	};
+
+	ensureDirectory(dirname(lockPath));
+	const deadline = Date.now() + timeoutMs;
+	let acquired = false;
+	for (;;) {
+		owner.createdAt = Date.now();
+		if (tryAcquire(lockPath, owner)) {
+			acquired = true;
+			break;
+		}
+
+		if (isLockStale(lockPath, staleMs)) {
+			logWarn("Removing stale token refresh lock", { lockPath, owner: readOwner(lockPath) });
+			try {
+				unlinkSync(lockPath);
+			} catch {
+				// Another process already broke the lock
+			}
+			continue;
+		}
+		if (Date.now() >= deadline) {
+			logWarn("Timed out waiting for token refresh lock; refreshing without it", { lockPath, timeoutMs });
+			break;
+		}
+		logDebug("Waiting for token refresh lock held by another process", { lockPath });
+		await sleep(pollMs);
+	}
+
+	try {
+		return await fn();
+	} finally {
+		if (acquired) release(lockPath, owner);
+	}
+}
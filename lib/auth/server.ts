@@ -1,27 +1,184 @@
+import { execFile } from "node:child_process";
 import fs from "node:fs";
 import http from "node:http";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { AUTH_LABELS, PERFORMANCE_CONFIG } from "../constants.js";
 import { logError } from "../logger.js";
-import type { OAuthServerInfo } from "../types.js";
+import type { OAuthServerInfo, OAuthServerOptions, WorkspaceOption } from "../types.js";
 
-// Resolve path to oauth-success.html (one level up from auth/ subfolder)
+// Resolve path to the HTML pages (one level up from auth/ subfolder)
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const successHtml = fs.readFileSync(path.join(__dirname, "..", "oauth-success.html"), "utf-8");
+const errorHtml = fs.readFileSync(path.join(__dirname, "..", "oauth-error.html"), "utf-8");
+const workspaceHtml = fs.readFileSync(path.join(__dirname, "..", "oauth-workspace.html"), "utf-8");
+
+const PORT_LOOKUP_TIMEOUT_MS = 2000;
+
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+/**
+ * Render the OAuth failure page for an `error`/`error_description` callback
+ * @param error - OAuth error code
+ * @param description - Human readable description from the provider
+ * @returns HTML page
+ */
+export function renderOAuthErrorPage(error: string, description?: string): string {
+	return errorHtml
+		.replace("{{ERROR}}", escapeHtml(error))
+		.replace("{{DESCRIPTION}}", escapeHtml(description || "No details provided"));
+}
+
+/**
+ * Render the workspace picker served at /auth/workspace
+ * @param options - Workspaces to offer
+ * @param state - OAuth state echoed back so stray requests are rejected
+ * @returns HTML page
+ */
+export function renderWorkspacePage(options: WorkspaceOption[], state: string): string {
+	const links = options
+		.map((option) => {
+			const href = `/auth/workspace?state=${encodeURIComponent(state)}&id=${encodeURIComponent(option.id)}`;
+			const suffix = option.isTokenDefault ? " [default]" : "";
+			return (
+				`                    <a class="workspace" href="${escapeHtml(href)}"><span class="prompt">&gt;</span>` +
+				`${escapeHtml(option.label)} <span class="label">(${escapeHtml(option.id)})${suffix}</span></a>`
+			);
+		})
+		.join("\n");
+	return workspaceHtml.replace("{{OPTIONS}}", links);
+}
+
+function runCommand(command: string, args: string[]): Promise<string> {
+	return new Promise((resolve) => {
+		execFile(command, args, { timeout: PORT_LOOKUP_TIMEOUT_MS, windowsHide: true }, (error, stdout) => {
+			resolve(error ? "" : String(stdout));
+		});
+	});
+}
+
+/**
+ * Identify the process listening on a local TCP port
+ * Uses `lsof` on macOS/Linux and `netstat`/`tasklist` on Windows; best effort only.
+ * @param port - TCP port
+ * @returns Description such as `codex (pid 4242)`, or undefined when it cannot be determined
+ */
+export async function describePortOwner(port: number): Promise<string | undefined> {
+	if (process.platform === "win32") {
+		const netstat = await runCommand("netstat", ["-ano", "-p", "tcp"]);
+		const line = netstat
+			.split(/\r?\n/)
+			.find((entry) => new RegExp(`:${port}\\s`).test(entry) && /LISTENING/i.test(entry));
+		const pid = line?.trim().split(/\s+/).pop();
+		if (!pid) return undefined;
+		const tasklist = await runCommand("tasklist", ["/FI", `PID eq ${pid}`, "/FO", "CSV", "/NH"]);
+		const name = tasklist.match(/^"([^"]+)"/)?.[1];
+		return name ? `${name} (pid ${pid})` : `pid ${pid}`;
+	}
+
+	const output = await runCommand("lsof", ["-nP", `-iTCP:${port}`, "-sTCP:LISTEN", "-Fpc"]);
+	const pid = output.match(/^p(\d+)$/m)?.[1];
+	if (!pid) return undefined;
+	const name = output.match(/^c(.+)$/m)?.[1];
+	return name ? `${name} (pid ${pid})` : `pid ${pid}`;
+}
+
+/**
+ * Build the message shown when the callback port is already taken
+ * @param port - Port that failed to bind
+ * @param owner - Process holding the port, when known
+ * @returns Actionable error message
+ */
+export function formatPortInUseMessage(port: number, owner?: string): string {
+	const holder = owner ? ` by ${owner}` : "";
+	return (
+		`OAuth callback port ${port} is already in use${holder}. ` +
+		"Stop that process (often a pending `codex login` or another opencode login) and try again, " +
+		`or use "${AUTH_LABELS.OAUTH_MANUAL}" to paste the redirect URL instead.`
+	);
+}
+
+type SendResponse = (status: number, message: string, headers?: http.OutgoingHttpHeaders) => void;
+
+/**
+ * Pending workspace choice served at /auth/workspace once the code exchange found several workspaces
+ */
+function createWorkspacePicker(state: string, timeoutMs: number) {
+	let options: WorkspaceOption[] = [];
+	let settle: ((id: string | null) => void) | undefined;
+
+	return {
+		choose: (offered: WorkspaceOption[]) =>
+			new Promise<string | null>((resolve) => {
+				options = offered;
+				const timer = setTimeout(() => {
+					logError("Timed out waiting for a workspace choice", { timeoutMs });
+					settle?.(null);
+				}, timeoutMs);
+				settle = (id) => {
+					clearTimeout(timer);
+					settle = undefined;
+					resolve(id);
+				};
+			}),
+		handle: (id: string | null, send: SendResponse) => {
+			if (!settle) {
+				send(404, "No workspace choice pending");
+				return;
+			}
+			if (!id) {
+				send(200, renderWorkspacePage(options, state), { "Content-Type": "text/html; charset=utf-8" });
+				return;
+			}
+			if (!options.some((option) => option.id === id)) {
+				send(400, "Unknown workspace");
+				return;
+			}
+			send(200, successHtml, { "Content-Type": "text/html; charset=utf-8" });
+			settle(id);
+		},
+		cancel: () => settle?.(null),
+	};
+}
 
 /**
  * Start a local HTTP listener that captures the OAuth authorization code from /auth/callback.
  *
  * @param options - Configuration object.
  * @param options.state - Expected `state` query parameter value used to validate the callback.
- * @returns An object containing:
- *  - `port`: the bound port number (1455),
+ * @param options.port - Port to listen on (default 1455).
+ * @param options.timeoutMs - How long to wait for the callback before giving up (default 60 seconds).
+ * @param options.signal - Aborts the wait and closes the server.
+ * @returns A promise that rejects with an actionable error when the port cannot be bound, otherwise:
+ *  - `port`: the bound port number,
  *  - `close()`: a function that closes the server,
- *  - `waitForCode(...)`: waits up to ~60 seconds for an authorization code; validation always uses the configured `options.state` (the optional argument is accepted only for API symmetry); returns `{ code: string }` when a code matching that state is captured, or `null` on timeout.
+ *  - `waitForCode(...)`: resolves as soon as the callback arrives with `{ code: string }`; resolves `null`
+ *    when OpenAI reports an OAuth error, on timeout, or on abort. Validation always uses `options.state`.
+ *  - `chooseWorkspace(options)`: serves a picker at /auth/workspace and resolves with the clicked workspace ID;
+ *    resolves `null` on timeout or close.
  */
-export function startLocalOAuthServer({ state }: { state: string }): Promise<OAuthServerInfo> {
+export function startLocalOAuthServer({
+	state,
+	port = PERFORMANCE_CONFIG.OAUTH_PORT,
+	timeoutMs = PERFORMANCE_CONFIG.OAUTH_CALLBACK_TIMEOUT_MS,
+	signal,
+}: OAuthServerOptions): Promise<OAuthServerInfo> {
+	let settle: (result: { code: string } | null) => void = () => {};
+	const result = new Promise<{ code: string } | null>((resolve) => {
+		settle = resolve;
+	});
+
+	const workspacePicker = createWorkspacePicker(state, timeoutMs);
+
 	const server = http.createServer((req, res) => {
-		const send = (status: number, message: string, headers?: http.OutgoingHttpHeaders) => {
+		const send: SendResponse = (status, message, headers) => {
 			const finalHeaders = {
 				"Content-Type": "text/plain; charset=utf-8",
 				...headers,
@@ -32,7 +189,7 @@ export function startLocalOAuthServer({ state }: { state: string }): Promise<OAu
 
 		try {
 			const url = new URL(req.url || "", "http://localhost");
-			if (url.pathname !== "/auth/callback") {
+			if (url.pathname !== "/auth/callback" && url.pathname !== "/auth/workspace") {
 				send(404, "Not found");
 				return;
 			}
@@ -40,46 +197,75 @@ export function startLocalOAuthServer({ state }: { state: string }): Promise<OAu
 				send(400, "State mismatch");
 				return;
 			}
+			if (url.pathname === "/auth/workspace") {
+				workspacePicker.handle(url.searchParams.get("id"), send);
+				return;
+			}
+			const error = url.searchParams.get("error");
+			if (error) {
+				const description = url.searchParams.get("error_description") ?? undefined;
+				logError("OAuth authorization failed", { error, description });
+				send(400, renderOAuthErrorPage(error, description), { "Content-Type": "text/html; charset=utf-8" });
+				finish(null);
+				return;
+			}
 			const code = url.searchParams.get("code");
 			if (!code) {
 				send(400, "Missing authorization code");
 				return;
 			}
 			send(200, successHtml, { "Content-Type": "text/html; charset=utf-8" });
-			(server as http.Server & { _lastCode?: string })._lastCode = code;
+			finish({ code });
 		} catch {
 			send(500, "Internal error");
 		}
 	});
 
-	return new Promise((resolve) => {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const onAbort = () => {
+		finish(null);
+		close();
+	};
+	const close = () => {
+		signal?.removeEventListener("abort", onAbort);
+		finish(null);
+		workspacePicker.cancel();
+		try {
+			server.close();
+		} catch {}
+	};
+	function finish(value: { code: string } | null) {
+		if (timer) clearTimeout(timer);
+		settle(value);
+	}
+
+	return new Promise((resolve, reject) => {
 		server
-			.listen(1455, "127.0.0.1", () => {
+			.listen(port, "127.0.0.1", () => {
+				if (signal?.aborted) {
+					onAbort();
+				} else {
+					signal?.addEventListener("abort", onAbort, { once: true });
+					timer = setTimeout(() => {
+						logError("Timed out waiting for the OAuth callback", { port, timeoutMs });
+						finish(null);
+					}, timeoutMs);
+				}
 				resolve({
-					port: 1455,
-					close: () => server.close(),
-					waitForCode: async (_expectedState?: string) => {
-						const poll = () => new Promise<void>((r) => setTimeout(r, 100));
-						for (let i = 0; i < 600; i++) {
-							const lastCode = (server as http.Server & { _lastCode?: string })._lastCode;
-							if (lastCode) return { code: lastCode };
-							await poll();
-						}
-						return null;
-					},
+					port,
+					close,
+					waitForCode: (_expectedState?: string) => result,
+					chooseWorkspace: workspacePicker.choose,
 				});
 			})
-			.on("error", (err: NodeJS.ErrnoException) => {
-				logError("Failed to bind OAuth callback server", { code: err?.code });
-				resolve({
-					port: 1455,
-					close: () => {
-						try {
-							server.close();
-						} catch {}
-					},
-					waitForCode: async () => null,
-				});
+			.on("error", async (err: NodeJS.ErrnoException) => {
+				logError("Failed to bind OAuth callback server", { code: err?.code, port });
+				close();
+				if (err?.code === "EADDRINUSE") {
+					reject(new Error(formatPortInUseMessage(port, await describePortOwner(port))));
+					return;
+				}
+				reject(new Error(`Failed to start OAuth callback server on port ${port}: ${err?.message ?? err}`));
 			});
 	});
 }
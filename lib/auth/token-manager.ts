@@ -0,0 +1,204 @@
+/**
+ * OAuth token manager
+ *
+ * Deduplicates concurrent refreshes into a single in-flight request, refreshes ahead of expiry,
+ * retries transient failures with exponential backoff, and stops on `invalid_grant`.
+ */
+
+import type { Auth, OpencodeClient } from "@opencode-ai/sdk";
+import { ERROR_MESSAGES, HTTP_STATUS, PROVIDER_ID, TOKEN_REFRESH_CONFIG } from "../constants.js";
+import { logDebug, logError, logWarn } from "../logger.js";
+import type { TokenFailure, TokenRefreshConfig, TokenResult, TokenSuccess } from "../types.js";
+import { refreshAccessToken } from "./auth.js";
+import { type RefreshLockOptions, withRefreshLock } from "./refresh-lock.js";
+
+export type AuthResolution = { success: true; auth: Auth } | { success: false; response: Response };
+
+export interface TokenManagerOptions {
+	getAuth: () => Promise<Auth>;
+	client: OpencodeClient;
+	config?: TokenRefreshConfig;
+	/** Called after refreshed tokens were persisted, with the refresh token they replaced */
+	onRefresh?: (tokens: TokenSuccess, previousRefresh: string) => void;
+	/** Cross-process lock tuning (mainly for tests) */
+	lock?: RefreshLockOptions;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function isRetryable(failure: TokenFailure): boolean {
+	if (failure.reason === "network_error") return true;
+	if (failure.reason !== "http_error") return false;
+	return failure.status === undefined || failure.status === 429 || failure.status >= 500;
+}
+
+function failureResponse(message: string): AuthResolution {
+	return {
+		success: false,
+		response: new Response(JSON.stringify({ error: message }), {
+			status: HTTP_STATUS.UNAUTHORIZED,
+		}),
+	};
+}
+
+export class TokenManager {
+	private readonly getAuth: () => Promise<Auth>;
+
+	private readonly client: OpencodeClient;
+
+	private readonly onRefresh?: (tokens: TokenSuccess, previousRefresh: string) => void;
+
+	private readonly skewMs: number;
+
+	private readonly maxRetries: number;
+
+	private readonly backoffMs: number;
+
+	private readonly lockOptions?: RefreshLockOptions;
+
+	private inFlight: Promise<TokenResult> | null = null;
+
+	/** Last successful rotation, so callers holding the old token reuse it instead of refreshing again */
+	private lastRotation: { from: string; tokens: TokenSuccess } | null = null;
+
+	/** Refresh token rejected with invalid_grant; never retried until the user logs in again */
+	private revokedRefreshToken: string | null = null;
+
+	constructor(options: TokenManagerOptions) {
+		this.getAuth = options.getAuth;
+		this.client = options.client;
+		this.onRefresh = options.onRefresh;
+		this.skewMs = options.config?.skewMs ?? TOKEN_REFRESH_CONFIG.SKEW_MS;
+		this.maxRetries = options.config?.maxRetries ?? TOKEN_REFRESH_CONFIG.MAX_RETRIES;
+		this.backoffMs = options.config?.backoffMs ?? TOKEN_REFRESH_CONFIG.BACKOFF_MS;
+		this.lockOptions = options.lock;
+	}
+
+	/**
+	 * Resolve usable credentials for the next request
+	 * Expired tokens are refreshed before returning; tokens inside the skew window are
+	 * refreshed in the background while the current access token is still used.
+	 * @returns Current auth or a 401 response when no valid token can be obtained
+	 */
+	async getValidAuth(now: number = Date.now()): Promise<AuthResolution> {
+		const auth = await this.getAuth();
+		if (auth.type !== "oauth" || !auth.refresh) {
+			logError(ERROR_MESSAGES.TOKEN_REFRESH_FAILED);
+			return failureResponse("Token refresh failed");
+		}
+
+		if (auth.access && auth.expires > now) {
+			if (auth.expires - this.skewMs <= now) {
+				void this.refresh(auth.refresh).catch(() => undefined);
+			}
+			return { success: true, auth };
+		}
+
+		const result = await this.refresh(auth.refresh);
+		if (result.type === "failed") {
+			if (result.reason === "invalid_grant") {
+				return failureResponse(ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+			}
+			logError(ERROR_MESSAGES.TOKEN_REFRESH_FAILED);
+			return failureResponse("Token refresh failed");
+		}
+
+		return {
+			success: true,
+			auth: { ...auth, access: result.access, refresh: result.refresh, expires: result.expires },
+		};
+	}
+
+	/**
+	 * Refresh tokens, joining any refresh already in flight
+	 * @param refreshToken - Refresh token currently held by the caller
+	 * @returns Refreshed tokens or failure
+	 */
+	refresh(refreshToken: string): Promise<TokenResult> {
+		if (this.lastRotation?.from === refreshToken) {
+			return Promise.resolve(this.lastRotation.tokens);
+		}
+		if (this.revokedRefreshToken === refreshToken) {
+			logError(ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+			return Promise.resolve({ type: "failed", reason: "invalid_grant" });
+		}
+		if (this.inFlight) {
+			logDebug("Joining in-flight token refresh");
+			return this.inFlight;
+		}
+
+		this.inFlight = withRefreshLock(() => this.refreshLocked(refreshToken), this.lockOptions).finally(() => {
+			this.inFlight = null;
+		});
+		return this.inFlight;
+	}
+
+	/**
+	 * Refresh while holding the cross-process lock
+	 * Another opencode instance may have rotated the token while this one waited for the lock;
+	 * in that case its stored credentials are reused instead of spending the stale refresh token.
+	 */
+	private async refreshLocked(refreshToken: string): Promise<TokenResult> {
+		const stored = await this.getAuth();
+		if (
+			stored.type === "oauth" &&
+			stored.refresh &&
+			stored.refresh !== refreshToken &&
+			stored.access &&
+			stored.expires > Date.now()
+		) {
+			logDebug("Using credentials refreshed by another opencode process");
+			const tokens: TokenSuccess = {
+				type: "success",
+				access: stored.access,
+				refresh: stored.refresh,
+				expires: stored.expires,
+			};
+			this.lastRotation = { from: refreshToken, tokens };
+			this.onRefresh?.(tokens, refreshToken);
+			return tokens;
+		}
+		return this.refreshWithRetry(refreshToken);
+	}
+
+	private async refreshWithRetry(refreshToken: string): Promise<TokenResult> {
+		for (let attempt = 0; ; attempt++) {
+			const result = await refreshAccessToken(refreshToken);
+			if (result.type === "success") {
+				await this.persist(refreshToken, result);
+				return result;
+			}
+			if (result.reason === "invalid_grant") {
+				this.revokedRefreshToken = refreshToken;
+				logError(ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+				return result;
+			}
+			if (!isRetryable(result) || attempt >= this.maxRetries) {
+				return result;
+			}
+			const delay = this.backoffMs * 2 ** attempt;
+			logWarn("Token refresh failed; retrying", {
+				attempt: attempt + 1,
+				maxRetries: this.maxRetries,
+				delayMs: delay,
+				reason: result.reason,
+				status: result.status,
+			});
+			await sleep(delay);
+		}
+	}
+
+	private async persist(previousRefreshToken: string, tokens: TokenSuccess): Promise<void> {
+		await this.client.auth.set({
+			path: { id: PROVIDER_ID },
+			body: {
+				type: "oauth",
+				access: tokens.access,
+				refresh: tokens.refresh,
+				expires: tokens.expires,
+			},
+		});
+		this.lastRotation = { from: previousRefreshToken, tokens };
+		this.onRefresh?.(tokens, previousRefreshToken);
+	}
+}
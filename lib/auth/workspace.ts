@@ -0,0 +1,88 @@
+/**
+ * ChatGPT workspace selection
+ *
+ * A login can belong to a personal account plus Team/Enterprise workspaces. The access token
+ * only carries one `chatgpt_account_id`; the id_token's organizations claim lists the rest.
+ */
+
+import { createInterface } from "node:readline/promises";
+import { PERFORMANCE_CONFIG } from "../constants.js";
+import { logWarn } from "../logger.js";
+import type { AccountIdentity, PooledAccount, WorkspaceOption } from "../types.js";
+
+/**
+ * List the workspaces a login can route requests to
+ * @param accountId - Account ID from the access token claims
+ * @param identity - Decoded identity (organizations come from the id_token)
+ * @returns Token workspace first, followed by the other organizations
+ */
+export function listWorkspaceOptions(accountId: string, identity?: AccountIdentity): WorkspaceOption[] {
+	const tokenOrg = identity?.organizations.find((org) => org.id === accountId);
+	const options: WorkspaceOption[] = [
+		{ id: accountId, label: tokenOrg?.title ?? "Personal account", isTokenDefault: true },
+	];
+	for (const org of identity?.organizations ?? []) {
+		if (org.id === accountId) continue;
+		options.push({ id: org.id, label: org.title ?? org.id });
+	}
+	return options;
+}
+
+/**
+ * Pick the workspace requests are billed to
+ * @param accountId - Account ID from the access token claims
+ * @param configured - `workspaceId` from the plugin config
+ * @param stored - Pooled account holding the choice made during login
+ * @returns Account ID for the `chatgpt-account-id` header
+ */
+export function resolveWorkspaceId(
+	accountId: string,
+	configured: string | undefined,
+	stored: PooledAccount | undefined,
+): string {
+	return configured || stored?.workspaceId || accountId;
+}
+
+/**
+ * Ask for a workspace on the terminal running `opencode auth login`
+ * Falls back to the token workspace when stdin is not interactive or nobody answers in time.
+ * @param options - Workspaces to choose from (token workspace first)
+ * @param io - Streams and timeout (defaults to the process TTY)
+ * @returns Chosen workspace ID, or undefined to keep the token workspace
+ */
+export async function promptWorkspaceInTerminal(
+	options: WorkspaceOption[],
+	io: {
+		input?: NodeJS.ReadableStream & { isTTY?: boolean };
+		output?: NodeJS.WritableStream;
+		timeoutMs?: number;
+	} = {},
+): Promise<string | undefined> {
+	const input = io.input ?? process.stdin;
+	const output = io.output ?? process.stdout;
+	if (!input.isTTY) return undefined;
+
+	output.write("\nThis login can use several ChatGPT workspaces:\n");
+	options.forEach((option, index) => {
+		const suffix = option.isTokenDefault ? " [default]" : "";
+		output.write(`  ${index + 1}) ${option.label} (${option.id})${suffix}\n`);
+	});
+
+	const rl = createInterface({ input, output });
+	const signal = AbortSignal.timeout(io.timeoutMs ?? PERFORMANCE_CONFIG.OAUTH_CALLBACK_TIMEOUT_MS);
+	try {
+		const answer = (await rl.question("Workspace number [1]: ", { signal })).trim();
+		if (!answer) return undefined;
+		const choice = options[Number.parseInt(answer, 10) - 1];
+		if (!choice) {
+			logWarn("Unknown workspace selection; keeping the default workspace", { answer });
+			return undefined;
+		}
+		return choice.id;
+	} catch {
+		logWarn("No workspace selected; keeping the default workspace");
+		return undefined;
+	} finally {
+		rl.close();
+	}
+}
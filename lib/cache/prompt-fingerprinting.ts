@@ -6,6 +6,8 @@
  */
 
 import { createHash } from "node:crypto";
+import { isImagePart } from "../request/image-inputs.js";
+import { isSystemMessage } from "../utils/input-item-utils.js";
 
 /**
  * Generate SHA-256 hash of content
@@ -31,7 +33,7 @@ export function hasBridgePromptInConversation(input: any[] | undefined, bridgeCo
 
 	// Check all messages for bridge prompt (session-scoped, not just recent)
 	for (const item of input) {
-		if (item.type === "message" && (item.role === "developer" || item.role === "system")) {
+		if (isSystemMessage(item)) {
 			const content = extractTextContent(item.content);
 			if (content) {
 				const contentHash = generateContentHash(content);
@@ -56,7 +58,7 @@ function extractTextContent(content: any): string | null {
 	}
 
 	if (Array.isArray(content)) {
-		const textItems = content.filter((item) => item.type === "input_text" && item.text);
+		const textItems = content.filter((item) => item?.type === "input_text" && item.text);
 		if (textItems.length > 0) {
 			return textItems.map((item) => item.text).join("\n");
 		}
@@ -116,6 +118,16 @@ export function cacheBridgeDecision(inputHash: string, toolCount: number, should
 	bridgeCache.set(inputHash, entry);
 }
 
+/**
+ * Replace inline image parts with a placeholder so multi-megabyte data URLs are not serialized
+ * @param content - Message content
+ * @returns Content safe to stringify for hashing
+ */
+function withoutImageData(content: unknown): unknown {
+	if (!Array.isArray(content)) return content;
+	return content.map((part) => (isImagePart(part) ? { type: "image" } : part));
+}
+
 /**
  * Generate hash of input array for caching
  * @param input - Input array
@@ -134,7 +146,7 @@ export function generateInputHash(input: any[] | undefined): string {
 				typeof item.content === "string"
 					? item.content.substring(0, 100)
 					: item.content
-						? JSON.stringify(item.content).substring(0, 100)
+						? JSON.stringify(withoutImageData(item.content)).substring(0, 100)
 						: "",
 		})),
 	);
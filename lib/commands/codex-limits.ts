@@ -0,0 +1,63 @@
+import {
+	formatWindowLength,
+	getRateLimitSnapshots,
+	type RateLimitSnapshot,
+	type RateLimitWindow,
+} from "../request/rate-limits.js";
+import type { RequestBody } from "../types.js";
+import { createStaticResponse } from "./static-response.js";
+
+export const LIMITS_COMMAND = "codex-limits";
+
+interface LimitsMetadata {
+	command: "codex-limits";
+	/** Latest windows per account ID ("" in API-key mode) */
+	rateLimits: Record<string, RateLimitSnapshot>;
+}
+
+/**
+ * Answer `/codex-limits` with the usage windows each account's latest Codex response reported
+ * @param body - Transformed request body (for the model echo)
+ * @returns Static command response
+ */
+export function handleLimitsCommand(body: RequestBody): Response {
+	const metadata: LimitsMetadata = {
+		command: LIMITS_COMMAND,
+		rateLimits: getRateLimitSnapshots(),
+	};
+	return createStaticResponse(body.model, formatLimitsDisplay(metadata.rateLimits), metadata);
+}
+
+function formatWindow(label: string, window: RateLimitWindow, now: number): string {
+	if (window.usedPercent === undefined) return `- ${label}: (not reported)`;
+	const length = formatWindowLength(window.windowMinutes);
+	if (window.resetsAt === undefined) return `- ${label}: ${window.usedPercent}% used (${length} window)`;
+	const minutes = Math.max(0, Math.round((window.resetsAt - now) / 60_000));
+	return (
+		`- ${label}: ${window.usedPercent}% used (${length} window), ` +
+		`resets ${new Date(window.resetsAt).toLocaleString()} (in ${minutes}m)`
+	);
+}
+
+function formatLimitsDisplay(snapshots: Record<string, RateLimitSnapshot>): string {
+	const now = Date.now();
+	const lines: string[] = [];
+	lines.push(`Codex Limits -- ${new Date(now).toISOString()}`);
+
+	const entries = Object.entries(snapshots);
+	if (entries.length === 0) {
+		lines.push("");
+		lines.push("- No rate-limit headers seen yet. Send a request to Codex and try again.");
+		return lines.join("\n");
+	}
+
+	for (const [accountId, snapshot] of entries) {
+		lines.push("");
+		lines.push(
+			`${accountId ? `Account ${accountId}` : "API key"} (as of ${new Date(snapshot.updatedAt).toLocaleString()})`,
+		);
+		lines.push(formatWindow("Primary", snapshot.primary, now));
+		lines.push(formatWindow("Secondary", snapshot.secondary, now));
+	}
+	return lines.join("\n");
+}
@@ -0,0 +1,54 @@
+import type { LogoutResult } from "../auth/logout.js";
+import type { RequestBody } from "../types.js";
+import { createStaticResponse } from "./static-response.js";
+
+export const LOGOUT_COMMAND = "codex-logout";
+
+interface LogoutMetadata {
+	command: "codex-logout";
+	cleared: boolean;
+	revocation: LogoutResult["revocation"] | "unavailable";
+	removedAccountId?: string;
+}
+
+const REVOCATION_LABELS: Record<LogoutMetadata["revocation"], string> = {
+	revoked: "refresh token revoked",
+	failed: "revocation endpoint rejected the request (see logs)",
+	skipped: "skipped (no `oauth.revocationUrl` configured)",
+	unavailable: "skipped",
+};
+
+/**
+ * Answer `/codex-logout` by clearing credentials and session state
+ * @param body - Transformed request body (for the model echo)
+ * @param logout - Performs the sign-out; missing when the fetcher can't sign out
+ * @returns Static command response
+ */
+export async function handleLogoutCommand(
+	body: RequestBody,
+	logout?: () => Promise<LogoutResult>,
+): Promise<Response> {
+	const result = logout ? await logout() : undefined;
+	const metadata: LogoutMetadata = {
+		command: LOGOUT_COMMAND,
+		cleared: result?.cleared ?? false,
+		revocation: result?.revocation ?? "unavailable",
+		removedAccountId: result?.removedAccountId,
+	};
+	return createStaticResponse(body.model, formatLogoutDisplay(metadata), metadata);
+}
+
+function formatLogoutDisplay(metadata: LogoutMetadata): string {
+	const lines: string[] = [];
+	lines.push(`Codex Logout -- ${new Date().toISOString()}`);
+	lines.push("");
+	lines.push(`- Stored credentials: ${metadata.cleared ? "cleared" : "could not be cleared (see logs)"}`);
+	lines.push(`- Token revocation: ${REVOCATION_LABELS[metadata.revocation]}`);
+	if (metadata.removedAccountId) {
+		lines.push(`- Removed account ${metadata.removedAccountId} from the pool`);
+	}
+	lines.push("- Prompt cache sessions reset");
+	lines.push("");
+	lines.push("Run `opencode auth login` to sign in again.");
+	return lines.join("\n");
+}
@@ -1,11 +1,37 @@
-import { randomUUID } from "node:crypto";
+import type { AccountPool } from "../auth/account-pool.js";
+import type { LogoutResult } from "../auth/logout.js";
 import { getCachePerformanceReport } from "../cache/cache-metrics.js";
 import { type CacheWarmSnapshot, getCacheWarmSnapshot } from "../cache/cache-warming.js";
+import { type ConcurrencySnapshot, getConcurrencySnapshot } from "../request/concurrency-limiter.js";
+import type { ContextTrim } from "../request/context-guard.js";
+import { type Attachment, listAttachments } from "../request/file-inputs.js";
+import { getModelFallbackSnapshot, type ModelFallbackSnapshot } from "../request/model-fallback.js";
 import type { SessionManager, SessionMetricsSnapshot } from "../session/session-manager.js";
-import type { RequestBody } from "../types.js";
+import type { UsageLedger } from "../session/usage-ledger.js";
+import type { PooledAccount, RequestBody } from "../types.js";
+import { extractTextFromItem, isUserMessage } from "../utils/input-item-utils.js";
+import { handleLimitsCommand, LIMITS_COMMAND } from "./codex-limits.js";
+import { handleLogoutCommand, LOGOUT_COMMAND } from "./codex-logout.js";
+import { handleUsageCommand, USAGE_COMMAND } from "./codex-usage.js";
+import { handleWhoamiCommand, WHOAMI_COMMAND } from "./codex-whoami.js";
+import { createStaticResponse } from "./static-response.js";
 
 interface CommandOptions {
 	sessionManager?: SessionManager;
+	accountPool?: AccountPool;
+	/** Active ChatGPT account ID */
+	accountId?: string;
+	/** Workspace requests are routed to, when it differs from accountId */
+	workspaceId?: string;
+	/** Active OAuth access token and its expiry */
+	accessToken?: string;
+	accessTokenExpiresAt?: number;
+	/** Clears credentials and session state for /codex-logout */
+	logout?: () => Promise<LogoutResult>;
+	/** Token usage history for /codex-usage */
+	usageLedger?: UsageLedger;
+	/** Context guard trim applied to this request, for /codex-inspect */
+	contextTrim?: ContextTrim;
 }
 
 interface MetricsMetadata {
@@ -13,6 +39,8 @@ interface MetricsMetadata {
 	cacheReport: ReturnType<typeof getCachePerformanceReport>;
 	promptCache: SessionMetricsSnapshot;
 	cacheWarmStatus: CacheWarmSnapshot;
+	modelFallback: ModelFallbackSnapshot;
+	requestQueue: ConcurrencySnapshot;
 }
 
 interface InspectMetadata {
@@ -26,14 +54,31 @@ interface InspectMetadata {
 	reasoningSummary?: string;
 	textVerbosity?: string;
 	include?: string[];
+	contextTrim?: ContextTrim;
+	attachments: Attachment[];
 }
 
-type CommandMetadata = MetricsMetadata | InspectMetadata;
+interface AccountsMetadata {
+	command: "codex-accounts";
+	action: "list" | "remove";
+	removedAccountId?: string;
+	accounts: Array<{ accountId: string; exhaustedUntil?: number }>;
+}
 
 const METRICS_COMMAND = "codex-metrics";
 const INSPECT_COMMAND = "codex-inspect";
-
-export function maybeHandleCodexCommand(body: RequestBody, opts: CommandOptions = {}): Response | undefined {
+const ACCOUNTS_COMMAND = "codex-accounts";
+
+/**
+ * Answer a `/codex-*` chat command locally instead of sending the request upstream
+ * @param body - Transformed request body
+ * @param opts - State the commands report on or act upon
+ * @returns Static response (a promise for commands with side effects), or undefined when no command matched
+ */
+export function maybeHandleCodexCommand(
+	body: RequestBody,
+	opts: CommandOptions = {},
+): Response | Promise<Response> | undefined {
 	const latestUserText = extractLatestUserText(body);
 	if (!latestUserText) {
 		return undefined;
@@ -41,223 +86,148 @@ export function maybeHandleCodexCommand(body: RequestBody, opts: CommandOptions
 
 	const trigger = normalizeCommandTrigger(latestUserText);
 
-	if (isMetricsTrigger(trigger)) {
-		const cacheReport = getCachePerformanceReport();
-		const promptCache = opts.sessionManager?.getMetrics?.() ?? createEmptySessionMetrics();
-		const warmStatus = getCacheWarmSnapshot();
-		const message = formatMetricsDisplay(cacheReport, promptCache, warmStatus);
+	if (matchesCommand(trigger, METRICS_COMMAND)) {
+		return handleMetricsCommand(body, opts.sessionManager);
+	}
 
-		const metadata: MetricsMetadata = {
-			command: METRICS_COMMAND,
-			cacheReport,
-			promptCache,
-			cacheWarmStatus: warmStatus,
-		};
+	if (matchesCommand(trigger, INSPECT_COMMAND)) {
+		return handleInspectCommand(body, opts.contextTrim);
+	}
 
-		return createStaticResponse(body.model, message, metadata);
+	if (matchesCommand(trigger, ACCOUNTS_COMMAND)) {
+		return handleAccountsCommand(body, getCommandArgs(trigger, ACCOUNTS_COMMAND), opts.accountPool);
 	}
 
-	if (isInspectTrigger(trigger)) {
-		const bodyAny = body as Record<string, unknown>;
-		const promptCacheKey =
-			(bodyAny.prompt_cache_key as string | undefined) || (bodyAny.promptCacheKey as string | undefined);
-		const tools = Array.isArray(bodyAny.tools) ? (bodyAny.tools as unknown[]) : [];
-		const hasTools = tools.length > 0;
-		const reasoning = bodyAny.reasoning as { effort?: string; summary?: string } | undefined;
-		const hasReasoning = !!reasoning && typeof reasoning === "object";
-		const textConfig = bodyAny.text as { verbosity?: string } | undefined;
-		const includeRaw = bodyAny.include as unknown;
-
-		const include = Array.isArray(includeRaw)
-			? (includeRaw as unknown[]).filter((v): v is string => typeof v === "string")
-			: undefined;
-
-		const metadata: InspectMetadata = {
-			command: INSPECT_COMMAND,
-			model: body.model,
-			promptCacheKey,
-			hasTools,
-			toolCount: tools.length,
-			hasReasoning,
-			reasoningEffort: hasReasoning ? reasoning?.effort : undefined,
-			reasoningSummary: hasReasoning ? reasoning?.summary : undefined,
-			textVerbosity: textConfig?.verbosity,
-			include,
-		};
-
-		const message = formatInspectDisplay(metadata, body);
-		return createStaticResponse(body.model, message, metadata);
+	if (matchesCommand(trigger, WHOAMI_COMMAND)) {
+		return handleWhoamiCommand(body, opts);
 	}
 
-	return undefined;
-}
+	if (matchesCommand(trigger, LOGOUT_COMMAND)) {
+		return handleLogoutCommand(body, opts.logout);
+	}
 
-function normalizeCommandTrigger(text: string): string {
-	const trimmed = text.trim();
-	if (!trimmed) return "";
-	const lower = trimmed.toLowerCase();
+	if (matchesCommand(trigger, USAGE_COMMAND)) {
+		return handleUsageCommand(body, getCommandArgs(trigger, USAGE_COMMAND), opts.usageLedger);
+	}
 
-	// Strip leading command prefix characters ("?" or "/") for matching.
-	if (lower.startsWith("?") || lower.startsWith("/")) {
-		return lower.slice(1).trimStart();
+	if (matchesCommand(trigger, LIMITS_COMMAND)) {
+		return handleLimitsCommand(body);
 	}
 
-	return lower;
+	return undefined;
 }
 
-function isMetricsTrigger(trigger: string): boolean {
-	return (
-		trigger === METRICS_COMMAND ||
-		trigger.startsWith(`${METRICS_COMMAND} `) ||
-		trigger === "codexmetrics" ||
-		trigger.startsWith("codexmetrics ")
-	);
-}
+function handleMetricsCommand(body: RequestBody, sessionManager?: SessionManager): Response {
+	const cacheReport = getCachePerformanceReport();
+	const promptCache = sessionManager?.getMetrics?.() ?? createEmptySessionMetrics();
+	const warmStatus = getCacheWarmSnapshot();
+	const modelFallback = getModelFallbackSnapshot();
+	const requestQueue = getConcurrencySnapshot();
+	const message = formatMetricsDisplay(cacheReport, promptCache, warmStatus, modelFallback, requestQueue);
+
+	const metadata: MetricsMetadata = {
+		command: METRICS_COMMAND,
+		cacheReport,
+		promptCache,
+		cacheWarmStatus: warmStatus,
+		modelFallback,
+		requestQueue,
+	};
 
-function isInspectTrigger(trigger: string): boolean {
-	return (
-		trigger === INSPECT_COMMAND ||
-		trigger.startsWith(`${INSPECT_COMMAND} `) ||
-		trigger === "codexinspect" ||
-		trigger.startsWith("codexinspect ")
-	);
+	return createStaticResponse(body.model, message, metadata);
 }
 
-function createStaticResponse(model: string | undefined, text: string, metadata: CommandMetadata): Response {
-	const outputTokens = estimateTokenCount(text);
-	const commandName = metadata.command;
-	const responseId = `resp_cmd_${randomUUID()}`;
-	const messageId = `msg_cmd_${randomUUID()}`;
-	const created = Math.floor(Date.now() / 1000);
-	const resolvedModel = model || "gpt-5";
-
-	const assistantMessage = buildAssistantMessage(commandName, messageId, text);
-	const responsePayload = buildResponsePayload(
-		resolvedModel,
-		outputTokens,
-		assistantMessage,
-		metadata,
-		responseId,
-		created,
-	);
-	const events = buildSseEvents(
-		responseId,
-		resolvedModel,
-		created,
-		messageId,
-		text,
-		assistantMessage,
-		responsePayload,
-	);
+function handleInspectCommand(body: RequestBody, contextTrim?: ContextTrim): Response {
+	const bodyAny = body as Record<string, unknown>;
+	const promptCacheKey =
+		(bodyAny.prompt_cache_key as string | undefined) || (bodyAny.promptCacheKey as string | undefined);
+	const tools = Array.isArray(bodyAny.tools) ? (bodyAny.tools as unknown[]) : [];
+	const hasTools = tools.length > 0;
+	const reasoning = bodyAny.reasoning as { effort?: string; summary?: string } | undefined;
+	const hasReasoning = !!reasoning && typeof reasoning === "object";
+	const textConfig = bodyAny.text as { verbosity?: string } | undefined;
+	const includeRaw = bodyAny.include as unknown;
+
+	const include = Array.isArray(includeRaw)
+		? (includeRaw as unknown[]).filter((v): v is string => typeof v === "string")
+		: undefined;
+
+	const metadata: InspectMetadata = {
+		command: INSPECT_COMMAND,
+		model: body.model,
+		promptCacheKey,
+		hasTools,
+		toolCount: tools.length,
+		hasReasoning,
+		reasoningEffort: hasReasoning ? reasoning?.effort : undefined,
+		reasoningSummary: hasReasoning ? reasoning?.summary : undefined,
+		textVerbosity: textConfig?.verbosity,
+		include,
+		contextTrim,
+		attachments: listAttachments(body.input),
+	};
 
-	const stream = createSsePayload(events);
-	return new Response(stream, {
-		status: 200,
-		headers: {
-			"content-type": "text/event-stream; charset=utf-8",
-			"cache-control": "no-cache",
-			connection: "keep-alive",
-		},
-	});
+	const message = formatInspectDisplay(metadata, body);
+	return createStaticResponse(body.model, message, metadata);
 }
 
-function buildAssistantMessage(commandName: string, messageId: string, text: string) {
-	return {
-		id: messageId,
-		type: "message",
-		role: "assistant",
-		content: [
-			{
-				type: "output_text",
-				text,
-			},
-		],
-		metadata: {
-			source: commandName,
-		},
-	};
+function normalizeCommandTrigger(text: string): string {
+	let trimmed = text.trim();
+
+	// Strip leading command prefix characters ("?" or "/") for matching.
+	if (trimmed.startsWith("?") || trimmed.startsWith("/")) {
+		trimmed = trimmed.slice(1).trimStart();
+	}
+
+	// Only the command name is case-insensitive; arguments such as account IDs keep their case
+	const nameEnd = trimmed.search(/\s/);
+	if (nameEnd === -1) return trimmed.toLowerCase();
+	return `${trimmed.slice(0, nameEnd).toLowerCase()}${trimmed.slice(nameEnd)}`;
 }
 
-function buildResponsePayload(
-	resolvedModel: string,
-	outputTokens: number,
-	assistantMessage: { id: string },
-	metadata: CommandMetadata,
-	responseId: string,
-	created: number,
-) {
-	return {
-		id: responseId,
-		object: "response",
-		created,
-		model: resolvedModel,
-		status: "completed",
-		usage: {
-			input_tokens: 0,
-			output_tokens: outputTokens,
-			reasoning_tokens: 0,
-			total_tokens: outputTokens,
-		},
-		output: [assistantMessage],
-		metadata,
-	};
+function matchesCommand(trigger: string, command: string): boolean {
+	const compact = command.replace(/-/g, "");
+	return (
+		trigger === command ||
+		trigger.startsWith(`${command} `) ||
+		trigger === compact ||
+		trigger.startsWith(`${compact} `)
+	);
 }
 
-function buildSseEvents(
-	responseId: string,
-	resolvedModel: string,
-	created: number,
-	messageId: string,
-	text: string,
-	assistantMessage: { id: string },
-	responsePayload: Record<string, unknown>,
-): Array<Record<string, unknown>> {
-	return [
-		{
-			id: responseId,
-			type: "response.created",
-			response: {
-				id: responseId,
-				object: "response",
-				created,
-				model: resolvedModel,
-				status: "in_progress",
-			},
-		},
-		{
-			id: responseId,
-			type: "response.output_text.delta",
-			response_id: responseId,
-			output_index: 0,
-			item_id: messageId,
-			delta: text,
-		},
-		{
-			id: responseId,
-			type: "response.output_item.added",
-			response_id: responseId,
-			output_index: 0,
-			item: assistantMessage,
-		},
-		{
-			id: responseId,
-			type: "response.output_item.done",
-			response_id: responseId,
-			output_index: 0,
-			item: assistantMessage,
-		},
-		{
-			id: responseId,
-			type: "response.completed",
-			response: responsePayload,
-		},
-	];
+function getCommandArgs(trigger: string, command: string): string[] {
+	const compact = command.replace(/-/g, "");
+	const rest = trigger.startsWith(command) ? trigger.slice(command.length) : trigger.slice(compact.length);
+	return rest.split(/\s+/).filter(Boolean);
 }
 
-function createSsePayload(events: Array<Record<string, unknown>>): string {
-	const chunks = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("");
-	const doneLine = `data: [DONE]\n\n`;
-	return chunks + doneLine;
+function handleAccountsCommand(body: RequestBody, args: string[], accountPool?: AccountPool): Response {
+	const [subcommand, target] = args;
+	const action = subcommand?.toLowerCase();
+	let notice: string | undefined;
+	let removedAccountId: string | undefined;
+
+	if (action === "remove") {
+		if (!target) {
+			notice = "Usage: /codex-accounts remove <account-id>";
+		} else if (accountPool?.remove(target)) {
+			removedAccountId = target;
+			notice = `Removed account ${target} from the pool.`;
+		} else {
+			notice = `No pooled account matches ${target}.`;
+		}
+	} else if (subcommand) {
+		notice = `Unknown subcommand "${subcommand}". Usage: /codex-accounts [remove <account-id>]`;
+	}
+
+	const accounts = accountPool?.list() ?? [];
+	const metadata: AccountsMetadata = {
+		command: ACCOUNTS_COMMAND,
+		action: action === "remove" ? "remove" : "list",
+		removedAccountId,
+		accounts: accounts.map(({ accountId, exhaustedUntil }) => ({ accountId, exhaustedUntil })),
+	};
+	return createStaticResponse(body.model, formatAccountsDisplay(accounts, notice), metadata);
 }
 
 function extractLatestUserText(body: RequestBody): string | null {
@@ -267,11 +237,11 @@ function extractLatestUserText(body: RequestBody): string | null {
 
 	for (let index = body.input.length - 1; index >= 0; index -= 1) {
 		const item = body.input[index];
-		if (!item || item.role !== "user") {
+		if (!item || !isUserMessage(item)) {
 			continue;
 		}
 
-		const content = normalizeContent(item.content);
+		const content = extractTextFromItem(item);
 		if (content) {
 			return content;
 		}
@@ -280,37 +250,12 @@ function extractLatestUserText(body: RequestBody): string | null {
 	return null;
 }
 
-function normalizeContent(content: unknown): string | null {
-	if (!content) {
-		return null;
-	}
-	if (typeof content === "string") {
-		return content;
-	}
-	if (Array.isArray(content)) {
-		const textParts = content
-			.filter(
-				(part) =>
-					part &&
-					typeof part === "object" &&
-					"type" in part &&
-					(part as { type: string }).type === "input_text",
-			)
-			.map((part) => (part as { text?: string }).text ?? "")
-			.filter(Boolean);
-		return textParts.length > 0 ? textParts.join("\n") : null;
-	}
-	return null;
-}
-
-function estimateTokenCount(text: string): number {
-	return Math.max(1, Math.ceil(text.length / 4));
-}
-
 function formatMetricsDisplay(
 	report: ReturnType<typeof getCachePerformanceReport>,
 	promptCache: SessionMetricsSnapshot,
 	warmStatus: CacheWarmSnapshot,
+	modelFallback: ModelFallbackSnapshot,
+	requestQueue: ConcurrencySnapshot,
 ): string {
 	const timestamp = new Date().toISOString();
 	const lines: string[] = [];
@@ -368,6 +313,27 @@ function formatMetricsDisplay(
 	lines.push(`- Codex instructions warm: ${warmStatus.codexInstructions ? "yes" : "no"}`);
 	lines.push(`- OpenCode prompt warm: ${warmStatus.opencodePrompt ? "yes" : "no"}`);
 
+	lines.push("");
+	lines.push("Model Fallback");
+	lines.push(`- Downgrades: ${modelFallback.total.toString()}`);
+	for (const event of modelFallback.recent) {
+		lines.push(`  - ${event.from} -> ${event.to} (${new Date(event.timestamp).toISOString()})`);
+	}
+
+	lines.push("");
+	lines.push("Request Queue");
+	lines.push(`- In flight: ${requestQueue.inFlight.toString()}`);
+	lines.push(
+		`- Queue depth: ${requestQueue.queueDepth.toString()} (max ${requestQueue.maxQueueDepth.toString()})`,
+	);
+	lines.push(
+		`- Queued requests: ${requestQueue.queuedRequests.toString()} ` +
+			`(${requestQueue.queueTimeouts.toString()} timed out)`,
+	);
+	lines.push(
+		`- Wait: ${requestQueue.averageWaitMs.toString()}ms avg, ${requestQueue.maxWaitMs.toString()}ms max`,
+	);
+
 	return lines.join("\n");
 }
 
@@ -410,6 +376,58 @@ function formatInspectDisplay(metadata: InspectMetadata, body: RequestBody): str
 		});
 	}
 
+	lines.push("");
+	lines.push("Attachments");
+	if (metadata.attachments.length === 0) {
+		lines.push("- Attachments: (none)");
+	}
+	for (const attachment of metadata.attachments) {
+		const size =
+			attachment.bytes !== undefined ? `, ${Math.ceil(attachment.bytes / 1024).toString()} KB` : "";
+		const sentAs = attachment.kind === "file-text" ? "file, sent as extracted text" : attachment.kind;
+		lines.push(`- ${attachment.name} (${sentAs}${size})`);
+	}
+	lines.push("");
+	lines.push("Context");
+	const trim = metadata.contextTrim;
+	if (!trim) {
+		lines.push("- Trimmed: no (within budget or no limit configured)");
+	} else {
+		lines.push(`- Budget: ${trim.limit.toString()} tokens`);
+		lines.push(
+			`- Estimated: ${trim.estimatedTokens.toString()} tokens before trim, ${trim.trimmedTokens.toString()} after`,
+		);
+		lines.push(`- Dropped: ${trim.removedTurns.toString()} turn(s), ${trim.removedItems.toString()} item(s)`);
+	}
+
+	return lines.join("\n");
+}
+
+function formatAccountsDisplay(accounts: PooledAccount[], notice?: string): string {
+	const now = Date.now();
+	const lines: string[] = [];
+	lines.push(`Codex Accounts -- ${new Date(now).toISOString()}`);
+	lines.push("");
+	if (notice) {
+		lines.push(notice);
+		lines.push("");
+	}
+
+	if (accounts.length === 0) {
+		lines.push("- No pooled accounts. Run `opencode auth login` to add one.");
+		return lines.join("\n");
+	}
+
+	for (const account of accounts) {
+		const exhausted = account.exhaustedUntil !== undefined && account.exhaustedUntil > now;
+		const status = exhausted
+			? `usage limit reached, resets ${new Date(account.exhaustedUntil as number).toLocaleString()}`
+			: "available";
+		lines.push(`- ${account.accountId} (${status})`);
+	}
+	lines.push("");
+	lines.push("Log in again with `opencode auth login` to add another account.");
+
 	return lines.join("\n");
 }
 
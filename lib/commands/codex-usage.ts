@@ -0,0 +1,157 @@
+import type { UsageLedger, UsageRecord } from "../session/usage-ledger.js";
+import type { RequestBody } from "../types.js";
+import { createStaticResponse } from "./static-response.js";
+
+export const USAGE_COMMAND = "codex-usage";
+
+const USAGE_PERIODS = ["today", "week", "session"] as const;
+type UsagePeriod = (typeof USAGE_PERIODS)[number];
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface UsageTotals {
+	requests: number;
+	inputTokens: number;
+	cachedTokens: number;
+	outputTokens: number;
+	reasoningTokens: number;
+	/** Cached share of input tokens, 0-100 */
+	cacheHitRate: number;
+}
+
+interface UsageMetadata {
+	command: "codex-usage";
+	period: UsagePeriod;
+	since?: string;
+	promptCacheKey?: string;
+	totals: UsageTotals;
+	byModel: Record<string, UsageTotals>;
+	byProject: Record<string, UsageTotals>;
+}
+
+function isUsagePeriod(value: string | undefined): value is UsagePeriod {
+	return (USAGE_PERIODS as readonly string[]).includes(value ?? "");
+}
+
+function startOfToday(now: number): number {
+	const date = new Date(now);
+	date.setHours(0, 0, 0, 0);
+	return date.getTime();
+}
+
+function sumUsage(records: UsageRecord[]): UsageTotals {
+	const totals = records.reduce(
+		(acc, record) => ({
+			requests: acc.requests + 1,
+			inputTokens: acc.inputTokens + record.inputTokens,
+			cachedTokens: acc.cachedTokens + record.cachedTokens,
+			outputTokens: acc.outputTokens + record.outputTokens,
+			reasoningTokens: acc.reasoningTokens + record.reasoningTokens,
+		}),
+		{ requests: 0, inputTokens: 0, cachedTokens: 0, outputTokens: 0, reasoningTokens: 0 },
+	);
+	return {
+		...totals,
+		cacheHitRate: totals.inputTokens > 0 ? (totals.cachedTokens / totals.inputTokens) * 100 : 0,
+	};
+}
+
+function groupUsage(
+	records: UsageRecord[],
+	keyOf: (record: UsageRecord) => string,
+): Record<string, UsageTotals> {
+	const groups = new Map<string, UsageRecord[]>();
+	for (const record of records) {
+		const key = keyOf(record);
+		groups.set(key, [...(groups.get(key) ?? []), record]);
+	}
+	return Object.fromEntries(
+		Array.from(groups.entries())
+			.map(([key, group]) => [key, sumUsage(group)] as const)
+			.sort(([, a], [, b]) => b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens)),
+	);
+}
+
+/**
+ * Answer `/codex-usage [today|week|session]` with token totals from the usage ledger
+ * @param body - Transformed request body (model echo and current prompt_cache_key)
+ * @param args - Command arguments
+ * @param ledger - Usage ledger; missing when the fetcher has none
+ * @param now - Current timestamp
+ * @returns Static command response
+ */
+export async function handleUsageCommand(
+	body: RequestBody,
+	args: string[],
+	ledger?: UsageLedger,
+	now: number = Date.now(),
+): Promise<Response> {
+	const [requested] = args;
+	const period: UsagePeriod = isUsagePeriod(requested) ? requested : "today";
+	const notice =
+		requested && !isUsagePeriod(requested)
+			? `Unknown period "${requested}". Usage: /codex-usage [today|week|session]`
+			: undefined;
+
+	await ledger?.flush();
+	const promptCacheKey = body.prompt_cache_key;
+	const since = period === "today" ? startOfToday(now) : period === "week" ? now - WEEK_MS : undefined;
+	const records = (ledger?.read(since) ?? []).filter(
+		(record) => period !== "session" || (!!promptCacheKey && record.promptCacheKey === promptCacheKey),
+	);
+
+	const metadata: UsageMetadata = {
+		command: USAGE_COMMAND,
+		period,
+		since: since !== undefined ? new Date(since).toISOString() : undefined,
+		promptCacheKey: period === "session" ? promptCacheKey : undefined,
+		totals: sumUsage(records),
+		byModel: groupUsage(records, (record) =>
+			record.effort ? `${record.model} (${record.effort})` : record.model,
+		),
+		byProject: groupUsage(records, (record) => record.project),
+	};
+	return createStaticResponse(body.model, formatUsageDisplay(metadata, now, notice), metadata);
+}
+
+function formatTotals(totals: UsageTotals): string {
+	return (
+		`${totals.requests} requests, ${totals.inputTokens} input (${totals.cachedTokens} cached, ` +
+		`${totals.cacheHitRate.toFixed(1)}% hit), ${totals.outputTokens} output (${totals.reasoningTokens} reasoning)`
+	);
+}
+
+function formatUsageDisplay(metadata: UsageMetadata, now: number, notice?: string): string {
+	const lines: string[] = [];
+	lines.push(`Codex Usage -- ${new Date(now).toISOString()}`);
+	lines.push("");
+	if (notice) {
+		lines.push(notice);
+		lines.push("");
+	}
+
+	const scope =
+		metadata.period === "session"
+			? `session (prompt cache key ${metadata.promptCacheKey ?? "(none)"})`
+			: `${metadata.period} (since ${metadata.since})`;
+	lines.push(`Period: ${scope}`);
+	if (metadata.totals.requests === 0) {
+		lines.push("- No recorded usage.");
+		return lines.join("\n");
+	}
+	lines.push(`- Total: ${formatTotals(metadata.totals)}`);
+
+	lines.push("");
+	lines.push("By model");
+	for (const [model, totals] of Object.entries(metadata.byModel)) {
+		lines.push(`- ${model}: ${formatTotals(totals)}`);
+	}
+
+	lines.push("");
+	lines.push("By project");
+	for (const [project, totals] of Object.entries(metadata.byProject)) {
+		lines.push(`- ${project}: ${formatTotals(totals)}`);
+	}
+
+	return lines.join("\n");
+}
@@ -0,0 +1,102 @@
+import type { AccountPool } from "../auth/account-pool.js";
+import { extractAccountIdentity } from "../auth/auth.js";
+import type { AccountIdentity, RequestBody } from "../types.js";
+import { createStaticResponse } from "./static-response.js";
+
+export const WHOAMI_COMMAND = "codex-whoami";
+
+export interface WhoamiContext {
+	/** ChatGPT account ID requests are currently billed to */
+	accountId?: string;
+	/** Workspace sent in the chatgpt-account-id header, when it differs from accountId */
+	workspaceId?: string;
+	/** Current OAuth access token, used when the account isn't in the pool yet */
+	accessToken?: string;
+	/** Epoch ms when the current access token expires */
+	accessTokenExpiresAt?: number;
+	accountPool?: AccountPool;
+}
+
+interface WhoamiMetadata {
+	command: "codex-whoami";
+	accountId?: string;
+	workspaceId?: string;
+	email?: string;
+	planType?: string;
+	userId?: string;
+	organizations: AccountIdentity["organizations"];
+	accessTokenExpiresAt?: number;
+	idTokenExpiresAt?: number;
+}
+
+/**
+ * Answer `/codex-whoami` with the identity and plan of the account this session bills to
+ * @param body - Transformed request body (for the model echo)
+ * @param context - Active account details
+ * @returns Static command response
+ */
+export function handleWhoamiCommand(body: RequestBody, context: WhoamiContext): Response {
+	const pooled = context.accountId ? context.accountPool?.get(context.accountId) : undefined;
+	const identity =
+		pooled?.identity ??
+		(context.accessToken ? extractAccountIdentity(context.accessToken) : { organizations: [] });
+
+	const metadata: WhoamiMetadata = {
+		command: WHOAMI_COMMAND,
+		accountId: context.accountId,
+		workspaceId: context.workspaceId ?? context.accountId,
+		email: identity.email,
+		planType: identity.planType,
+		userId: identity.userId,
+		organizations: identity.organizations,
+		accessTokenExpiresAt: context.accessTokenExpiresAt ?? pooled?.expires,
+		idTokenExpiresAt: identity.idTokenExpiresAt,
+	};
+
+	return createStaticResponse(body.model, formatWhoamiDisplay(metadata), metadata);
+}
+
+function formatExpiry(expiresAt: number | undefined, now: number): string {
+	if (expiresAt === undefined) return "(unknown)";
+	const minutes = Math.round((expiresAt - now) / 60_000);
+	const relative = minutes >= 0 ? `in ${minutes}m` : `${Math.abs(minutes)}m ago`;
+	return `${new Date(expiresAt).toISOString()} (${relative})`;
+}
+
+function formatWorkspace(metadata: WhoamiMetadata): string {
+	if (!metadata.workspaceId) return "(unknown)";
+	const title = metadata.organizations.find((org) => org.id === metadata.workspaceId)?.title;
+	return title ? `${title} (${metadata.workspaceId})` : metadata.workspaceId;
+}
+
+function formatWhoamiDisplay(metadata: WhoamiMetadata): string {
+	const now = Date.now();
+	const lines: string[] = [];
+	lines.push(`Codex Whoami -- ${new Date(now).toISOString()}`);
+	lines.push("");
+
+	lines.push("Account");
+	lines.push(`- Email: ${metadata.email ?? "(unknown)"}`);
+	lines.push(`- Plan: ${metadata.planType ?? "(unknown)"}`);
+	lines.push(`- ChatGPT account ID: ${metadata.accountId ?? "(unknown)"}`);
+	lines.push(`- Workspace: ${formatWorkspace(metadata)}`);
+	lines.push(`- User ID: ${metadata.userId ?? "(unknown)"}`);
+
+	lines.push("");
+	lines.push("Tokens");
+	lines.push(`- Access token expires: ${formatExpiry(metadata.accessTokenExpiresAt, now)}`);
+	lines.push(`- ID token expires: ${formatExpiry(metadata.idTokenExpiresAt, now)}`);
+
+	lines.push("");
+	lines.push("Organizations");
+	if (metadata.organizations.length === 0) {
+		lines.push("- (none reported; log in again to capture id_token claims)");
+	} else {
+		for (const org of metadata.organizations) {
+			const tags = [org.role, org.isDefault ? "default" : undefined].filter(Boolean).join(", ");
+			lines.push(`- ${org.title ?? "(untitled)"} (${org.id})${tags ? ` [${tags}]` : ""}`);
+		}
+	}
+
+	return lines.join("\n");
+}
@@ -0,0 +1,161 @@
+import { randomUUID } from "node:crypto";
+
+/**
+ * Minimal metadata attached to every command response payload
+ */
+export interface StaticCommandMetadata {
+	command: string;
+}
+
+/**
+ * Build a synthetic Codex SSE response for a locally handled command
+ * Mirrors the event sequence of a real Responses stream so opencode renders it like model output.
+ * @param model - Model requested by the host (echoed back in the payload)
+ * @param text - Assistant text to display
+ * @param metadata - Command metadata attached to the final response payload
+ * @returns SSE Response containing a completed assistant message
+ */
+export function createStaticResponse(
+	model: string | undefined,
+	text: string,
+	metadata: StaticCommandMetadata,
+): Response {
+	const outputTokens = estimateTokenCount(text);
+	const commandName = metadata.command;
+	const responseId = `resp_cmd_${randomUUID()}`;
+	const messageId = `msg_cmd_${randomUUID()}`;
+	const created = Math.floor(Date.now() / 1000);
+	const resolvedModel = model || "gpt-5";
+
+	const assistantMessage = buildAssistantMessage(commandName, messageId, text);
+	const responsePayload = buildResponsePayload(
+		resolvedModel,
+		outputTokens,
+		assistantMessage,
+		metadata,
+		responseId,
+		created,
+	);
+	const events = buildSseEvents(
+		responseId,
+		resolvedModel,
+		created,
+		messageId,
+		text,
+		assistantMessage,
+		responsePayload,
+	);
+
+	const stream = createSsePayload(events);
+	return new Response(stream, {
+		status: 200,
+		headers: {
+			"content-type": "text/event-stream; charset=utf-8",
+			"cache-control": "no-cache",
+			connection: "keep-alive",
+		},
+	});
+}
+
+function buildAssistantMessage(commandName: string, messageId: string, text: string) {
+	return {
+		id: messageId,
+		type: "message",
+		role: "assistant",
+		content: [
+			{
+				type: "output_text",
+				text,
+			},
+		],
+		metadata: {
+			source: commandName,
+		},
+	};
+}
+
+function buildResponsePayload(
+	resolvedModel: string,
+	outputTokens: number,
+	assistantMessage: { id: string },
+	metadata: StaticCommandMetadata,
+	responseId: string,
+	created: number,
+) {
+	return {
+		id: responseId,
+		object: "response",
+		created,
+		model: resolvedModel,
+		status: "completed",
+		usage: {
+			input_tokens: 0,
+			output_tokens: outputTokens,
+			reasoning_tokens: 0,
+			total_tokens: outputTokens,
+		},
+		output: [assistantMessage],
+		metadata,
+	};
+}
+
+function buildSseEvents(
+	responseId: string,
+	resolvedModel: string,
+	created: number,
+	messageId: string,
+	text: string,
+	assistantMessage: { id: string },
+	responsePayload: Record<string, unknown>,
+): Array<Record<string, unknown>> {
+	return [
+		{
+			id: responseId,
+			type: "response.created",
+			response: {
+				id: responseId,
+				object: "response",
+				created,
+				model: resolvedModel,
+				status: "in_progress",
+			},
+		},
+		{
+			id: responseId,
+			type: "response.output_text.delta",
+			response_id: responseId,
+			output_index: 0,
+			item_id: messageId,
+			delta: text,
+		},
+		{
+			id: responseId,
+			type: "response.output_item.added",
+			response_id: responseId,
+			output_index: 0,
+			item: assistantMessage,
+		},
+		{
+			id: responseId,
+			type: "response.output_item.done",
+			response_id: responseId,
+			output_index: 0,
+			item: assistantMessage,
+		},
+		{
+			id: responseId,
+			type: "response.completed",
+			response: responsePayload,
+		},
+	];
+}
+
+function createSsePayload(events: Array<Record<string, unknown>>): string {
+	const chunks = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("");
+	const doneLine = `data: [DONE]\n\n`;
+	return chunks + doneLine;
+}
+
+function estimateTokenCount(text: string): number {
+	return Math.max(1, Math.ceil(text.length / 4));
+}
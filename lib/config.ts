@@ -1,3 +1,4 @@
+import { CODEX_BASE_URL } from "./constants.js";
 import { logWarn } from "./logger.js";
 import type { PluginConfig } from "./types.js";
 import { getOpenCodePath, safeReadFile } from "./utils/file-system-utils.js";
@@ -89,3 +90,15 @@ export function getCodexMode(pluginConfig: PluginConfig): boolean {
 	// Use config setting (defaults to true)
 	return pluginConfig.codexMode ?? true;
 }
+
+/**
+ * Get the effective ChatGPT backend base URL
+ * Priority: environment variable > config file > default (https://chatgpt.com/backend-api)
+ *
+ * @param pluginConfig - Plugin configuration from file
+ * @returns Base URL without a trailing slash
+ */
+export function getCodexBaseUrl(pluginConfig: PluginConfig): string {
+	const override = process.env.CODEX_BASE_URL || pluginConfig.codexBaseUrl;
+	return (override ?? CODEX_BASE_URL).replace(/\/+$/, "");
+}
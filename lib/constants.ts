@@ -9,6 +9,9 @@ export const PLUGIN_NAME = "openhax/codex";
 /** Base URL for ChatGPT backend API */
 export const CODEX_BASE_URL = "https://chatgpt.com/backend-api";
 
+/** Base URL for the OpenAI Platform API (API-key mode) */
+export const PLATFORM_BASE_URL = "https://api.openai.com/v1";
+
 /** Dummy API key used for OpenAI SDK (actual auth via OAuth) */
 export const DUMMY_API_KEY = "chatgpt-oauth";
 
@@ -49,7 +52,15 @@ export const JWT_CLAIM_PATH = "https://api.openai.com/auth" as const;
 export const ERROR_MESSAGES = {
 	NO_ACCOUNT_ID: "Failed to extract accountId from token",
 	TOKEN_REFRESH_FAILED: "Failed to refresh token, authentication required",
+	REFRESH_TOKEN_INVALID:
+		"ChatGPT session expired or was revoked. Run `opencode auth login` and choose OpenAI to sign in again",
 	REQUEST_PARSE_ERROR: "Error parsing request",
+	MISSING_AUTH_CODE:
+		"No authorization code found in the pasted input. Restart `opencode auth login` and paste the full redirect URL",
+	STATE_MISMATCH:
+		"OAuth state mismatch: the pasted URL is from another login attempt. Restart `opencode auth login` and paste the URL from that attempt",
+	CODE_EXCHANGE_FAILED:
+		"The authorization code was rejected (it expires after a few minutes and works once). Restart `opencode auth login`",
 } as const;
 
 /** Log stages for request logging */
@@ -72,6 +83,10 @@ export const AUTH_LABELS = {
 	OAUTH: "ChatGPT Plus/Pro (Codex Subscription)",
 	API_KEY: "Manually enter API Key",
 	INSTRUCTIONS: "A browser window should open. Complete login to finish.",
+	OAUTH_MANUAL: "ChatGPT Plus/Pro (Headless / paste code)",
+	CODEX_CLI_IMPORT: "ChatGPT Plus/Pro (Import Codex CLI login)",
+	INSTRUCTIONS_MANUAL:
+		"Open the URL in any browser and log in. When the browser lands on the localhost page (it may fail to load), paste the full URL from the address bar here.",
 } as const;
 
 /** Session and cache management constants */
@@ -90,14 +105,86 @@ export const CONVERSATION_CONFIG = {
 	MAX_ENTRIES: 1000,
 } as const;
 
+/** OAuth token refresh defaults */
+export const TOKEN_REFRESH_CONFIG = {
+	SKEW_MS: 5 * 60 * 1000,
+	MAX_RETRIES: 2,
+	BACKOFF_MS: 500,
+} as const;
+
+/** Retry policy defaults for transient Codex backend failures */
+export const RETRY_CONFIG = {
+	MAX_ATTEMPTS: 3,
+	BASE_DELAY_MS: 500,
+	MAX_DELAY_MS: 30_000,
+	RETRYABLE_STATUSES: [429, 500, 502, 503, 504],
+} as const;
+
+/** Per-account concurrency limit defaults (0 disables the limit) */
+export const CONCURRENCY_CONFIG = {
+	MAX_IN_FLIGHT: 4,
+	MAX_QUEUE_WAIT_MS: 60_000,
+} as const;
+
+/** Upstream timeout defaults (0 disables a timeout) */
+export const TIMEOUT_CONFIG = {
+	CONNECT_MS: 30_000,
+	FIRST_BYTE_MS: 120_000,
+	IDLE_MS: 120_000,
+} as const;
+
+/** Context guard estimation and trimming settings */
+export const CONTEXT_GUARD_CONFIG = {
+	/** Rough characters per token for serialized request JSON */
+	CHARS_PER_TOKEN: 4,
+	/** Fraction of the budget to trim down to, leaving headroom before the next trim */
+	TRIM_TARGET_RATIO: 0.8,
+	/** Flat estimate per image part; base64 length says little about its token cost */
+	IMAGE_TOKENS: 1_000,
+	/** Per PDF page: the backend reads both the extracted text and an image of every page */
+	PDF_PAGE_TOKENS: 1_500,
+	/** Flat allowance for a file sent by ID or URL, whose size is unknown */
+	FILE_TOKENS: 10_000,
+} as const;
+
+/** Default cap on tool output characters kept in request history */
+export const MAX_TOOL_OUTPUT_CHARS = 100_000;
+
+/** Inline image limits for user attachments */
+export const IMAGE_INPUT_CONFIG = {
+	MAX_BYTES: 20 * 1024 * 1024,
+	FORMATS: ["image/png", "image/jpeg", "image/gif", "image/webp"],
+} as const;
+
+/** PDF and text file attachment limits */
+export const FILE_INPUT_CONFIG = {
+	MAX_BYTES: 10 * 1024 * 1024,
+	MAX_TEXT_CHARS: 100_000,
+} as const;
+
+/** Usage percentages at which a rate-limit window raises a warning toast */
+export const RATE_LIMIT_WARN_THRESHOLDS = [80, 95] as const;
+
+/** Cross-process token refresh lock defaults */
+export const REFRESH_LOCK_CONFIG = {
+	STALE_MS: 30 * 1000,
+	TIMEOUT_MS: 20 * 1000,
+	POLL_MS: 100,
+	UNREADABLE_GRACE_MS: 1000,
+} as const;
+
+/** Multi-account pool constants */
+export const ACCOUNT_POOL_CONFIG = {
+	/** Cooldown applied to an exhausted account when the backend omits resets_at (1 hour) */
+	DEFAULT_COOLDOWN_MS: 60 * 60 * 1000,
+} as const;
+
 /** Cache warming and performance constants */
 export const PERFORMANCE_CONFIG = {
 	/** Maximum number of recent sessions to return in metrics */
 	MAX_RECENT_SESSIONS: 5,
 	/** OAuth server port */
 	OAUTH_PORT: 1455,
-	/** OAuth server poll timeout in iterations */
-	OAUTH_POLL_TIMEOUT: 600,
-	/** OAuth server poll interval in milliseconds */
-	OAUTH_POLL_INTERVAL: 100,
+	/** How long the OAuth callback server waits for the browser redirect (60 seconds) */
+	OAUTH_CALLBACK_TIMEOUT_MS: 60 * 1000,
 } as const;
@@ -229,7 +229,7 @@ function emit(level: LogLevel, message: string, extra?: Record<string, unknown>)
  * @param message - The primary text to show in the notification body.
  * @param extra - Optional metadata to include with the notification payload.
  */
-function notifyToast(level: LogLevel, message: string, _extra?: Record<string, unknown>): void {
+export function notifyToast(level: LogLevel, message: string, _extra?: Record<string, unknown>): void {
 	if (!loggerClient?.tui?.showToast) return;
 
 	const variant = level === "error" ? "error" : "warning";
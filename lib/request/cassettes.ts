@@ -0,0 +1,199 @@
+/**
+ * Record and replay Codex traffic
+ *
+ * In record mode every transformed request body is saved with the raw upstream response (status,
+ * headers and SSE text) under a hash of the request. Replay mode serves those cassettes instead of
+ * calling the network, so a conversation can be re-run against a changed transformer. A request
+ * without a cassette fails loudly rather than silently going upstream.
+ */
+
+import { createHash } from "node:crypto";
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { LOG_STAGES } from "../constants.js";
+import { logError, logRequest, logWarn, notifyToast } from "../logger.js";
+import type { CassetteConfig, RequestBody } from "../types.js";
+import { ensureDirectory, getOpenCodePath, safeReadFile } from "../utils/file-system-utils.js";
+
+const CASSETTE_DIR = getOpenCodePath("openhax-codex-cassettes");
+
+/** Headers that describe the wire encoding, not the decoded body stored in the cassette */
+const DROPPED_HEADERS = new Set(["content-encoding", "content-length", "transfer-encoding"]);
+
+export interface Cassette {
+	key: string;
+	recordedAt: string;
+	/** Same fields as the after-transform log stage */
+	request: { url: string; body?: RequestBody };
+	/** Same fields as the response log stage, plus the raw body text */
+	response: { status: number; statusText: string; headers: Record<string, string>; body: string };
+}
+
+function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+	if (value && typeof value === "object") {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.filter(([, entry]) => entry !== undefined)
+			.sort(([a], [b]) => a.localeCompare(b));
+		return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+	}
+	return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Hash a transformed request into its cassette key
+ * Only the URL path is used, so cassettes recorded against one base URL replay against another.
+ * @param url - Upstream URL
+ * @param body - Transformed request body
+ * @returns Hex key
+ */
+export function computeCassetteKey(url: string, body: RequestBody | undefined): string {
+	let path = url;
+	try {
+		path = new URL(url).pathname;
+	} catch {
+		// Relative URLs are hashed as given
+	}
+	return createHash("sha256")
+		.update(`${path}\n${stableStringify(body ?? null)}`)
+		.digest("hex")
+		.slice(0, 32);
+}
+
+function createMissResponse(key: string, filePath: string): Response {
+	const message = `No cassette for this request (key ${key}); expected ${filePath}. Record it first with cassettes.mode "record".`;
+	return new Response(JSON.stringify({ error: { code: "cassette_miss", message } }), {
+		status: 404,
+		statusText: "Cassette Not Found",
+		headers: { "content-type": "application/json; charset=utf-8" },
+	});
+}
+
+export class CassetteStore {
+	public readonly mode: CassetteConfig["mode"];
+	private readonly dir: string;
+
+	constructor(config: CassetteConfig) {
+		this.mode = config.mode;
+		this.dir = config.dir ?? CASSETTE_DIR;
+	}
+
+	/**
+	 * @param key - Cassette key
+	 * @returns Cassette file path
+	 */
+	public pathFor(key: string): string {
+		return join(this.dir, `${key}.json`);
+	}
+
+	/**
+	 * Serve a recorded response
+	 * @param url - Upstream URL
+	 * @param body - Transformed request body
+	 * @returns Recorded response, or a 404 `cassette_miss` error when nothing matches
+	 */
+	public replay(url: string, body: RequestBody | undefined): Response {
+		const key = computeCassetteKey(url, body);
+		const filePath = this.pathFor(key);
+		const raw = safeReadFile(filePath);
+		let cassette: Cassette | undefined;
+		try {
+			cassette = raw ? (JSON.parse(raw) as Cassette) : undefined;
+		} catch (error) {
+			logWarn("Failed to parse Codex cassette", { filePath, error: (error as Error).message });
+		}
+		if (!cassette?.response) {
+			logError("Codex replay has no cassette for this request", { key, filePath, model: body?.model });
+			notifyToast("error", `Replay: no cassette for request ${key}`);
+			return createMissResponse(key, filePath);
+		}
+
+		const { status, statusText, headers } = cassette.response;
+		logRequest(LOG_STAGES.RESPONSE, { status, ok: status < 400, statusText, headers, cassette: filePath });
+		return new Response(cassette.response.body, { status, statusText, headers });
+	}
+
+	/**
+	 * Save a response once its body has been read to the end, passing the body through to the caller unchanged
+	 * @param url - Upstream URL
+	 * @param body - Transformed request body
+	 * @param response - Upstream response
+	 * @returns Response to hand on in place of the original
+	 */
+	public record(url: string, body: RequestBody | undefined, response: Response): Response {
+		const key = computeCassetteKey(url, body);
+		const headers = Object.fromEntries(
+			Array.from(response.headers.entries()).filter(([name]) => !DROPPED_HEADERS.has(name)),
+		);
+		if (!response.body) {
+			void this.write({ key, url, body, response, headers, text: "" });
+			return response;
+		}
+
+		// A pass-through copy, unlike a tee, lets a client cancel reach upstream (nothing is saved then)
+		const textDecoder = new TextDecoder();
+		let text = "";
+		const copy = new TransformStream<Uint8Array, Uint8Array>({
+			transform(chunk, controller) {
+				controller.enqueue(chunk);
+				text += textDecoder.decode(chunk, { stream: true });
+			},
+			flush: () => {
+				text += textDecoder.decode();
+				void this.write({ key, url, body, response, headers, text });
+			},
+		});
+		return new Response(response.body.pipeThrough(copy), {
+			status: response.status,
+			statusText: response.statusText,
+			headers,
+		});
+	}
+
+	private async write(entry: {
+		key: string;
+		url: string;
+		body: RequestBody | undefined;
+		response: Response;
+		headers: Record<string, string>;
+		text: string;
+	}): Promise<void> {
+		const cassette: Cassette = {
+			key: entry.key,
+			recordedAt: new Date().toISOString(),
+			request: { url: entry.url, body: entry.body },
+			response: {
+				status: entry.response.status,
+				statusText: entry.response.statusText,
+				headers: entry.headers,
+				body: entry.text,
+			},
+		};
+		const filePath = this.pathFor(entry.key);
+		try {
+			ensureDirectory(this.dir);
+			await writeFile(filePath, JSON.stringify(cassette, null, 2), "utf8");
+		} catch (error) {
+			logWarn("Failed to write Codex cassette", { filePath, error: (error as Error).message });
+		}
+	}
+}
+
+/**
+ * Put record or replay around a send function
+ * @param store - Cassette store, or undefined when cassettes are off
+ * @param url - Upstream URL
+ * @param send - Sends one transformed request
+ * @returns Send function that records its responses or replays instead of sending
+ */
+export function withCassettes<T extends { body: RequestBody } | undefined>(
+	store: CassetteStore | undefined,
+	url: string,
+	send: (transformation: T) => Promise<Response>,
+): (transformation: T) => Promise<Response> {
+	if (!store) return send;
+	if (store.mode === "replay") {
+		return async (transformation) => store.replay(url, transformation?.body);
+	}
+	return async (transformation) => store.record(url, transformation?.body, await send(transformation));
+}
@@ -1,31 +1,58 @@
 import type { PluginInput } from "@opencode-ai/plugin";
 import type { Auth } from "@opencode-ai/sdk";
+import type { AccountPool, AcquiredAccount } from "../auth/account-pool.js";
+import { syncCodexCliTokens } from "../auth/codex-cli-import.js";
+import { type LogoutOptions, logoutCodex } from "../auth/logout.js";
+import { TokenManager } from "../auth/token-manager.js";
 import { maybeHandleCodexCommand } from "../commands/codex-metrics.js";
 import { LOG_STAGES } from "../constants.js";
-import { logRequest } from "../logger.js";
-import { recordSessionResponseFromHandledResponse } from "../session/response-recorder.js";
+import { logRequest, logWarn, notifyToast } from "../logger.js";
+import {
+	observeSessionResponseStream,
+	recordSessionResponseFromHandledResponse,
+} from "../session/response-recorder.js";
 import type { SessionManager } from "../session/session-manager.js";
-import type { PluginConfig, UserConfig } from "../types.js";
+import { describeUsageRequest, type UsageLedger } from "../session/usage-ledger.js";
+import type { PluginConfig, TokenSuccess, UserConfig } from "../types.js";
+import { CassetteStore, withCassettes } from "./cassettes.js";
+import { ConcurrencyLimiter, isQueueTimeoutResponse, type RequestPriority } from "./concurrency-limiter.js";
 import {
 	createCodexHeaders,
+	createPlatformHeaders,
+	detectUsageLimit,
 	extractRequestUrl,
 	handleErrorResponse,
 	handleSuccessResponse,
-	refreshAndUpdateToken,
 	rewriteUrlForCodex,
-	shouldRefreshToken,
 	transformRequestForCodex,
 } from "./fetch-helpers.js";
+import { getNextFallbackModel, recordModelFallback, withRequestModel } from "./model-fallback.js";
+import { recordRateLimits } from "./rate-limits.js";
+import { createRequestId, fetchWithRetry } from "./retry-policy.js";
+import { fetchWithConnectTimeout, resolveTimeouts, withStreamTimeouts } from "./stream-timeouts.js";
+
+type Transformation = NonNullable<Awaited<ReturnType<typeof transformRequestForCodex>>>;
 
 export type CodexFetcherDeps = {
 	getAuth: () => Promise<Auth>;
 	client: PluginInput["client"];
-	accountId: string;
+	/** ChatGPT account ID (OAuth mode) */
+	accountId?: string;
+	/** OpenAI Platform API key; when set, requests go to the public Responses API without ChatGPT headers */
+	apiKey?: string;
+	/** Workspace sent as `chatgpt-account-id` (defaults to accountId) */
+	workspaceId?: string;
 	userConfig: UserConfig;
 	codexMode: boolean;
 	sessionManager: SessionManager;
 	codexInstructions: string;
 	pluginConfig: PluginConfig;
+	/** Optional pool of additional ChatGPT accounts used for usage-limit failover */
+	accountPool?: AccountPool;
+	/** Token usage ledger behind /codex-usage */
+	usageLedger?: UsageLedger;
+	/** Project directory recorded with each usage entry */
+	projectDirectory?: string;
 };
 
 export function createCodexFetcher(deps: CodexFetcherDeps) {
@@ -33,25 +60,38 @@ export function createCodexFetcher(deps: CodexFetcherDeps) {
 		getAuth,
 		client,
 		accountId,
+		apiKey,
+		workspaceId,
 		userConfig,
 		codexMode,
 		sessionManager,
 		codexInstructions,
 		pluginConfig,
+		accountPool,
+		usageLedger,
+		projectDirectory,
 	} = deps;
 
+	// Shared across requests so parallel calls join a single refresh instead of racing token rotation
+	const tokenManager = new TokenManager({
+		getAuth,
+		client,
+		config: pluginConfig.tokenRefresh,
+		onRefresh: (tokens, previousRefresh) => syncRotatedTokens(accountPool, tokens, previousRefresh),
+	});
+	const limiter = new ConcurrencyLimiter(pluginConfig.concurrency);
+	const cassettes = pluginConfig.cassettes ? new CassetteStore(pluginConfig.cassettes) : undefined;
+
 	return async function codexFetch(input: Request | string | URL, init?: RequestInit): Promise<Response> {
-		let currentAuth = await getAuth();
-		if (shouldRefreshToken(currentAuth)) {
-			const refreshResult = await refreshAndUpdateToken(currentAuth, client);
-			if (!refreshResult.success) {
-				return refreshResult.response;
-			}
-			currentAuth = refreshResult.auth;
+		const authResult = await resolveRequestAuth(deps, tokenManager, cassettes);
+		if (!authResult.success) {
+			return authResult.response;
 		}
+		const currentAuth = authResult.auth;
 
+		// API-key mode talks to the public Responses endpoint, which has no /codex route
 		const originalUrl = extractRequestUrl(input);
-		const url = rewriteUrlForCodex(originalUrl);
+		const url = apiKey ? originalUrl : rewriteUrlForCodex(originalUrl);
 		const transformation = await transformRequestForCodex(
 			init,
 			url,
@@ -63,43 +103,276 @@ export function createCodexFetcher(deps: CodexFetcherDeps) {
 		);
 
 		if (transformation) {
-			const commandResponse = maybeHandleCodexCommand(transformation.body, { sessionManager });
+			const commandResponse = await maybeHandleCodexCommand(transformation.body, {
+				sessionManager,
+				accountPool,
+				usageLedger,
+				contextTrim: transformation.contextTrim,
+				accountId,
+				workspaceId,
+				accessToken: currentAuth.type === "oauth" ? currentAuth.access : undefined,
+				accessTokenExpiresAt: currentAuth.type === "oauth" ? currentAuth.expires : undefined,
+				logout: () => logoutCodex(getLogoutOptions(deps, currentAuth)),
+			});
 			if (commandResponse) {
 				return commandResponse;
 			}
 		}
 
-		const hasTools = transformation?.body.tools !== undefined;
-		const requestInit = transformation?.updatedInit ?? init ?? {};
-		const sessionContext = transformation?.sessionContext;
-		const accessToken = currentAuth.type === "oauth" ? currentAuth.access : "";
-		const headers = createCodexHeaders(requestInit, accountId, accessToken, {
-			model: transformation?.body.model,
-			promptCacheKey: (transformation?.body as Record<string, unknown> | undefined)?.prompt_cache_key as
+		const requestId = createRequestId();
+		const primaryAccount: AcquiredAccount = {
+			accountId: accountId ?? "",
+			access: currentAuth.type === "oauth" ? currentAuth.access : "",
+			workspaceId,
+		};
+		const sendTransformed = withCassettes(cassettes, url, (active: Transformation | undefined) => {
+			const requestInit = active?.updatedInit ?? init ?? {};
+			const promptCacheKey = (active?.body as Record<string, unknown> | undefined)?.prompt_cache_key as
 				| string
-				| undefined,
+				| undefined;
+			// Title and summary requests carry no tools and can wait behind interactive turns
+			const priority = active?.body.tools !== undefined ? "interactive" : "background";
+			const sendRequest = (account: AcquiredAccount) => {
+				const headers = apiKey
+					? createPlatformHeaders(requestInit, apiKey)
+					: createCodexHeaders(requestInit, account.workspaceId ?? account.accountId, account.access, {
+							model: active?.body.model,
+							promptCacheKey,
+						});
+				return sendUpstream(url, { ...requestInit, headers }, requestId, pluginConfig, {
+					accountId: account.accountId,
+					priority,
+					limiter,
+				});
+			};
+			// Pooled ChatGPT accounts can't stand in for a metered API key
+			return apiKey
+				? sendRequest(primaryAccount)
+				: sendWithAccountFailover(sendRequest, primaryAccount, accountPool);
 		});
 
-		const response = await fetch(url, { ...requestInit, headers });
-		logRequest(LOG_STAGES.RESPONSE, {
-			status: response.status,
-			ok: response.ok,
-			statusText: response.statusText,
-			headers: Object.fromEntries(response.headers.entries()),
-		});
+		const { response, transformation: sent } = await sendWithModelFallback(
+			sendTransformed,
+			transformation,
+			pluginConfig.modelFallback,
+			(model) =>
+				transformRequestForCodex(
+					withRequestModel(init, model),
+					url,
+					codexInstructions,
+					userConfig,
+					codexMode,
+					sessionManager,
+					pluginConfig,
+				),
+		);
+		const hasTools = sent?.body.tools !== undefined;
+		const sessionContext = sent?.sessionContext;
 
 		if (!response.ok) {
 			return await handleErrorResponse(response);
 		}
 
-		const handledResponse = await handleSuccessResponse(response, hasTools);
+		const handledResponse = await handleSuccessResponse(
+			withStreamTimeouts(response, resolveTimeouts(pluginConfig.timeouts)),
+			hasTools,
+		);
 
+		const onResponse = usageLedger?.createRecorder(describeUsageRequest(sent?.body, projectDirectory));
 		await recordSessionResponseFromHandledResponse({
 			sessionManager,
 			sessionContext,
 			handledResponse,
+			onResponse,
 		});
 
-		return handledResponse;
+		return observeSessionResponseStream({ sessionManager, sessionContext, handledResponse, onResponse });
 	};
 }
+
+/**
+ * Pick the credentials for a request
+ * @param deps - Fetcher dependencies
+ * @param tokenManager - Shared OAuth token manager
+ * @param cassettes - Cassette store; replays skip the token refresh so they stay offline
+ * @returns Auth result, or the token manager's error response
+ */
+function resolveRequestAuth(
+	deps: CodexFetcherDeps,
+	tokenManager: TokenManager,
+	cassettes: CassetteStore | undefined,
+): ReturnType<TokenManager["getValidAuth"]> {
+	if (deps.apiKey) {
+		return Promise.resolve({ success: true, auth: { type: "api", key: deps.apiKey } });
+	}
+	if (cassettes?.mode === "replay") {
+		return deps.getAuth().then((auth) => ({ success: true, auth }));
+	}
+	return tokenManager.getValidAuth();
+}
+
+/**
+ * Keep the pooled copy of the primary account and an imported Codex CLI login in step with a rotation
+ * @param accountPool - Optional pool of additional accounts
+ * @param tokens - Refreshed primary tokens
+ * @param previousRefresh - Refresh token the rotation consumed
+ */
+function syncRotatedTokens(
+	accountPool: AccountPool | undefined,
+	tokens: TokenSuccess,
+	previousRefresh: string,
+): void {
+	accountPool?.addFromTokens(tokens);
+	syncCodexCliTokens(previousRefresh, tokens);
+}
+
+/**
+ * Collect what /codex-logout needs to sign the current account out
+ * @param deps - Fetcher dependencies
+ * @param currentAuth - Credentials used for this request
+ * @returns Logout options
+ */
+function getLogoutOptions(deps: CodexFetcherDeps, currentAuth: Auth): LogoutOptions {
+	return {
+		client: deps.client,
+		refreshToken: currentAuth.type === "oauth" ? currentAuth.refresh : undefined,
+		revocationUrl: deps.pluginConfig.oauth?.revocationUrl,
+		accountId: deps.accountId,
+		accountPool: deps.accountPool,
+		sessionManager: deps.sessionManager,
+	};
+}
+
+interface UpstreamSlot {
+	accountId: string;
+	priority: RequestPriority;
+	limiter: ConcurrencyLimiter;
+}
+
+/**
+ * Fetch from upstream with a connect timeout, retrying transient failures under one correlation ID
+ * @param url - Upstream URL
+ * @param requestInit - Request with final headers
+ * @param requestId - Correlation ID for logs
+ * @param pluginConfig - Retry and timeout tuning
+ * @param slot - Account and priority; every attempt takes its own concurrency slot
+ * @returns Upstream response
+ */
+async function sendUpstream(
+	url: string,
+	requestInit: RequestInit,
+	requestId: string,
+	pluginConfig: PluginConfig,
+	slot: UpstreamSlot,
+): Promise<Response> {
+	const { connectMs } = resolveTimeouts(pluginConfig.timeouts);
+	const response = await fetchWithRetry(
+		() =>
+			slot.limiter.run(
+				slot.accountId,
+				slot.priority,
+				async () => {
+					const upstream = await fetchWithConnectTimeout(url, requestInit, connectMs);
+					logRequest(LOG_STAGES.RESPONSE, {
+						requestId,
+						status: upstream.status,
+						ok: upstream.ok,
+						statusText: upstream.statusText,
+						headers: Object.fromEntries(upstream.headers.entries()),
+					});
+					return upstream;
+				},
+				requestInit.signal,
+			),
+		{
+			config: pluginConfig.retry,
+			requestId,
+			signal: requestInit.signal,
+			// Spent quota won't recover within a backoff window; failover takes it from here.
+			// A queue timeout already waited its full budget.
+			shouldRetry: async (response) =>
+				!isQueueTimeoutResponse(response) && !(await detectUsageLimit(response)),
+		},
+	);
+	// Usage windows belong to the account that answered, which failover may have switched
+	recordRateLimits(slot.accountId, response.headers, pluginConfig.rateLimitWarnings);
+	return response;
+}
+
+/**
+ * Sends a request, re-transforming it for the next model in the fallback chain whenever the
+ * current model hits its usage limit on every available account
+ * @param send - Sends one transformed request (with account failover)
+ * @param transformation - Request transformed for the requested model
+ * @param chain - Configured fallback chain
+ * @param retransform - Transforms the original request for another model
+ * @returns Final upstream response and the transformation that produced it
+ */
+async function sendWithModelFallback(
+	send: (transformation: Transformation | undefined) => Promise<Response>,
+	transformation: Transformation | undefined,
+	chain: string[] | undefined,
+	retransform: (model: string) => Promise<Transformation | undefined>,
+): Promise<{ response: Response; transformation: Transformation | undefined }> {
+	let active = transformation;
+	let response = await send(active);
+	const triedModels = active ? [active.body.model] : [];
+	while (!response.ok && active && chain?.length) {
+		if (!(await detectUsageLimit(response))) break;
+		const fallbackModel = getNextFallbackModel(active.body.model, chain, triedModels);
+		const next = fallbackModel ? await retransform(fallbackModel) : undefined;
+		if (!fallbackModel || !next) break;
+
+		const message = `Usage limit reached on ${active.body.model}; continuing with ${next.body.model}`;
+		logWarn(message, { from: active.body.model, to: next.body.model });
+		notifyToast("warn", message);
+		recordModelFallback(active.body.model, next.body.model);
+
+		await response.body?.cancel().catch(() => {});
+		active = next;
+		triedModels.push(next.body.model);
+		response = await send(active);
+	}
+	return { response, transformation: active };
+}
+
+/**
+ * Sends a request, switching to the next pooled account whenever the active one hits its usage limit
+ * @param send - Performs the upstream fetch for the given account
+ * @param primary - Account resolved from the opencode auth store
+ * @param accountPool - Optional pool of additional accounts
+ * @returns Final upstream response (successful, or the last error when no account has quota)
+ */
+async function sendWithAccountFailover(
+	send: (account: AcquiredAccount) => Promise<Response>,
+	primary: AcquiredAccount,
+	accountPool: AccountPool | undefined,
+): Promise<Response> {
+	if (!accountPool) {
+		return send(primary);
+	}
+
+	let active = primary;
+	if (accountPool.isExhausted(primary.accountId)) {
+		active = (await accountPool.acquire([primary.accountId])) ?? primary;
+	}
+
+	const triedAccounts = Array.from(new Set([primary.accountId, active.accountId]));
+	let response = await send(active);
+	while (!response.ok) {
+		const usageLimit = await detectUsageLimit(response);
+		if (!usageLimit) break;
+		accountPool.markExhausted(active.accountId, usageLimit.resetsAt);
+		const next = await accountPool.acquire(triedAccounts);
+		if (!next) break;
+		logWarn("Usage limit reached; retrying request on next pooled account", {
+			exhaustedAccountId: active.accountId,
+			nextAccountId: next.accountId,
+		});
+		await response.body?.cancel().catch(() => {});
+		active = next;
+		triedAccounts.push(next.accountId);
+		response = await send(active);
+	}
+	return response;
+}
@@ -0,0 +1,295 @@
+/**
+ * Per-account concurrency limiter
+ *
+ * opencode sub-agents can start many requests at once; past a handful of parallel streams the
+ * backend answers with bursts of 429s. Requests beyond `maxInFlight` wait in a FIFO queue per
+ * account, with interactive (tool-using) turns served before background title/summary calls.
+ * A slot is held until the response body is fully read or cancelled, so callers that retry
+ * should limit each attempt rather than the whole retry loop and free the slot while backing off.
+ */
+
+import { CONCURRENCY_CONFIG } from "../constants.js";
+import { logDebug, logWarn } from "../logger.js";
+import type { ConcurrencyConfig } from "../types.js";
+
+export type RequestPriority = "interactive" | "background";
+
+export interface ConcurrencySnapshot {
+	/** Requests holding a slot right now */
+	inFlight: number;
+	/** Requests waiting for a slot right now */
+	queueDepth: number;
+	maxQueueDepth: number;
+	/** Requests that had to wait since startup */
+	queuedRequests: number;
+	/** Requests that gave up after maxQueueWaitMs */
+	queueTimeouts: number;
+	averageWaitMs: number;
+	maxWaitMs: number;
+}
+
+type Release = () => void;
+
+interface Waiter {
+	enqueuedAt: number;
+	grant: (release: Release) => void;
+}
+
+interface AccountSlots {
+	inFlight: number;
+	queues: Record<RequestPriority, Waiter[]>;
+}
+
+/** Responses created by createQueueTimeoutResponse, which retries must not repeat */
+const queueTimeoutResponses = new WeakSet<Response>();
+
+const metrics = {
+	inFlight: 0,
+	queueDepth: 0,
+	maxQueueDepth: 0,
+	queuedRequests: 0,
+	queueTimeouts: 0,
+	dequeued: 0,
+	totalWaitMs: 0,
+	maxWaitMs: 0,
+};
+
+/**
+ * Fill in concurrency defaults
+ * @param config - Concurrency settings from the plugin config
+ * @returns Limit (0 means unlimited) and maximum queue wait in milliseconds
+ */
+export function resolveConcurrency(config: ConcurrencyConfig = {}): Required<ConcurrencyConfig> {
+	return {
+		maxInFlight: Math.max(0, Math.floor(config.maxInFlight ?? CONCURRENCY_CONFIG.MAX_IN_FLIGHT)),
+		maxQueueWaitMs: Math.max(0, config.maxQueueWaitMs ?? CONCURRENCY_CONFIG.MAX_QUEUE_WAIT_MS),
+	};
+}
+
+/**
+ * Build the error response returned when a request waited too long for a slot
+ * @param waitedMs - Time spent in the queue
+ * @returns JSON error response
+ */
+export function createQueueTimeoutResponse(waitedMs: number): Response {
+	const message = `Too many concurrent Codex requests; gave up after waiting ${waitedMs}ms for a free slot`;
+	const response = new Response(JSON.stringify({ error: { code: "queue_timeout", message } }), {
+		status: 503,
+		statusText: "Service Unavailable",
+		headers: { "content-type": "application/json; charset=utf-8" },
+	});
+	queueTimeoutResponses.add(response);
+	return response;
+}
+
+/**
+ * Check whether a response is the limiter's own queue timeout rather than an upstream 503
+ * @param response - Response returned by ConcurrencyLimiter.run
+ * @returns True when the request never reached the backend
+ */
+export function isQueueTimeoutResponse(response: Response): boolean {
+	return queueTimeoutResponses.has(response);
+}
+
+/**
+ * Hold a slot until the response body has been read, cancelled or has failed
+ * @param response - Upstream response
+ * @param release - Frees the slot (safe to call more than once)
+ * @returns Response whose body frees the slot when it ends
+ */
+function releaseWhenDone(response: Response, release: Release): Response {
+	if (!response.body) {
+		release();
+		return response;
+	}
+
+	const reader = response.body.getReader();
+	const body = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			try {
+				const { done, value } = await reader.read();
+				if (done) {
+					release();
+					controller.close();
+					return;
+				}
+				controller.enqueue(value);
+			} catch (error) {
+				release();
+				controller.error(error);
+			}
+		},
+		cancel(reason) {
+			release();
+			return reader.cancel(reason);
+		},
+	});
+
+	return new Response(body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers,
+	});
+}
+
+export class ConcurrencyLimiter {
+	private readonly config: Required<ConcurrencyConfig>;
+	private readonly accounts = new Map<string, AccountSlots>();
+
+	constructor(config: ConcurrencyConfig = {}) {
+		this.config = resolveConcurrency(config);
+	}
+
+	/**
+	 * Send a request once the account has a free slot
+	 * @param accountId - Account the request is billed to ("" for API-key mode)
+	 * @param priority - Interactive turns jump ahead of queued background requests
+	 * @param send - Performs the upstream fetch
+	 * @param signal - Caller abort signal; aborting removes the request from the queue
+	 * @returns Upstream response, or a 503 `queue_timeout` response when no slot frees up in time
+	 */
+	public async run(
+		accountId: string,
+		priority: RequestPriority,
+		send: () => Promise<Response>,
+		signal?: AbortSignal | null,
+	): Promise<Response> {
+		if (!this.config.maxInFlight) return send();
+
+		const release = await this.acquire(accountId, priority, signal ?? undefined);
+		if (!release) return createQueueTimeoutResponse(this.config.maxQueueWaitMs);
+		try {
+			return releaseWhenDone(await send(), release);
+		} catch (error) {
+			release();
+			throw error;
+		}
+	}
+
+	private getSlots(accountId: string): AccountSlots {
+		let slots = this.accounts.get(accountId);
+		if (!slots) {
+			slots = { inFlight: 0, queues: { interactive: [], background: [] } };
+			this.accounts.set(accountId, slots);
+		}
+		return slots;
+	}
+
+	private createRelease(accountId: string): Release {
+		let released = false;
+		return () => {
+			if (released) return;
+			released = true;
+			this.getSlots(accountId).inFlight--;
+			metrics.inFlight--;
+			this.grantNext(accountId);
+		};
+	}
+
+	private grantNext(accountId: string): void {
+		const slots = this.getSlots(accountId);
+		if (slots.inFlight >= this.config.maxInFlight) return;
+		const next = slots.queues.interactive.shift() ?? slots.queues.background.shift();
+		if (!next) {
+			if (slots.inFlight === 0) this.accounts.delete(accountId);
+			return;
+		}
+		metrics.queueDepth--;
+		metrics.dequeued++;
+		const waitedMs = Date.now() - next.enqueuedAt;
+		metrics.totalWaitMs += waitedMs;
+		metrics.maxWaitMs = Math.max(metrics.maxWaitMs, waitedMs);
+		slots.inFlight++;
+		metrics.inFlight++;
+		next.grant(this.createRelease(accountId));
+	}
+
+	private acquire(
+		accountId: string,
+		priority: RequestPriority,
+		signal: AbortSignal | undefined,
+	): Promise<Release | undefined> {
+		signal?.throwIfAborted();
+		const slots = this.getSlots(accountId);
+		const queued = slots.queues.interactive.length + slots.queues.background.length;
+		if (slots.inFlight < this.config.maxInFlight && queued === 0) {
+			slots.inFlight++;
+			metrics.inFlight++;
+			return Promise.resolve(this.createRelease(accountId));
+		}
+
+		return new Promise<Release | undefined>((resolve, reject) => {
+			const queue = slots.queues[priority];
+			const leaveQueue = () => {
+				const index = queue.indexOf(waiter);
+				if (index === -1) return false;
+				queue.splice(index, 1);
+				metrics.queueDepth--;
+				return true;
+			};
+			const onAbort = () => {
+				clearTimeout(timer);
+				if (leaveQueue()) reject(signal?.reason);
+			};
+			const timer = setTimeout(() => {
+				signal?.removeEventListener("abort", onAbort);
+				if (!leaveQueue()) return;
+				metrics.queueTimeouts++;
+				logWarn("Codex request timed out waiting for a concurrency slot", {
+					priority,
+					maxQueueWaitMs: this.config.maxQueueWaitMs,
+				});
+				resolve(undefined);
+			}, this.config.maxQueueWaitMs);
+			const waiter: Waiter = {
+				enqueuedAt: Date.now(),
+				grant: (release) => {
+					clearTimeout(timer);
+					signal?.removeEventListener("abort", onAbort);
+					resolve(release);
+				},
+			};
+
+			queue.push(waiter);
+			signal?.addEventListener("abort", onAbort, { once: true });
+			metrics.queueDepth++;
+			metrics.queuedRequests++;
+			metrics.maxQueueDepth = Math.max(metrics.maxQueueDepth, metrics.queueDepth);
+			logDebug("Queued Codex request behind the concurrency limit", {
+				priority,
+				inFlight: slots.inFlight,
+				queueDepth: queued + 1,
+			});
+		});
+	}
+}
+
+/**
+ * Get queue statistics for /codex-metrics
+ * @returns Current depth and in-flight count plus wait statistics since startup
+ */
+export function getConcurrencySnapshot(): ConcurrencySnapshot {
+	return {
+		inFlight: metrics.inFlight,
+		queueDepth: metrics.queueDepth,
+		maxQueueDepth: metrics.maxQueueDepth,
+		queuedRequests: metrics.queuedRequests,
+		queueTimeouts: metrics.queueTimeouts,
+		averageWaitMs: metrics.dequeued > 0 ? Math.round(metrics.totalWaitMs / metrics.dequeued) : 0,
+		maxWaitMs: metrics.maxWaitMs,
+	};
+}
+
+/**
+ * Reset queue statistics (for testing)
+ */
+export function resetConcurrencyMetrics(): void {
+	metrics.inFlight = 0;
+	metrics.queueDepth = 0;
+	metrics.maxQueueDepth = 0;
+	metrics.queuedRequests = 0;
+	metrics.queueTimeouts = 0;
+	metrics.dequeued = 0;
+	metrics.totalWaitMs = 0;
+	metrics.maxWaitMs = 0;
+}
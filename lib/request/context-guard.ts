@@ -0,0 +1,160 @@
+/**
+ * Context-window guard
+ *
+ * Long sessions eventually outgrow the model's input budget and the backend rejects them. The
+ * guard estimates the request size and, when it is over budget, drops the oldest complete turns
+ * (a user message and everything after it up to the next user message). Once a session has been
+ * trimmed the same turns stay dropped until the request overflows again, so the trimmed prefix
+ * stays stable for prompt caching instead of shifting by one turn on every request.
+ */
+
+import { CONTEXT_GUARD_CONFIG } from "../constants.js";
+import { logWarn } from "../logger.js";
+import type { InputItem, RequestBody } from "../types.js";
+import { isUserMessage } from "../utils/input-item-utils.js";
+import { getCallId } from "../utils/response-items.js";
+import { countPdfPages, isFilePart, readInlineFile } from "./file-inputs.js";
+import { isImagePart } from "./image-inputs.js";
+
+export interface ContextTrim {
+	/** Input token budget for the model */
+	limit: number;
+	/** Estimated request size before trimming */
+	estimatedTokens: number;
+	/** Estimated request size after trimming */
+	trimmedTokens: number;
+	removedTurns: number;
+	removedItems: number;
+}
+
+export interface ContextGuardResult {
+	input: InputItem[];
+	/** Set when the request was over budget */
+	trim?: ContextTrim;
+}
+
+/**
+ * Estimate the token count of a request fragment
+ * @param value - String or JSON-serializable value
+ * @returns Approximate token count
+ */
+export function estimateTokens(value: unknown): number {
+	if (value === undefined || value === null) return 0;
+	const text = typeof value === "string" ? value : (JSON.stringify(value) ?? "");
+	return Math.ceil(text.length / CONTEXT_GUARD_CONFIG.CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate an inline file from its content: PDFs by page count, other files by size
+ * Files sent by ID or URL get a flat allowance.
+ */
+function fileTokens(part: unknown): number {
+	const file = readInlineFile(part);
+	if (!file) return CONTEXT_GUARD_CONFIG.FILE_TOKENS;
+	const pages = file.mediaType === "application/pdf" ? countPdfPages(file.data) : 0;
+	if (pages > 0) return pages * CONTEXT_GUARD_CONFIG.PDF_PAGE_TOKENS;
+	return Math.ceil(file.data.length / CONTEXT_GUARD_CONFIG.CHARS_PER_TOKEN);
+}
+
+function attachmentTokens(part: unknown): number {
+	if (isImagePart(part)) return CONTEXT_GUARD_CONFIG.IMAGE_TOKENS;
+	return isFilePart(part) ? fileTokens(part) : 0;
+}
+
+function estimateItemTokens(item: InputItem): number {
+	if (!Array.isArray(item.content)) return estimateTokens(item);
+	const attachments = item.content.reduce((sum: number, part: unknown) => sum + attachmentTokens(part), 0);
+	if (attachments === 0) return estimateTokens(item);
+	const rest = { ...item, content: item.content.filter((part: unknown) => attachmentTokens(part) === 0) };
+	return estimateTokens(rest) + attachments;
+}
+
+/**
+ * Estimate the prompt size of a transformed request
+ * @param body - Request body after instructions, tools and the bridge message were applied
+ * @returns Approximate tokens for instructions, tools and input
+ */
+export function estimateRequestTokens(body: RequestBody): number {
+	const inputTokens = (body.input ?? []).reduce((sum, item) => sum + estimateItemTokens(item), 0);
+	return estimateTokens(body.instructions) + estimateTokens(body.tools) + inputTokens;
+}
+
+/**
+ * Split input into the leading developer/system items and turns that each start at a user message
+ */
+function splitTurns(input: InputItem[]): { preamble: InputItem[]; turns: InputItem[][] } {
+	const firstUser = input.findIndex(isUserMessage);
+	if (firstUser === -1) return { preamble: input, turns: [] };
+
+	const turns: InputItem[][] = [];
+	for (const item of input.slice(firstUser)) {
+		if (isUserMessage(item) || turns.length === 0) {
+			turns.push([item]);
+		} else {
+			turns[turns.length - 1].push(item);
+		}
+	}
+	return { preamble: input.slice(0, firstUser), turns };
+}
+
+/**
+ * Remove calls and outputs whose partner was dropped with an earlier turn
+ */
+function dropOrphanedCalls(kept: InputItem[], dropped: InputItem[]): InputItem[] {
+	const droppedCallIds = new Set(
+		dropped.map(getCallId).filter((callId): callId is string => callId !== undefined),
+	);
+	if (droppedCallIds.size === 0) return kept;
+	return kept.filter((item) => !droppedCallIds.has(getCallId(item) ?? ""));
+}
+
+/**
+ * Drop the oldest turns when a request exceeds the model's input budget
+ * @param body - Transformed request body
+ * @param limit - Input token budget
+ * @param previousTrimTurns - Turns already dropped earlier in this session
+ * @returns Input to send, plus trim details when the request was over budget
+ */
+export function trimToContextLimit(
+	body: RequestBody,
+	limit: number,
+	previousTrimTurns = 0,
+): ContextGuardResult {
+	const input = body.input ?? [];
+	const estimatedTokens = estimateRequestTokens(body);
+	if (estimatedTokens <= limit) return { input };
+
+	const { preamble, turns } = splitTurns(input);
+	const turnTokens = turns.map((turn) => turn.reduce((sum, item) => sum + estimateItemTokens(item), 0));
+	const target = Math.floor(limit * CONTEXT_GUARD_CONFIG.TRIM_TARGET_RATIO);
+	// The latest turn carries the prompt being answered, so it is never dropped
+	const maxRemovable = Math.max(0, turns.length - 1);
+
+	let removedTurns = Math.min(previousTrimTurns, maxRemovable);
+	let remaining =
+		estimatedTokens - turnTokens.slice(0, removedTurns).reduce((sum, tokens) => sum + tokens, 0);
+	if (remaining > limit) {
+		while (removedTurns < maxRemovable && remaining > target) {
+			remaining -= turnTokens[removedTurns];
+			removedTurns++;
+		}
+	}
+
+	const dropped = turns.slice(0, removedTurns).flat();
+	const kept = dropOrphanedCalls(turns.slice(removedTurns).flat(), dropped);
+	const trimmedInput = [...preamble, ...kept];
+	const trim: ContextTrim = {
+		limit,
+		estimatedTokens,
+		trimmedTokens: estimateRequestTokens({ ...body, input: trimmedInput }),
+		removedTurns,
+		removedItems: input.length - trimmedInput.length,
+	};
+
+	if (removedTurns === 0) {
+		logWarn("Request exceeds the model context budget but has no older turns to drop", trim);
+	} else {
+		logWarn(`Context guard dropped the oldest ${removedTurns} turn(s) to fit the model context budget`, trim);
+	}
+	return { input: trimmedInput, trim };
+}
@@ -3,79 +3,14 @@
  * These functions break down the complex fetch logic into manageable, testable units
  */
 
-import type { Auth, OpencodeClient } from "@opencode-ai/sdk";
-import { refreshAccessToken } from "../auth/auth.js";
-import {
-	ERROR_MESSAGES,
-	HTTP_STATUS,
-	LOG_STAGES,
-	OPENAI_HEADER_VALUES,
-	OPENAI_HEADERS,
-	URL_PATHS,
-} from "../constants.js";
+import { ERROR_MESSAGES, LOG_STAGES, OPENAI_HEADER_VALUES, OPENAI_HEADERS, URL_PATHS } from "../constants.js";
 import { logError, logRequest } from "../logger.js";
 import type { SessionManager } from "../session/session-manager.js";
 import type { PluginConfig, RequestBody, SessionContext, UserConfig } from "../types.js";
+import type { ContextTrim } from "./context-guard.js";
 import { transformRequestBody } from "./request-transformer.js";
 import { convertSseToJson, ensureContentType } from "./response-handler.js";
 
-/**
- * Determines if the current auth token needs to be refreshed
- * @param auth - Current authentication state
- * @returns True if token is expired or invalid
- */
-export function shouldRefreshToken(auth: Auth): boolean {
-	return auth.type !== "oauth" || !auth.access || auth.expires < Date.now();
-}
-
-/**
- * Refreshes the OAuth token and updates stored credentials
- * @param currentAuth - Current auth state
- * @param client - Opencode client for updating stored credentials
- * @returns Updated auth or error response
- */
-export async function refreshAndUpdateToken(
-	currentAuth: Auth,
-	client: OpencodeClient,
-): Promise<{ success: true; auth: Auth } | { success: false; response: Response }> {
-	const refreshToken = currentAuth.type === "oauth" ? currentAuth.refresh : "";
-	const refreshResult = await refreshAccessToken(refreshToken);
-
-	if (refreshResult.type === "failed") {
-		logError(ERROR_MESSAGES.TOKEN_REFRESH_FAILED);
-		return {
-			success: false,
-			response: new Response(JSON.stringify({ error: "Token refresh failed" }), {
-				status: HTTP_STATUS.UNAUTHORIZED,
-			}),
-		};
-	}
-
-	// Update stored credentials
-	await client.auth.set({
-		path: { id: "openai" },
-		body: {
-			type: "oauth",
-			access: refreshResult.access,
-			refresh: refreshResult.refresh,
-			expires: refreshResult.expires,
-		},
-	});
-
-	// Build updated auth snapshot for callers (avoid mutating the parameter)
-	let updatedAuth: Auth = currentAuth;
-	if (currentAuth.type === "oauth") {
-		updatedAuth = {
-			...currentAuth,
-			access: refreshResult.access,
-			refresh: refreshResult.refresh,
-			expires: refreshResult.expires,
-		};
-	}
-
-	return { success: true, auth: updatedAuth };
-}
-
 /**
  * Extracts URL string from various request input types
  * @param input - Request input (string, URL, or Request object)
@@ -130,6 +65,7 @@ export async function transformRequestForCodex(
 			body: RequestBody;
 			updatedInit: RequestInit;
 			sessionContext?: SessionContext;
+			contextTrim?: ContextTrim;
 	  }
 	| undefined
 > {
@@ -161,6 +97,9 @@ export async function transformRequestForCodex(
 			{
 				preserveIds: sessionContext?.preserveIds,
 				appendEnvContext: pluginConfig?.appendEnvContext ?? process.env.CODEX_APPEND_ENV_CONTEXT === "1",
+				maxToolOutputChars: pluginConfig?.maxToolOutputChars,
+				images: pluginConfig?.images,
+				files: pluginConfig?.files,
 			},
 
 			sessionContext,
@@ -190,6 +129,7 @@ export async function transformRequestForCodex(
 			body: transformResult.body,
 			updatedInit,
 			sessionContext: appliedContext,
+			contextTrim: transformResult.contextTrim,
 		};
 	} catch (e) {
 		logError(ERROR_MESSAGES.REQUEST_PARSE_ERROR, {
@@ -231,6 +171,30 @@ export function createCodexHeaders(
 	return headers;
 }
 
+/**
+ * Creates headers for OpenAI Platform Responses API requests (API-key mode)
+ * Drops the ChatGPT backend headers so only the API key identifies the caller.
+ * @param init - Request init options
+ * @param apiKey - OpenAI Platform API key
+ * @returns Headers object for the public Responses endpoint
+ */
+export function createPlatformHeaders(init: RequestInit | undefined, apiKey: string): Headers {
+	const headers = new Headers(init?.headers ?? {});
+	headers.delete("x-api-key");
+	headers.set("Authorization", `Bearer ${apiKey}`);
+	for (const name of [
+		OPENAI_HEADERS.ACCOUNT_ID,
+		OPENAI_HEADERS.BETA,
+		OPENAI_HEADERS.ORIGINATOR,
+		OPENAI_HEADERS.CONVERSATION_ID,
+		OPENAI_HEADERS.SESSION_ID,
+	]) {
+		headers.delete(name);
+	}
+	headers.set("accept", "text/event-stream");
+	return headers;
+}
+
 function safeParseErrorJson(raw: string): any | null {
 	try {
 		return JSON.parse(raw) as any;
@@ -239,12 +203,17 @@ function safeParseErrorJson(raw: string): any | null {
 	}
 }
 
-type RateLimitBuckets = {
+export type RateLimitBuckets = {
 	primary: { used_percent?: number; window_minutes?: number; resets_at?: number };
 	secondary: { used_percent?: number; window_minutes?: number; resets_at?: number };
 };
 
-function parseRateLimits(headers: Headers): RateLimitBuckets | undefined {
+/**
+ * Read the `x-codex-primary-*` and `x-codex-secondary-*` usage headers
+ * @param headers - Response headers from the Codex backend
+ * @returns Both usage windows (reset times in epoch seconds), or undefined when the headers are absent
+ */
+export function parseRateLimits(headers: Headers): RateLimitBuckets | undefined {
 	const primary = {
 		used_percent: toNumber(headers.get("x-codex-primary-used-percent")),
 		window_minutes: toInt(headers.get("x-codex-primary-window-minutes")),
@@ -260,6 +229,51 @@ function parseRateLimits(headers: Headers): RateLimitBuckets | undefined {
 	return hasRateLimits ? { primary, secondary } : undefined;
 }
 
+/**
+ * Usage-limit details extracted from a Codex error response
+ */
+export interface UsageLimitDetails {
+	code: string;
+	/** Epoch ms when the exhausted bucket resets, when the backend reports it */
+	resetsAt?: number;
+}
+
+/**
+ * Detects a `usage_limit_reached` error without consuming the original response body
+ * @param response - Non-OK response from the Codex backend
+ * @returns Usage-limit details, or undefined for any other error
+ */
+export async function detectUsageLimit(response: Response): Promise<UsageLimitDetails | undefined> {
+	if (response.ok) return undefined;
+	const raw = await response
+		.clone()
+		.text()
+		.catch(() => "");
+	const err = safeParseErrorJson(raw)?.error;
+	const code = String(err?.code ?? err?.type ?? "");
+	if (!/usage_limit_reached/i.test(code)) return undefined;
+
+	const resetSeconds =
+		toNumber(err?.resets_at != null ? String(err.resets_at) : null) ??
+		pickExhaustedReset(parseRateLimits(response.headers));
+	return {
+		code,
+		resetsAt: resetSeconds !== undefined ? resetSeconds * 1000 : undefined,
+	};
+}
+
+function pickExhaustedReset(rateLimits: RateLimitBuckets | undefined): number | undefined {
+	if (!rateLimits) return undefined;
+	// Prefer the latest reset among full buckets: a spent weekly window outlasts the 5-hour one
+	const exhaustedResets = [rateLimits.primary, rateLimits.secondary]
+		.filter((bucket) => (bucket.used_percent ?? 0) >= 100 && bucket.resets_at !== undefined)
+		.map((bucket) => bucket.resets_at as number);
+	if (exhaustedResets.length > 0) {
+		return Math.max(...exhaustedResets);
+	}
+	return rateLimits.primary.resets_at ?? rateLimits.secondary.resets_at;
+}
+
 function isUsageLimitError(code: unknown): boolean {
 	return /usage_limit_reached|usage_not_included|rate_limit_exceeded/i.test(String(code ?? ""));
 }
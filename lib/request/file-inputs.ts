@@ -0,0 +1,247 @@
+/**
+ * File attachments
+ *
+ * PDFs and text files attached in opencode arrive as AI SDK `file` parts (or already as Responses
+ * `input_file` parts). They are sent to Codex as `input_file` parts carrying a data URL. A file over
+ * the size limit is replaced by its extracted text behind a notice, since the backend would reject
+ * the upload and the text is usually what the model needs.
+ */
+
+import { inflateSync } from "node:zlib";
+import { FILE_INPUT_CONFIG } from "../constants.js";
+import { logWarn } from "../logger.js";
+import type { FileInputConfig, InputFilePart, InputItem, InputTextPart } from "../types.js";
+import { isMessageFrom } from "../utils/response-items.js";
+import { decodedSize, isImagePart } from "./image-inputs.js";
+
+export interface Attachment {
+	/** "file-text" marks a large file sent as extracted text */
+	kind: "image" | "file" | "file-text";
+	name: string;
+	/** Decoded size of inline data */
+	bytes?: number;
+}
+
+type ContentPart = Record<string, unknown>;
+
+type FileSource =
+	| { fileId: string }
+	| { fileUrl: string; filename: string }
+	| { filename: string; mediaType: string; base64: string };
+
+const DATA_URL_PATTERN = /^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s;
+const TEXT_NOTICE_PATTERN = /^\[Attached file "([^"]*)" is (\d+) KB/;
+
+/**
+ * Check whether a content part carries a non-image file
+ * @param part - Message content part
+ * @returns True for `file` and `input_file` parts
+ */
+export function isFilePart(part: unknown): boolean {
+	if (!part || typeof part !== "object" || isImagePart(part)) return false;
+	const { type } = part as ContentPart;
+	return type === "file" || type === "input_file";
+}
+
+function isTextMediaType(mediaType: string): boolean {
+	return mediaType.startsWith("text/") || /[/+](json|xml|yaml|x-yaml|javascript|typescript)$/.test(mediaType);
+}
+
+function readString(value: unknown): string | undefined {
+	return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+function resolveSource(part: ContentPart): FileSource | undefined {
+	const fileId = readString(part.file_id);
+	if (fileId) return { fileId };
+
+	const filename = readString(part.filename) ?? readString(part.name) ?? "attachment";
+	const raw = readString(part.file_data) ?? readString(part.data) ?? readString(part.url);
+	const fileUrl = readString(part.file_url) ?? (raw && /^https?:\/\//i.test(raw) ? raw : undefined);
+	if (fileUrl) return { fileUrl, filename };
+	if (!raw) return undefined;
+
+	const match = DATA_URL_PATTERN.exec(raw);
+	if (match) return { filename, mediaType: (match[1] ?? "").toLowerCase(), base64: match[2].trim() };
+	const mediaType = readString(part.mediaType) ?? readString(part.mimeType);
+	return mediaType ? { filename, mediaType: mediaType.toLowerCase(), base64: raw } : undefined;
+}
+
+function unescapePdfString(value: string): string {
+	return value.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_match, code: string) => {
+		const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+		if (/^[0-7]+$/.test(code)) return String.fromCharCode(Number.parseInt(code, 8));
+		return escapes[code] ?? code;
+	});
+}
+
+/**
+ * Best-effort text extraction from a PDF: literal strings inside BT/ET blocks of its content streams
+ * @param data - PDF bytes
+ * @returns Text with one line per text block
+ */
+export function extractPdfText(data: Buffer): string {
+	const raw = data.toString("latin1");
+	const lines: string[] = [];
+	for (const match of raw.matchAll(/(?<!end)stream\r?\n([\s\S]*?)\r?\nendstream/g)) {
+		const dict = raw.slice(raw.lastIndexOf(" obj", match.index), match.index);
+		let content = match[1];
+		if (dict.includes("/FlateDecode")) {
+			try {
+				content = inflateSync(Buffer.from(content, "latin1")).toString("latin1");
+			} catch {
+				continue;
+			}
+		} else if (dict.includes("/Filter")) {
+			continue;
+		}
+		for (const block of content.matchAll(/BT([\s\S]*?)ET/g)) {
+			const strings = Array.from(block[1].matchAll(/\(((?:\\[\s\S]|[^\\)])*)\)/g), (s) =>
+				unescapePdfString(s[1]),
+			);
+			const line = strings.join("").trim();
+			if (line) lines.push(line);
+		}
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Count the pages of a PDF
+ * @param data - PDF bytes
+ * @returns Number of page objects (0 when none are found, e.g. in compressed object streams)
+ */
+export function countPdfPages(data: Buffer): number {
+	return data.toString("latin1").match(/\/Type\s*\/Page(?![A-Za-z])/g)?.length ?? 0;
+}
+
+/**
+ * Decode the inline data of an `input_file` part
+ * @param part - Message content part
+ * @returns Media type and bytes, or undefined for file IDs, URLs and other parts
+ */
+export function readInlineFile(part: unknown): { mediaType: string; data: Buffer } | undefined {
+	if (!isFilePart(part)) return undefined;
+	const fileData = readString((part as ContentPart).file_data);
+	const match = fileData ? DATA_URL_PATTERN.exec(fileData) : null;
+	if (!match) return undefined;
+	return { mediaType: (match[1] ?? "").toLowerCase(), data: Buffer.from(match[2].trim(), "base64") };
+}
+
+function extractText(source: Extract<FileSource, { base64: string }>): string {
+	const data = Buffer.from(source.base64, "base64");
+	if (source.mediaType === "application/pdf") return extractPdfText(data);
+	return isTextMediaType(source.mediaType) ? data.toString("utf8") : "";
+}
+
+function createTextFallback(
+	source: Extract<FileSource, { base64: string }>,
+	bytes: number,
+	config: Required<FileInputConfig>,
+): InputTextPart {
+	const header = `[Attached file "${source.filename}" is ${Math.ceil(bytes / 1024).toString()} KB, over the ${Math.floor(config.maxBytes / 1024).toString()} KB attachment limit`;
+	let text = extractText(source);
+	logWarn("Sending extracted text for an attachment over the size limit", {
+		filename: source.filename,
+		bytes,
+		maxBytes: config.maxBytes,
+		extractedChars: text.length,
+	});
+	if (!text.trim()) {
+		return { type: "input_text", text: `${header}, and no text could be extracted from it]` };
+	}
+	if (text.length > config.maxTextChars) {
+		text = `${text.slice(0, config.maxTextChars)}\n\n[... extracted text truncated at ${config.maxTextChars.toString()} characters ...]`;
+	}
+	return { type: "input_text", text: `${header}; its extracted text follows]\n\n${text}` };
+}
+
+/**
+ * Convert one file part to the Responses `input_file` shape
+ * @param part - File content part (see isFilePart)
+ * @param config - File settings from the plugin config
+ * @returns `input_file` part, or an `input_text` part with extracted text or a notice
+ */
+export function normalizeFilePart(
+	part: ContentPart,
+	config: FileInputConfig = {},
+): InputFilePart | InputTextPart {
+	const resolved: Required<FileInputConfig> = {
+		maxBytes: config.maxBytes ?? FILE_INPUT_CONFIG.MAX_BYTES,
+		maxTextChars: config.maxTextChars ?? FILE_INPUT_CONFIG.MAX_TEXT_CHARS,
+	};
+	const source = resolveSource(part);
+	let file: InputFilePart | undefined;
+	let reason = "no file data or URL";
+
+	if (source && "fileId" in source) {
+		file = { type: "input_file", file_id: source.fileId };
+	} else if (source && "fileUrl" in source) {
+		file = { type: "input_file", filename: source.filename, file_url: source.fileUrl };
+	} else if (source && source.mediaType !== "application/pdf" && !isTextMediaType(source.mediaType)) {
+		reason = `unsupported type ${source.mediaType || "(none)"}`;
+	} else if (source) {
+		const bytes = decodedSize(source.base64);
+		if (bytes > resolved.maxBytes) return createTextFallback(source, bytes, resolved);
+		file = {
+			type: "input_file",
+			filename: source.filename,
+			file_data: `data:${source.mediaType};base64,${source.base64}`,
+		};
+	}
+
+	if (file) return file;
+	logWarn("Dropping file attachment the Codex backend cannot accept", { type: part.type, reason });
+	return { type: "input_text", text: `[Attached file omitted: ${reason}]` };
+}
+
+/**
+ * Normalize the file parts of a user message
+ * @param item - Input item
+ * @param config - File settings from the plugin config
+ * @returns Item with `input_file` parts (the same instance when nothing changed)
+ */
+export function normalizeFileParts(item: InputItem, config: FileInputConfig = {}): InputItem {
+	if (!isMessageFrom(item, "user") || !Array.isArray(item.content)) return item;
+	if (!item.content.some(isFilePart)) return item;
+
+	const content = item.content.map((part: unknown) =>
+		isFilePart(part) ? normalizeFilePart(part as ContentPart, config) : part,
+	);
+	return { ...item, content };
+}
+
+function describePart(part: ContentPart): Attachment | undefined {
+	const dataUrl = readString(part.image_url) ?? readString(part.file_data);
+	const match = dataUrl ? DATA_URL_PATTERN.exec(dataUrl) : null;
+	const bytes = match ? decodedSize(match[2].trim()) : undefined;
+
+	if (part.type === "input_image") {
+		const name = match ? "inline image" : (readString(part.image_url) ?? readString(part.file_id) ?? "image");
+		return { kind: "image", name, bytes };
+	}
+	if (part.type === "input_file") {
+		const name =
+			readString(part.filename) ?? readString(part.file_url) ?? readString(part.file_id) ?? "attachment";
+		return { kind: "file", name, bytes };
+	}
+	const notice = part.type === "input_text" ? TEXT_NOTICE_PATTERN.exec(String(part.text ?? "")) : null;
+	return notice ? { kind: "file-text", name: notice[1], bytes: Number(notice[2]) * 1024 } : undefined;
+}
+
+/**
+ * List the images and files attached to user messages, for /codex-inspect
+ * @param input - Transformed request input
+ * @returns Attachments in conversation order
+ */
+export function listAttachments(input: InputItem[] | undefined): Attachment[] {
+	const attachments: Attachment[] = [];
+	for (const item of input ?? []) {
+		if (!isMessageFrom(item, "user") || !Array.isArray(item.content)) continue;
+		for (const part of item.content) {
+			const attachment = part && typeof part === "object" ? describePart(part as ContentPart) : undefined;
+			if (attachment) attachments.push(attachment);
+		}
+	}
+	return attachments;
+}
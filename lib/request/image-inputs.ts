@@ -0,0 +1,190 @@
+/**
+ * Image attachments
+ *
+ * opencode hands screenshots and pasted images over in whichever shape the AI SDK produced:
+ * `image` parts, `file` parts with an image media type, chat-style `image_url` parts or
+ * Responses `input_image` parts. The Codex backend only accepts `input_image` with a URL
+ * string, so user-message image parts are normalized to that shape and validated here.
+ * With `maxDimension` set, larger PNG images are downscaled first. An image still over the size
+ * limit, like any other image that cannot be sent, is replaced by a short text note so the model
+ * knows it was dropped.
+ */
+
+import { createHash } from "node:crypto";
+import { IMAGE_INPUT_CONFIG } from "../constants.js";
+import { logDebug, logWarn } from "../logger.js";
+import type { ImageInputConfig, InputImagePart, InputItem, InputTextPart } from "../types.js";
+import { isMessageFrom } from "../utils/response-items.js";
+import { downscalePng } from "./png-resize.js";
+
+type ContentPart = Record<string, unknown>;
+
+type ImageSource =
+	| { url: string; mediaType?: string; detail?: InputImagePart["detail"] }
+	| { fileId: string };
+
+const IMAGE_PART_TYPES = new Set(["input_image", "image_url", "image"]);
+const DATA_URL_PATTERN = /^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s;
+
+/**
+ * The whole history is filtered on every turn; keep recent results so each image is decoded once
+ * Keyed by a hash so the cache doesn't hold on to the original images.
+ */
+const DOWNSCALE_CACHE_SIZE = 16;
+const downscaled = new Map<string, string>();
+
+/**
+ * Check whether a content part carries an image
+ * @param part - Message content part
+ * @returns True for image parts in any of the supported shapes
+ */
+export function isImagePart(part: unknown): boolean {
+	if (!part || typeof part !== "object") return false;
+	const { type, mediaType, mimeType } = part as ContentPart;
+	if (typeof type !== "string") return false;
+	if (IMAGE_PART_TYPES.has(type)) return true;
+	const media = mediaType ?? mimeType;
+	return type === "file" && typeof media === "string" && media.startsWith("image/");
+}
+
+function readString(value: unknown): string | undefined {
+	if (typeof value === "string" && value.length > 0) return value;
+	if (value instanceof URL) return value.toString();
+	return undefined;
+}
+
+function readDetail(value: unknown): InputImagePart["detail"] {
+	return value === "auto" || value === "low" || value === "high" ? value : undefined;
+}
+
+function resolveSource(part: ContentPart): ImageSource | undefined {
+	if (typeof part.file_id === "string") return { fileId: part.file_id };
+
+	const nested =
+		part.image_url && typeof part.image_url === "object" ? (part.image_url as ContentPart) : undefined;
+	const mediaType = readString(part.mediaType) ?? readString(part.mimeType);
+	const detail = readDetail(part.detail) ?? readDetail(nested?.detail);
+	const raw =
+		readString(part.image_url) ??
+		readString(nested?.url) ??
+		readString(part.image) ??
+		readString(part.url) ??
+		readString(part.data);
+	if (!raw) return undefined;
+
+	// AI SDK parts may carry bare base64 next to a media type
+	const isUrl = raw.startsWith("data:") || /^https?:\/\//i.test(raw);
+	if (!isUrl) {
+		return mediaType ? { url: `data:${mediaType};base64,${raw}`, mediaType, detail } : undefined;
+	}
+	return { url: raw, mediaType, detail };
+}
+
+/**
+ * Size of base64 data once decoded
+ * @param base64 - Base64 payload without the data URL header
+ * @returns Byte count
+ */
+export function decodedSize(base64: string): number {
+	const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+	return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+/**
+ * Downscale an inline PNG so its longest side fits
+ * @param url - Image data URL
+ * @param maxDimension - Longest side allowed, in pixels
+ * @returns Data URL of the smaller image, or the original URL when it fits or isn't a PNG
+ */
+export function downscaleDataUrl(url: string, maxDimension: number): string {
+	const match = DATA_URL_PATTERN.exec(url);
+	if (match?.[1]?.toLowerCase() !== "image/png") return url;
+	const key = createHash("sha256").update(`${maxDimension.toString()}:${url}`).digest("hex");
+	const cached = downscaled.get(key);
+	if (cached) return cached;
+
+	const original = Buffer.from(match[2].trim(), "base64");
+	const smaller = downscalePng(original, maxDimension);
+	const result = smaller ? `data:image/png;base64,${smaller.toString("base64")}` : url;
+	if (smaller) {
+		logDebug("Downscaled image attachment", {
+			maxDimension,
+			bytes: original.length,
+			downscaledBytes: smaller.length,
+		});
+	}
+	if (downscaled.size >= DOWNSCALE_CACHE_SIZE) {
+		downscaled.delete(downscaled.keys().next().value as string);
+	}
+	downscaled.set(key, result);
+	return result;
+}
+
+/**
+ * Validate an inline image
+ * @returns Reason the image is rejected, or undefined when it can be sent
+ */
+function validateDataUrl(url: string, maxBytes: number): string | undefined {
+	const match = DATA_URL_PATTERN.exec(url);
+	if (!match) return "not a base64 data URL";
+	const mediaType = (match[1] ?? "").toLowerCase();
+	if (!(IMAGE_INPUT_CONFIG.FORMATS as readonly string[]).includes(mediaType)) {
+		return `unsupported format ${mediaType || "(none)"}`;
+	}
+	const size = decodedSize(match[2].trim());
+	if (size > maxBytes) {
+		return `${Math.ceil(size / 1024).toString()} KB exceeds the ${Math.floor(maxBytes / 1024).toString()} KB limit`;
+	}
+	return undefined;
+}
+
+/**
+ * Convert one image part to the Responses `input_image` shape
+ * @param part - Image content part (see isImagePart)
+ * @param config - Image settings from the plugin config
+ * @returns `input_image` part, or an `input_text` note when the image cannot be sent
+ */
+export function normalizeImagePart(
+	part: ContentPart,
+	config: ImageInputConfig = {},
+): InputImagePart | InputTextPart {
+	const source = resolveSource(part);
+	let reason: string | undefined;
+	if (!source) {
+		reason = "no image data or URL";
+	} else if ("url" in source && source.url.startsWith("data:")) {
+		if (config.maxDimension && config.maxDimension > 0) {
+			source.url = downscaleDataUrl(source.url, config.maxDimension);
+		}
+		reason = validateDataUrl(source.url, config.maxBytes ?? IMAGE_INPUT_CONFIG.MAX_BYTES);
+	}
+
+	if (!source || reason) {
+		logWarn("Dropping image attachment the Codex backend cannot accept", { type: part.type, reason });
+		return { type: "input_text", text: `[Image omitted: ${reason}]` };
+	}
+
+	const detail = config.detail ?? ("url" in source ? source.detail : readDetail(part.detail));
+	const image: InputImagePart =
+		"url" in source
+			? { type: "input_image", image_url: source.url }
+			: { type: "input_image", file_id: source.fileId };
+	if (detail) image.detail = detail;
+	return image;
+}
+
+/**
+ * Normalize the image parts of a user message
+ * @param item - Input item
+ * @param config - Image settings from the plugin config
+ * @returns Item with `input_image` parts (the same instance when nothing changed)
+ */
+export function normalizeImageParts(item: InputItem, config: ImageInputConfig = {}): InputItem {
+	if (!isMessageFrom(item, "user") || !Array.isArray(item.content)) return item;
+	if (!item.content.some(isImagePart)) return item;
+
+	const content = item.content.map((part: unknown) =>
+		isImagePart(part) ? normalizeImagePart(part as ContentPart, config) : part,
+	);
+	return { ...item, content };
+}
@@ -9,27 +9,87 @@ import {
 import { CODEX_OPENCODE_BRIDGE } from "../prompts/codex-opencode-bridge.js";
 import { TOOL_REMAP_MESSAGE } from "../prompts/codex.js";
 import { getOpenCodeCodexPrompt } from "../prompts/opencode-codex.js";
-import type { InputItem, SessionContext } from "../types.js";
-import { extractTextFromItem } from "../utils/input-item-utils.js";
+import type { FileInputConfig, ImageInputConfig, InputItem, SessionContext } from "../types.js";
+import { extractTextFromItem, isSystemMessage, isUserMessage } from "../utils/input-item-utils.js";
 import { logDebug } from "../logger.js";
+import {
+	isItemReference,
+	isMessageFrom,
+	isToolOutputItem,
+	parseResponseItem,
+	passThroughUnknownItem,
+} from "../utils/response-items.js";
+import { normalizeFileParts } from "./file-inputs.js";
+import { normalizeImageParts } from "./image-inputs.js";
 
 const TOOL_REMAP_MESSAGE_HASH = generateContentHash(TOOL_REMAP_MESSAGE);
 
+function truncationMarker(omitted: number): string {
+	return `\n\n[... ${omitted} characters truncated ...]\n\n`;
+}
+
+/**
+ * Replace an oversized text with its head and tail around a truncation marker
+ * The result depends only on the text and the cap and is never longer than the cap, so an
+ * already truncated output passes through unchanged and history prefixes stay identical.
+ * @param text - Tool output text
+ * @param maxChars - Longest text to keep
+ * @returns Original text, or a head/tail excerpt of at most maxChars characters
+ */
+export function truncateToolOutput(text: string, maxChars: number): string {
+	if (text.length <= maxChars) return text;
+	const keep = Math.max(0, maxChars - truncationMarker(text.length).length);
+	const head = Math.ceil(keep / 2);
+	const tail = keep - head;
+	return `${text.slice(0, head)}${truncationMarker(text.length - keep)}${text.slice(text.length - tail)}`;
+}
+
+function capToolOutput(item: InputItem, maxChars: number): InputItem {
+	if (!isToolOutputItem(item)) return item;
+
+	const { output } = item;
+	if (typeof output === "string") {
+		const capped = truncateToolOutput(output, maxChars);
+		return capped === output ? item : { ...item, output: capped };
+	}
+	if (!Array.isArray(output)) return item;
+
+	let changed = false;
+	const parts = output.map((part: unknown) => {
+		const text = (part as { text?: unknown } | null)?.text;
+		if (typeof text !== "string" || text.length <= maxChars) return part;
+		changed = true;
+		return { ...(part as Record<string, unknown>), text: truncateToolOutput(text, maxChars) };
+	});
+	return changed ? { ...item, output: parts } : item;
+}
+
+/**
+ * Options for filterInput
+ * Capping and image/file normalization only touch tool outputs and user messages that match the
+ * item model; any other item keeps its fields and is passed through after those steps.
+ */
+export interface FilterInputOptions {
+	preserveIds?: boolean;
+	preserveMetadata?: boolean;
+	/** Cap on tool output characters (0 or unset leaves outputs alone) */
+	maxToolOutputChars?: number;
+	/** When set, user-message image parts are normalized to `input_image` */
+	images?: ImageInputConfig;
+	/** When set, user-message PDF and text file parts are normalized to `input_file` */
+	files?: FileInputConfig;
+}
+
 export function filterInput(
 	input: InputItem[] | undefined,
-	options: { preserveIds?: boolean; preserveMetadata?: boolean } = {},
+	options: FilterInputOptions = {},
 ): InputItem[] | undefined {
 	if (!Array.isArray(input)) return input;
 
-	const { preserveIds = false, preserveMetadata = false } = options;
+	const { preserveIds = false, preserveMetadata = false, maxToolOutputChars = 0, images, files } = options;
 
 	return input
-		.filter((item) => {
-			if (item.type === "item_reference") {
-				return false;
-			}
-			return true;
-		})
+		.filter((item) => !isItemReference(item))
 		.map((item) => {
 			let sanitized = item as InputItem;
 
@@ -43,13 +103,32 @@ export function filterInput(
 				sanitized = rest as InputItem;
 			}
 
-			return sanitized;
+			if (maxToolOutputChars > 0) {
+				const capped = capToolOutput(sanitized, maxToolOutputChars);
+				if (capped !== sanitized) {
+					logDebug("Truncated oversized tool output in request history", {
+						type: sanitized.type,
+						callId: sanitized.call_id,
+						maxToolOutputChars,
+					});
+				}
+				sanitized = capped;
+			}
+
+			if (images) {
+				sanitized = normalizeImageParts(sanitized, images);
+			}
+
+			if (files) {
+				sanitized = normalizeFileParts(sanitized, files);
+			}
+
+			return parseResponseItem(sanitized) ? sanitized : passThroughUnknownItem(sanitized);
 		});
 }
 
 export function isOpenCodeSystemPrompt(item: InputItem, cachedPrompt: string | null): boolean {
-	const isSystemRole = item.role === "developer" || item.role === "system";
-	if (!isSystemRole) return false;
+	if (!isSystemMessage(item)) return false;
 
 	const contentText = extractTextFromItem(item);
 	if (!contentText) return false;
@@ -118,7 +197,7 @@ async function filterOpenCodeSystemPromptsInternal(
 	const filteredInput: InputItem[] = [];
 	const envSegments: string[] = [];
 	for (const item of input) {
-		if (item.role === "user") {
+		if (isUserMessage(item)) {
 			filteredInput.push(item);
 			continue;
 		}
@@ -258,7 +337,7 @@ export function addToolRemapMessage(
 	if (!hasTools || !Array.isArray(input)) return input;
 
 	const hasExistingToolRemap = input.some((item) => {
-		if (item?.type !== "message" || item?.role !== "developer") return false;
+		if (!isMessageFrom(item, "developer")) return false;
 		const contentText = extractTextFromItem(item);
 		if (!contentText) return false;
 		return generateContentHash(contentText) === TOOL_REMAP_MESSAGE_HASH;
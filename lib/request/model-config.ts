@@ -52,6 +52,19 @@ export function getModelConfig(
 	return { ...globalOptions, ...modelOptions };
 }
 
+/**
+ * Look up the input token budget declared for a model
+ * @param modelName - Model name as configured in opencode.json
+ * @param userConfig - User configuration
+ * @returns `limit.context - limit.output`, or undefined when the model declares no context limit
+ */
+export function getContextLimit(modelName: string, userConfig: UserConfig): number | undefined {
+	const limit = userConfig.models?.[modelName]?.limit;
+	if (!limit?.context || limit.context <= 0) return undefined;
+	const budget = limit.context - (limit.output ?? 0);
+	return budget > 0 ? budget : limit.context;
+}
+
 type ModelFlags = {
 	normalized: string;
 	normalizedOriginal: string;
@@ -0,0 +1,90 @@
+/**
+ * Model fallback on usage limits
+ *
+ * When a model's usage bucket is spent, the request can continue on a cheaper model from the
+ * configured `modelFallback` chain instead of stopping the session.
+ */
+
+import { normalizeModel } from "./model-config.js";
+
+const MAX_RECENT_FALLBACKS = 5;
+
+export interface ModelFallbackEvent {
+	/** Normalized model that hit its usage limit */
+	from: string;
+	/** Chain entry the request continued on */
+	to: string;
+	timestamp: number;
+}
+
+export interface ModelFallbackSnapshot {
+	total: number;
+	recent: ModelFallbackEvent[];
+}
+
+let totalFallbacks = 0;
+let recentFallbacks: ModelFallbackEvent[] = [];
+
+/**
+ * Pick the next model in the chain after the one that hit its limit
+ * @param model - Model of the failed request (normalized or as configured)
+ * @param chain - Ordered fallback chain from the plugin config
+ * @param triedModels - Normalized models already attempted for this request
+ * @returns Chain entry to retry with, or undefined when the model isn't in the chain or the chain is spent
+ */
+export function getNextFallbackModel(
+	model: string | undefined,
+	chain: string[] | undefined,
+	triedModels: string[] = [],
+): string | undefined {
+	if (!chain?.length) return undefined;
+	const current = normalizeModel(model);
+	const index = chain.findIndex((entry) => normalizeModel(entry) === current);
+	if (index === -1) return undefined;
+	return chain.slice(index + 1).find((entry) => {
+		const normalized = normalizeModel(entry);
+		return normalized !== current && !triedModels.includes(normalized);
+	});
+}
+
+/**
+ * Swap the model in the original (untransformed) request so it can be transformed again
+ * @param init - Request init as received from opencode
+ * @param model - Replacement model
+ * @returns Request init with the new model, or undefined when the body isn't JSON
+ */
+export function withRequestModel(init: RequestInit | undefined, model: string): RequestInit | undefined {
+	if (typeof init?.body !== "string") return undefined;
+	try {
+		const body = JSON.parse(init.body) as Record<string, unknown>;
+		return { ...init, body: JSON.stringify({ ...body, model }) };
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Record a downgrade for /codex-metrics
+ * @param from - Model that hit its usage limit
+ * @param to - Model the request continued on
+ */
+export function recordModelFallback(from: string, to: string): void {
+	totalFallbacks++;
+	recentFallbacks = [{ from, to, timestamp: Date.now() }, ...recentFallbacks].slice(0, MAX_RECENT_FALLBACKS);
+}
+
+/**
+ * Get downgrade counts for /codex-metrics
+ * @returns Total downgrades since startup and the most recent ones (newest first)
+ */
+export function getModelFallbackSnapshot(): ModelFallbackSnapshot {
+	return { total: totalFallbacks, recent: recentFallbacks.map((event) => ({ ...event })) };
+}
+
+/**
+ * Reset downgrade counters (for testing)
+ */
+export function resetModelFallbackMetrics(): void {
+	totalFallbacks = 0;
+	recentFallbacks = [];
+}
@@ -0,0 +1,328 @@
+/**
+ * PNG downscaling
+ *
+ * Screenshots and pasted images reach the plugin as PNG, often several thousand pixels wide. The
+ * backend scales them down anyway, so shrinking them here saves upload size and keeps them under
+ * the inline size limit. Only non-interlaced PNG is decoded, with node:zlib and no image library;
+ * other images are left as they are.
+ */
+
+import { deflateSync, inflateSync } from "node:zlib";
+
+interface PngHeader {
+	width: number;
+	height: number;
+	bitDepth: number;
+	colorType: number;
+	interlace: number;
+}
+
+interface RgbaImage {
+	width: number;
+	height: number;
+	/** 8-bit RGBA, row by row */
+	pixels: Uint8Array;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Samples per pixel for each PNG color type */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n;
+	for (let k = 0; k < 8; k++) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	}
+	return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of bytes) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function isSupported(header: PngHeader): boolean {
+	const { bitDepth, colorType, interlace } = header;
+	if (interlace !== 0 || !(colorType in CHANNELS)) return false;
+	if (colorType === 0) return [1, 2, 4, 8, 16].includes(bitDepth);
+	if (colorType === 3) return [1, 2, 4, 8].includes(bitDepth);
+	return bitDepth === 8 || bitDepth === 16;
+}
+
+/**
+ * Undo the per-row PNG filters
+ * @returns Unfiltered rows without their filter-type bytes
+ */
+function unfilter(
+	data: Buffer,
+	height: number,
+	rowBytes: number,
+	pixelBytes: number,
+): Uint8Array | undefined {
+	if (data.length < height * (rowBytes + 1)) return undefined;
+	const out = new Uint8Array(height * rowBytes);
+	for (let y = 0; y < height; y++) {
+		const filter = data[y * (rowBytes + 1)];
+		const src = y * (rowBytes + 1) + 1;
+		const row = y * rowBytes;
+		const prev = row - rowBytes;
+		for (let x = 0; x < rowBytes; x++) {
+			const left = x >= pixelBytes ? out[row + x - pixelBytes] : 0;
+			const up = y > 0 ? out[prev + x] : 0;
+			const upLeft = y > 0 && x >= pixelBytes ? out[prev + x - pixelBytes] : 0;
+			let predictor: number;
+			switch (filter) {
+				case 0:
+					predictor = 0;
+					break;
+				case 1:
+					predictor = left;
+					break;
+				case 2:
+					predictor = up;
+					break;
+				case 3:
+					predictor = (left + up) >> 1;
+					break;
+				case 4: {
+					const p = left + up - upLeft;
+					const pa = Math.abs(p - left);
+					const pb = Math.abs(p - up);
+					const pc = Math.abs(p - upLeft);
+					predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+					break;
+				}
+				default:
+					return undefined;
+			}
+			out[row + x] = (data[src + x] + predictor) & 0xff;
+		}
+	}
+	return out;
+}
+
+interface PngChunks {
+	header: PngHeader;
+	palette?: Buffer;
+	transparency?: Buffer;
+	idat: Buffer[];
+}
+
+/**
+ * Split a PNG into the chunks needed to decode it
+ * @returns Chunks, or undefined when the signature or header is missing
+ */
+function readChunks(bytes: Buffer): PngChunks | undefined {
+	if (bytes.length < 8 || !bytes.subarray(0, 8).equals(PNG_SIGNATURE)) return undefined;
+
+	let header: PngHeader | undefined;
+	let palette: Buffer | undefined;
+	let transparency: Buffer | undefined;
+	const idat: Buffer[] = [];
+	for (let offset = 8; offset + 8 <= bytes.length; ) {
+		const length = bytes.readUInt32BE(offset);
+		const type = bytes.toString("latin1", offset + 4, offset + 8);
+		const data = bytes.subarray(offset + 8, offset + 8 + length);
+		offset += length + 12;
+		if (type === "IHDR" && data.length >= 13) {
+			header = {
+				width: data.readUInt32BE(0),
+				height: data.readUInt32BE(4),
+				bitDepth: data[8],
+				colorType: data[9],
+				interlace: data[12],
+			};
+		} else if (type === "PLTE") {
+			palette = data;
+		} else if (type === "tRNS") {
+			transparency = data;
+		} else if (type === "IDAT") {
+			idat.push(data);
+		} else if (type === "IEND") {
+			break;
+		}
+	}
+	return header ? { header, palette, transparency, idat } : undefined;
+}
+
+/**
+ * Read the unfiltered rows as 8-bit RGBA
+ * Palette entries and 16-bit or sub-byte samples are expanded; tRNS supplies the alpha of
+ * palette images and the single transparent color of gray and RGB images.
+ */
+function toRgba(rows: Uint8Array, chunks: PngChunks): RgbaImage {
+	const { header, transparency } = chunks;
+	const { width, height, bitDepth, colorType } = header;
+	// RGB images may carry a suggested palette; only palette images index into it
+	const palette = colorType === 3 ? chunks.palette : undefined;
+	const channels = CHANNELS[colorType];
+	const rowBytes = Math.ceil((width * channels * bitDepth) / 8);
+	const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+	const sample = (row: number, index: number): number => {
+		if (bitDepth === 8) return rows[row + index];
+		if (bitDepth === 16) return (rows[row + index * 2] << 8) | rows[row + index * 2 + 1];
+		const bit = index * bitDepth;
+		return (rows[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+	};
+	const to8 = (value: number): number =>
+		bitDepth === 16 ? value >> 8 : Math.round((value * 255) / maxSample);
+	const transparent =
+		transparency && (colorType === 0 || colorType === 2)
+			? Array.from({ length: channels }, (_, c) => transparency.readUInt16BE(c * 2))
+			: undefined;
+	const hasAlpha = channels === 2 || channels === 4;
+	const gray = channels < 3;
+
+	const pixels = new Uint8Array(width * height * 4);
+	const values = new Array<number>(channels);
+	for (let y = 0; y < height; y++) {
+		const row = y * rowBytes;
+		for (let x = 0; x < width; x++) {
+			for (let c = 0; c < channels; c++) {
+				values[c] = sample(row, x * channels + c);
+			}
+			const out = (y * width + x) * 4;
+			if (palette) {
+				const index = values[0];
+				pixels.set(palette.subarray(index * 3, index * 3 + 3), out);
+				pixels[out + 3] = transparency?.[index] ?? 255;
+				continue;
+			}
+			pixels[out] = to8(values[0]);
+			pixels[out + 1] = to8(gray ? values[0] : values[1]);
+			pixels[out + 2] = to8(gray ? values[0] : values[2]);
+			if (hasAlpha) {
+				pixels[out + 3] = to8(values[channels - 1]);
+			} else {
+				pixels[out + 3] = transparent?.every((value, c) => value === values[c]) ? 0 : 255;
+			}
+		}
+	}
+	return { width, height, pixels };
+}
+
+/**
+ * Decode a PNG to 8-bit RGBA
+ * @param bytes - PNG file
+ * @returns Decoded image, or undefined for malformed or unsupported PNGs
+ */
+export function decodePng(bytes: Buffer): RgbaImage | undefined {
+	const chunks = readChunks(bytes);
+	if (!chunks || !isSupported(chunks.header)) return undefined;
+	const { width, height, bitDepth, colorType } = chunks.header;
+	if (width === 0 || height === 0) return undefined;
+	if (colorType === 3 && !chunks.palette) return undefined;
+
+	const channels = CHANNELS[colorType];
+	const rowBytes = Math.ceil((width * channels * bitDepth) / 8);
+	try {
+		const data = inflateSync(Buffer.concat(chunks.idat));
+		const rows = unfilter(data, height, rowBytes, Math.max(1, (channels * bitDepth) >> 3));
+		return rows ? toRgba(rows, chunks) : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+	const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+	const out = Buffer.alloc(body.length + 8);
+	out.writeUInt32BE(data.length, 0);
+	body.copy(out, 4);
+	out.writeUInt32BE(crc32(body), body.length + 4);
+	return out;
+}
+
+/**
+ * Encode 8-bit RGBA as a PNG
+ * @param image - Decoded image
+ * @returns PNG file
+ */
+export function encodePng(image: RgbaImage): Buffer {
+	const { width, height, pixels } = image;
+	const rowBytes = width * 4;
+	// Every row uses the Sub filter, which suits the flat areas of screenshots
+	const raw = Buffer.alloc(height * (rowBytes + 1));
+	for (let y = 0; y < height; y++) {
+		const out = y * (rowBytes + 1);
+		const row = y * rowBytes;
+		raw[out] = 1;
+		for (let x = 0; x < rowBytes; x++) {
+			const left = x >= 4 ? pixels[row + x - 4] : 0;
+			raw[out + 1 + x] = (pixels[row + x] - left) & 0xff;
+		}
+	}
+
+	const header = Buffer.alloc(13);
+	header.writeUInt32BE(width, 0);
+	header.writeUInt32BE(height, 4);
+	header[8] = 8;
+	header[9] = 6;
+	return Buffer.concat([
+		PNG_SIGNATURE,
+		chunk("IHDR", header),
+		chunk("IDAT", deflateSync(raw)),
+		chunk("IEND", Buffer.alloc(0)),
+	]);
+}
+
+/**
+ * Shrink an image by averaging the source pixels behind each target pixel
+ * Colors are weighted by alpha so transparent pixels don't darken the edges.
+ */
+function resize(image: RgbaImage, width: number, height: number): RgbaImage {
+	const pixels = new Uint8Array(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		const top = Math.floor((y * image.height) / height);
+		const bottom = Math.max(top + 1, Math.floor(((y + 1) * image.height) / height));
+		for (let x = 0; x < width; x++) {
+			const left = Math.floor((x * image.width) / width);
+			const right = Math.max(left + 1, Math.floor(((x + 1) * image.width) / width));
+			let r = 0;
+			let g = 0;
+			let b = 0;
+			let a = 0;
+			for (let sy = top; sy < bottom; sy++) {
+				for (let sx = left; sx < right; sx++) {
+					const src = (sy * image.width + sx) * 4;
+					const alpha = image.pixels[src + 3];
+					r += image.pixels[src] * alpha;
+					g += image.pixels[src + 1] * alpha;
+					b += image.pixels[src + 2] * alpha;
+					a += alpha;
+				}
+			}
+			const out = (y * width + x) * 4;
+			const count = (bottom - top) * (right - left);
+			if (a > 0) {
+				pixels[out] = Math.round(r / a);
+				pixels[out + 1] = Math.round(g / a);
+				pixels[out + 2] = Math.round(b / a);
+			}
+			pixels[out + 3] = Math.round(a / count);
+		}
+	}
+	return { width, height, pixels };
+}
+
+/**
+ * Downscale a PNG so neither side exceeds a maximum, keeping its aspect ratio
+ * @param bytes - PNG file
+ * @param maxDimension - Longest side allowed, in pixels
+ * @returns Smaller PNG, or undefined when the image already fits or can't be decoded
+ */
+export function downscalePng(bytes: Buffer, maxDimension: number): Buffer | undefined {
+	const image = decodePng(bytes);
+	if (!image) return undefined;
+	const longest = Math.max(image.width, image.height);
+	if (longest <= maxDimension) return undefined;
+
+	const scale = maxDimension / longest;
+	const width = Math.max(1, Math.round(image.width * scale));
+	const height = Math.max(1, Math.round(image.height * scale));
+	return encodePng(resize(image, width, height));
+}
@@ -0,0 +1,147 @@
+/**
+ * Rate-limit tracking
+ *
+ * Every Codex response reports how much of the primary (5-hour) and secondary (weekly) usage
+ * windows is spent. Keeping the latest values lets the plugin warn before a window runs out
+ * instead of only explaining it after a request fails. Each pooled account has its own windows,
+ * so values and warnings are tracked per account ID ("" in API-key mode).
+ */
+
+import { RATE_LIMIT_WARN_THRESHOLDS } from "../constants.js";
+import { logWarn, notifyToast } from "../logger.js";
+import { parseRateLimits } from "./fetch-helpers.js";
+
+export type RateLimitWindowName = "primary" | "secondary";
+
+export interface RateLimitWindow {
+	usedPercent?: number;
+	windowMinutes?: number;
+	/** Epoch ms when the window resets */
+	resetsAt?: number;
+}
+
+export interface RateLimitSnapshot {
+	primary: RateLimitWindow;
+	secondary: RateLimitWindow;
+	/** Epoch ms of the response the values came from */
+	updatedAt: number;
+}
+
+const WINDOW_NAMES: RateLimitWindowName[] = ["primary", "secondary"];
+
+const latest = new Map<string, RateLimitSnapshot>();
+/** Highest threshold already announced per account and window, so each crossing toasts once */
+const warnedThresholds = new Map<string, Record<RateLimitWindowName, number>>();
+
+/**
+ * Describe a window length for display
+ * @param minutes - Window length reported by the backend
+ * @returns e.g. "5h" or "7d"
+ */
+export function formatWindowLength(minutes: number | undefined): string {
+	if (minutes === undefined) return "unknown window";
+	if (minutes % (24 * 60) === 0) return `${minutes / (24 * 60)}d`;
+	if (minutes % 60 === 0) return `${minutes / 60}h`;
+	return `${minutes}m`;
+}
+
+function highestCrossed(usedPercent: number | undefined, thresholds: number[]): number {
+	if (usedPercent === undefined) return 0;
+	return Math.max(0, ...thresholds.filter((threshold) => usedPercent >= threshold));
+}
+
+function warnIfCrossed(
+	accountId: string,
+	name: RateLimitWindowName,
+	window: RateLimitWindow,
+	thresholds: number[],
+): void {
+	let warned = warnedThresholds.get(accountId);
+	if (!warned) {
+		warned = { primary: 0, secondary: 0 };
+		warnedThresholds.set(accountId, warned);
+	}
+	const crossed = highestCrossed(window.usedPercent, thresholds);
+	// Usage dropping back (a new window) re-arms the lower thresholds
+	if (crossed <= warned[name]) {
+		warned[name] = crossed;
+		return;
+	}
+	warned[name] = crossed;
+
+	const resets =
+		window.resetsAt !== undefined ? `, resets ${new Date(window.resetsAt).toLocaleString()}` : "";
+	const account = accountId ? ` for account ${accountId}` : "";
+	const message = `Codex ${name} usage at ${window.usedPercent}%${account} (${formatWindowLength(window.windowMinutes)} window${resets})`;
+	logWarn(message, { accountId, window: name, usedPercent: window.usedPercent, threshold: crossed });
+	notifyToast("warn", message);
+}
+
+/**
+ * Record the usage windows reported by a Codex response and warn when a threshold is crossed
+ * @param accountId - Account the response was billed to ("" in API-key mode)
+ * @param headers - Response headers (successful or not)
+ * @param thresholds - Warning thresholds in percent (defaults to 80 and 95)
+ * @param now - Current timestamp
+ */
+export function recordRateLimits(
+	accountId: string,
+	headers: Headers,
+	thresholds: number[] = [...RATE_LIMIT_WARN_THRESHOLDS],
+	now: number = Date.now(),
+): void {
+	const buckets = parseRateLimits(headers);
+	if (!buckets) return;
+
+	const toWindow = (bucket: typeof buckets.primary): RateLimitWindow => ({
+		usedPercent: bucket.used_percent,
+		windowMinutes: bucket.window_minutes,
+		resetsAt: bucket.resets_at !== undefined ? bucket.resets_at * 1000 : undefined,
+	});
+	const snapshot = {
+		primary: toWindow(buckets.primary),
+		secondary: toWindow(buckets.secondary),
+		updatedAt: now,
+	};
+	latest.set(accountId, snapshot);
+
+	for (const name of WINDOW_NAMES) {
+		warnIfCrossed(accountId, name, snapshot[name], thresholds);
+	}
+}
+
+function copySnapshot(snapshot: RateLimitSnapshot): RateLimitSnapshot {
+	return {
+		primary: { ...snapshot.primary },
+		secondary: { ...snapshot.secondary },
+		updatedAt: snapshot.updatedAt,
+	};
+}
+
+/**
+ * Get the latest usage windows of one account
+ * @param accountId - Account ID ("" in API-key mode)
+ * @returns Copy of the latest values, or undefined before any response for the account reported them
+ */
+export function getRateLimitSnapshot(accountId: string): RateLimitSnapshot | undefined {
+	const snapshot = latest.get(accountId);
+	return snapshot ? copySnapshot(snapshot) : undefined;
+}
+
+/**
+ * Get the latest usage windows of every account for /codex-limits
+ * @returns Copies keyed by account ID, in the order the accounts first reported them
+ */
+export function getRateLimitSnapshots(): Record<string, RateLimitSnapshot> {
+	return Object.fromEntries(
+		Array.from(latest, ([accountId, snapshot]) => [accountId, copySnapshot(snapshot)]),
+	);
+}
+
+/**
+ * Forget recorded usage and announced thresholds (for testing)
+ */
+export function resetRateLimitState(): void {
+	latest.clear();
+	warnedThresholds.clear();
+}
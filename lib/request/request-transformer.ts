@@ -1,15 +1,18 @@
 /* eslint-disable no-param-reassign */
+import { MAX_TOOL_OUTPUT_CHARS } from "../constants.js";
 import { logDebug, logWarn } from "../logger.js";
-import type { RequestBody, SessionContext, UserConfig } from "../types.js";
+import type { FileInputConfig, ImageInputConfig, RequestBody, SessionContext, UserConfig } from "../types.js";
+import { type ContextTrim, trimToContextLimit } from "./context-guard.js";
 import {
 	addCodexBridgeMessage,
 	addToolRemapMessage,
+	type FilterInputOptions,
 	filterInput,
 	filterOpenCodeSystemPrompts,
 	filterOpenCodeSystemPromptsWithEnv,
 } from "./input-filters.js";
 
-import { getModelConfig, getReasoningConfig, normalizeModel } from "./model-config.js";
+import { getContextLimit, getModelConfig, getReasoningConfig, normalizeModel } from "./model-config.js";
 import { ensurePromptCacheKey, logCacheKeyDecision } from "./prompt-cache.js";
 import { normalizeToolsForCodexBody } from "./tooling.js";
 
@@ -19,6 +22,7 @@ export {
 	filterInput,
 	filterOpenCodeSystemPrompts,
 	isOpenCodeSystemPrompt,
+	truncateToolOutput,
 } from "./input-filters.js";
 export { getModelConfig, getReasoningConfig, normalizeModel } from "./model-config.js";
 
@@ -27,11 +31,19 @@ export interface TransformRequestOptions {
 	preserveIds?: boolean;
 	/** Reattach env/files context to prompt tail (defaults from config/env). */
 	appendEnvContext?: boolean;
+	/** Cap on tool output characters kept in history (0 disables). */
+	maxToolOutputChars?: number;
+	/** Image attachment settings. */
+	images?: ImageInputConfig;
+	/** PDF and text file attachment settings. */
+	files?: FileInputConfig;
 }
 
 export interface TransformResult {
 	/** Mutated request body (same instance passed into transformRequestBody). */
 	body: RequestBody;
+	/** Set when the request exceeded the model's context budget */
+	contextTrim?: ContextTrim;
 }
 
 async function transformInputForCodex(
@@ -40,6 +52,7 @@ async function transformInputForCodex(
 	preserveIds: boolean,
 	hasNormalizedTools: boolean,
 	appendEnvContext: boolean,
+	historyOptions: Pick<FilterInputOptions, "maxToolOutputChars" | "images" | "files">,
 	sessionContext?: SessionContext,
 ): Promise<void> {
 	if (!body.input || !Array.isArray(body.input)) {
@@ -51,7 +64,7 @@ async function transformInputForCodex(
 		logDebug(`Filtering ${originalIds.length} message IDs from input:`, originalIds);
 	}
 
-	let workingInput = filterInput(body.input, { preserveIds, preserveMetadata: true });
+	let workingInput = filterInput(body.input, { preserveIds, preserveMetadata: true, ...historyOptions });
 
 	if (!preserveIds) {
 		const remainingIds = (workingInput || []).filter((item) => item.id).map((item) => item.id);
@@ -98,6 +111,23 @@ async function transformInputForCodex(
 	body.input = addToolRemapMessage(workingInput, hasNormalizedTools);
 }
 
+function applyContextGuard(
+	body: RequestBody,
+	limit: number | undefined,
+	sessionContext?: SessionContext,
+): ContextTrim | undefined {
+	if (!limit || !Array.isArray(body.input)) {
+		return undefined;
+	}
+
+	const { input, trim } = trimToContextLimit(body, limit, sessionContext?.state.contextTrimTurns);
+	body.input = input;
+	if (sessionContext) {
+		sessionContext.state.contextTrimTurns = trim?.removedTurns ?? 0;
+	}
+	return trim;
+}
+
 export async function transformRequestBody(
 	body: RequestBody,
 	codexInstructions: string,
@@ -136,9 +166,16 @@ export async function transformRequestBody(
 		preserveIds,
 		hasNormalizedTools,
 		appendEnvContext,
+		{
+			maxToolOutputChars: options.maxToolOutputChars ?? MAX_TOOL_OUTPUT_CHARS,
+			images: options.images ?? {},
+			files: options.files ?? {},
+		},
 		sessionContext,
 	);
 
+	const contextTrim = applyContextGuard(body, getContextLimit(lookupModel, userConfig), sessionContext);
+
 	const reasoningConfig = getReasoningConfig(originalModel, modelConfig);
 	body.reasoning = {
 		...body.reasoning,
@@ -155,5 +192,5 @@ export async function transformRequestBody(
 	body.max_output_tokens = undefined;
 	body.max_completion_tokens = undefined;
 
-	return { body };
+	return { body, contextTrim };
 }
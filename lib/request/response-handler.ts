@@ -1,31 +1,39 @@
 import { PLUGIN_NAME } from "../constants.js";
 import { isLoggingEnabled, logError, logRequest } from "../logger.js";
 import type { SSEEventData } from "../types.js";
+import { parseSseEventPayloads, readSseEvents } from "./sse-parser.js";
 
-/**
- * Parse SSE stream to extract final response
- * @param sseText - Complete SSE stream text
- * @returns Final response object or null if not found
- */
-function parseSseStream(sseText: string): unknown | null {
-	const lines = sseText.split("\n");
+const TERMINAL_EVENT_TYPES = new Set(["response.done", "response.completed", "response.failed"]);
 
-	for (const line of lines) {
-		if (line.startsWith("data: ")) {
-			try {
-				const data = JSON.parse(line.substring(6)) as SSEEventData;
+/** Blank line between events; a lone CR only counts when it isn't the first half of a CRLF */
+const EVENT_SEPARATOR = /(?:\r\n|\n|\r(?!\n)){2}/g;
 
-				// Look for response.done event with final data
-				if (data.type === "response.done" || data.type === "response.completed") {
-					return data.response;
-				}
-			} catch {
-				// Skip malformed JSON
-			}
-		}
+/**
+ * Cut raw SSE text down to its last event
+ * @param text - Raw stream text seen so far
+ * @returns Text of the last (possibly unfinished) event
+ */
+function keepLastEvent(text: string): string {
+	const content = text.replace(/[\r\n]+$/, "");
+	let start = 0;
+	for (const match of content.matchAll(EVENT_SEPARATOR)) {
+		start = match.index + match[0].length;
 	}
+	return start > 0 ? text.slice(start) : text;
+}
 
-	return null;
+/**
+ * Turn a `response.failed` event into an error response generateText() can surface
+ * Stream timeouts map to 504, other failures to 502.
+ */
+function createFailedResponse(event: SSEEventData, headers: Headers): Response {
+	const error = (event.response as { error?: { code?: string; message?: string } } | undefined)?.error ?? {};
+	const jsonHeaders = new Headers(headers);
+	jsonHeaders.set("content-type", "application/json; charset=utf-8");
+	return new Response(
+		JSON.stringify({ error: { code: error.code, message: error.message ?? "Codex response failed" } }),
+		{ status: error.code === "stream_timeout" ? 504 : 502, headers: jsonHeaders },
+	);
 }
 
 /**
@@ -38,42 +46,51 @@ export async function convertSseToJson(response: Response, headers: Headers): Pr
 	if (!response.body) {
 		throw new Error(`${PLUGIN_NAME} Response has no body`);
 	}
-	const reader = response.body.getReader();
-	const decoder = new TextDecoder();
+	// The whole stream is only kept for request logging; the fallback below needs just the last event
+	const logging = isLoggingEnabled();
 	let fullText = "";
+	let lastEventText = "";
+	const onText = (text: string) => {
+		if (logging) fullText += text;
+		lastEventText = keepLastEvent(lastEventText + text);
+	};
 
 	try {
-		// Consume the entire stream
-		while (true) {
-			const { done, value } = await reader.read();
-			if (done) break;
-			fullText += decoder.decode(value, { stream: true });
+		let finalEvent: SSEEventData | undefined;
+		for await (const event of readSseEvents(response.body, onText)) {
+			for (const data of parseSseEventPayloads(event)) {
+				if (TERMINAL_EVENT_TYPES.has(data.type)) {
+					finalEvent = data;
+				}
+			}
 		}
 
-		if (isLoggingEnabled()) {
+		if (logging) {
 			logRequest("stream-full", { fullContent: fullText });
 		}
 
-		// Parse SSE events to extract the final response
-		const finalResponse = parseSseStream(fullText);
-
-		if (!finalResponse) {
+		if (!finalEvent) {
 			logError("Could not find final response in SSE stream");
 			logRequest("stream-error", { error: "No response.done event found" });
 
-			// Return original stream if we can't parse
-			return new Response(fullText, {
+			// Return the original text if we can't parse
+			return new Response(logging ? fullText : lastEventText, {
 				status: response.status,
 				statusText: response.statusText,
 				headers: headers,
 			});
 		}
 
+		if (finalEvent.type === "response.failed") {
+			logError("Codex response failed", { response: finalEvent.response });
+			return createFailedResponse(finalEvent, headers);
+		}
+
 		// Return as plain JSON (not SSE)
 		const jsonHeaders = new Headers(headers);
 		jsonHeaders.set("content-type", "application/json; charset=utf-8");
 
-		return new Response(JSON.stringify(finalResponse), {
+		return new Response(JSON.stringify(finalEvent.response), {
 			status: response.status,
 			statusText: response.statusText,
 			headers: jsonHeaders,
@@ -0,0 +1,195 @@
+/**
+ * Retry policy for transient Codex backend failures
+ *
+ * Only requests that never produced a successful response are retried: once fetch resolves with
+ * an OK status the body is streamed to the caller and any later failure is final.
+ */
+
+import { randomUUID } from "node:crypto";
+import { RETRY_CONFIG } from "../constants.js";
+import { logDebug, logWarn } from "../logger.js";
+import type { RetryConfig } from "../types.js";
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+	new Promise<void>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+
+const RATE_LIMIT_BUCKETS = ["primary", "secondary"] as const;
+
+/**
+ * Create a short ID that ties together every log line of one logical request
+ * @returns Correlation ID
+ */
+export function createRequestId(): string {
+	return randomUUID().slice(0, 8);
+}
+
+/**
+ * Read the server's requested wait from `Retry-After` or, for 429s, the reset of an exhausted Codex bucket
+ * @param headers - Response headers
+ * @param status - Response status
+ * @param now - Current timestamp
+ * @returns Wait in milliseconds, or undefined when the server gave no hint
+ */
+export function getServerRetryDelay(
+	headers: Headers,
+	status: number,
+	now: number = Date.now(),
+): number | undefined {
+	const retryAfter = headers.get("retry-after")?.trim();
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+		const date = Date.parse(retryAfter);
+		if (Number.isFinite(date)) return Math.max(0, date - now);
+	}
+
+	// Reset headers ride along on every response; they only explain a wait when we were rate limited
+	if (status !== 429) return undefined;
+	// A reset only explains the 429 when its usage window is spent; windows that still have room
+	// reset minutes to hours away and say nothing about a short burst limit, so those get backoff.
+	// Resets are epoch seconds; the earliest future one frees capacity first.
+	const resets = RATE_LIMIT_BUCKETS.filter(
+		(bucket) => Number(headers.get(`x-codex-${bucket}-used-percent`)) >= 100,
+	)
+		.map((bucket) => Number.parseInt(headers.get(`x-codex-${bucket}-reset-at`) ?? "", 10))
+		.filter((seconds) => Number.isFinite(seconds) && seconds * 1000 > now)
+		.map((seconds) => seconds * 1000 - now);
+	return resets.length > 0 ? Math.min(...resets) : undefined;
+}
+
+/**
+ * Compute the jittered exponential backoff for a retry
+ * @param attempt - Attempt that just failed (1-based)
+ * @param baseDelayMs - Base delay
+ * @param random - Random source in [0, 1)
+ * @returns Delay in milliseconds (between half and the full exponential step)
+ */
+export function computeBackoffDelay(
+	attempt: number,
+	baseDelayMs: number,
+	random: () => number = Math.random,
+): number {
+	const step = baseDelayMs * 2 ** (attempt - 1);
+	return Math.round(step / 2 + random() * (step / 2));
+}
+
+function resolveRetryConfig(config: RetryConfig = {}): Required<RetryConfig> {
+	return {
+		maxAttempts: Math.max(1, config.maxAttempts ?? RETRY_CONFIG.MAX_ATTEMPTS),
+		baseDelayMs: config.baseDelayMs ?? RETRY_CONFIG.BASE_DELAY_MS,
+		maxDelayMs: config.maxDelayMs ?? RETRY_CONFIG.MAX_DELAY_MS,
+	};
+}
+
+function isRetryableStatus(status: number): boolean {
+	return (RETRY_CONFIG.RETRYABLE_STATUSES as readonly number[]).includes(status);
+}
+
+function isAbortError(error: unknown): boolean {
+	return error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError");
+}
+
+export interface RetryOptions {
+	config?: RetryConfig;
+	/** Correlation ID included in every attempt log */
+	requestId: string;
+	/** Veto for retryable statuses, e.g. usage limits that account failover handles instead */
+	shouldRetry?: (response: Response) => boolean | Promise<boolean>;
+	/** Caller's abort signal; cancels pending backoff waits and further attempts */
+	signal?: AbortSignal | null;
+	/** Injected for tests */
+	sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+	random?: () => number;
+}
+
+/**
+ * Send a request, retrying network errors and retryable statuses before any body is streamed
+ * @param send - Performs one upstream fetch
+ * @param options - Retry tuning and correlation ID
+ * @returns First successful response, or the last failure when retries are exhausted
+ */
+export async function fetchWithRetry(
+	send: () => Promise<Response>,
+	options: RetryOptions,
+): Promise<Response> {
+	const { maxAttempts, baseDelayMs, maxDelayMs } = resolveRetryConfig(options.config);
+	const wait = options.sleep ?? sleep;
+	const { requestId } = options;
+	const signal = options.signal ?? undefined;
+
+	for (let attempt = 1; ; attempt++) {
+		signal?.throwIfAborted();
+		let response: Response;
+		try {
+			response = await send();
+		} catch (error) {
+			if (isAbortError(error) || signal?.aborted || attempt >= maxAttempts) throw error;
+			const delayMs = computeBackoffDelay(attempt, baseDelayMs, options.random);
+			logWarn("Codex request failed before a response; retrying", {
+				requestId,
+				attempt,
+				maxAttempts,
+				delayMs,
+				error: (error as Error).message,
+			});
+			await wait(delayMs, signal);
+			continue;
+		}
+
+		logDebug("Codex request attempt finished", { requestId, attempt, status: response.status });
+		if (!isRetryableStatus(response.status)) {
+			return response;
+		}
+		if (options.shouldRetry && !(await options.shouldRetry(response))) {
+			return response;
+		}
+		if (attempt >= maxAttempts) {
+			logWarn("Codex request still failing after retries", {
+				requestId,
+				attempts: attempt,
+				status: response.status,
+			});
+			return response;
+		}
+
+		const serverDelay = getServerRetryDelay(response.headers, response.status);
+		if (serverDelay !== undefined && serverDelay > maxDelayMs) {
+			// Long waits (e.g. a usage limit resetting in hours) go back to the caller instead of stalling the run
+			logDebug("Not retrying: server asked to wait longer than maxDelayMs", {
+				requestId,
+				status: response.status,
+				serverDelayMs: serverDelay,
+				maxDelayMs,
+			});
+			return response;
+		}
+		const delayMs = Math.min(
+			serverDelay ?? computeBackoffDelay(attempt, baseDelayMs, options.random),
+			maxDelayMs,
+		);
+		logWarn("Retrying Codex request after transient error", {
+			requestId,
+			attempt,
+			maxAttempts,
+			status: response.status,
+			delayMs,
+			source: serverDelay === undefined ? "backoff" : "server",
+		});
+		await response.body?.cancel().catch(() => {});
+		await wait(delayMs, signal);
+	}
+}
@@ -0,0 +1,210 @@
+/**
+ * Incremental Server-Sent Events decoder
+ *
+ * Follows the WHATWG event-stream grammar: CR, LF and CRLF line endings, multi-line `data:`
+ * fields, `event:`/`id:`/`retry:` fields, comments, and field values with or without the
+ * space after the colon. Events are yielded as soon as their terminating blank line arrives.
+ */
+
+import type { SSEEventData } from "../types.js";
+
+/**
+ * One dispatched SSE event
+ */
+export interface SseEvent {
+	/** `event:` field (defaults to "message" per spec) */
+	event: string;
+	/** `data:` lines joined with "\n" */
+	data: string;
+	/** Last `id:` seen on the stream */
+	id?: string;
+	/** `retry:` reconnection hint in milliseconds */
+	retry?: number;
+}
+
+export interface SseDecoder {
+	/**
+	 * Feed decoded text
+	 * @returns Events completed by this chunk
+	 */
+	push(text: string): SseEvent[];
+	/**
+	 * Signal end of stream
+	 * @returns A final event that was not followed by a blank line, if any
+	 */
+	flush(): SseEvent[];
+}
+
+/**
+ * Create a stateful decoder that accepts text in arbitrary chunks
+ * @returns Decoder instance
+ */
+export function createSseDecoder(): SseDecoder {
+	let buffer = "";
+	let eventType = "";
+	let dataLines: string[] = [];
+	let lastEventId: string | undefined;
+	let retry: number | undefined;
+
+	const dispatch = (events: SseEvent[]) => {
+		if (dataLines.length > 0) {
+			events.push({
+				event: eventType || "message",
+				data: dataLines.join("\n"),
+				...(lastEventId !== undefined ? { id: lastEventId } : {}),
+				...(retry !== undefined ? { retry } : {}),
+			});
+		}
+		eventType = "";
+		dataLines = [];
+	};
+
+	const processLine = (line: string, events: SseEvent[]) => {
+		if (line === "") {
+			dispatch(events);
+			return;
+		}
+		if (line.startsWith(":")) return;
+
+		const colon = line.indexOf(":");
+		const field = colon === -1 ? line : line.slice(0, colon);
+		let value = colon === -1 ? "" : line.slice(colon + 1);
+		if (value.startsWith(" ")) value = value.slice(1);
+
+		switch (field) {
+			case "event":
+				eventType = value;
+				break;
+			case "data":
+				dataLines.push(value);
+				break;
+			case "id":
+				if (!value.includes("\0")) lastEventId = value;
+				break;
+			case "retry":
+				if (/^\d+$/.test(value)) retry = Number(value);
+				break;
+			default:
+				// Unknown fields are ignored per spec
+				break;
+		}
+	};
+
+	return {
+		push(text) {
+			buffer += text;
+			const events: SseEvent[] = [];
+			let start = 0;
+			for (let i = 0; i < buffer.length; i++) {
+				const char = buffer[i];
+				if (char !== "\n" && char !== "\r") continue;
+				// A trailing CR may be the first half of a CRLF split across chunks
+				if (char === "\r" && i === buffer.length - 1) break;
+				processLine(buffer.slice(start, i), events);
+				if (char === "\r" && buffer[i + 1] === "\n") i++;
+				start = i + 1;
+			}
+			buffer = buffer.slice(start);
+			return events;
+		},
+		flush() {
+			const events: SseEvent[] = [];
+			if (buffer.length > 0) {
+				processLine(buffer.replace(/\r$/, ""), events);
+				buffer = "";
+			}
+			// Be lenient with streams that end without the final blank line
+			dispatch(events);
+			return events;
+		},
+	};
+}
+
+/**
+ * Decode an SSE byte stream into events as bytes arrive
+ * @param stream - Response body
+ * @param onText - Receives each decoded text chunk (e.g. for request logging)
+ * @returns Async iterator of events
+ */
+export async function* readSseEvents(
+	stream: ReadableStream<Uint8Array>,
+	onText?: (text: string) => void,
+): AsyncGenerator<SseEvent> {
+	const reader = stream.getReader();
+	const textDecoder = new TextDecoder();
+	const decoder = createSseDecoder();
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			const text = textDecoder.decode(value, { stream: true });
+			onText?.(text);
+			yield* decoder.push(text);
+		}
+		const tail = textDecoder.decode();
+		if (tail) {
+			onText?.(tail);
+			yield* decoder.push(tail);
+		}
+		yield* decoder.flush();
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+/**
+ * Pass an SSE byte stream through unchanged while decoding its events on the side
+ * Piping through the transform keeps a single reader, so a consumer cancelling the output
+ * cancels the source as well.
+ * @param onEvent - Called for each event as its bytes pass through
+ * @returns Pass-through transform stream
+ */
+export function observeSseEvents(
+	onEvent: (event: SseEvent) => void,
+): TransformStream<Uint8Array, Uint8Array> {
+	const textDecoder = new TextDecoder();
+	const decoder = createSseDecoder();
+	return new TransformStream<Uint8Array, Uint8Array>({
+		transform(chunk, controller) {
+			controller.enqueue(chunk);
+			for (const event of decoder.push(textDecoder.decode(chunk, { stream: true }))) onEvent(event);
+		},
+		flush() {
+			for (const event of [...decoder.push(textDecoder.decode()), ...decoder.flush()]) onEvent(event);
+		},
+	});
+}
+
+/**
+ * Parse the JSON payload of a Responses API event
+ * @param event - Decoded SSE event
+ * @returns Typed event data, or undefined for `[DONE]` and malformed payloads
+ */
+export function parseSseEventData(event: SseEvent): SSEEventData | undefined {
+	if (event.data === "[DONE]") return undefined;
+	try {
+		const parsed = JSON.parse(event.data) as unknown;
+		if (!parsed || typeof parsed !== "object" || typeof (parsed as SSEEventData).type !== "string") {
+			return undefined;
+		}
+		return parsed as SSEEventData;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Parse the payloads of an event, tolerating producers that omit the blank line between events
+ * Such streams decode as one event whose `data:` lines are each a complete JSON payload.
+ * @param event - Decoded SSE event
+ * @returns Typed event data in stream order
+ */
+export function parseSseEventPayloads(event: SseEvent): SSEEventData[] {
+	const data = parseSseEventData(event);
+	if (data) return [data];
+	const lines = event.data.split("\n");
+	if (lines.length < 2) return [];
+	return lines
+		.map((line) => parseSseEventData({ ...event, data: line }))
+		.filter((payload): payload is SSEEventData => payload !== undefined);
+}
@@ -0,0 +1,241 @@
+/**
+ * Upstream timeouts for Codex requests
+ *
+ * A connect timeout bounds the wait for response headers; first-byte and idle timeouts bound the
+ * SSE stream so a stalled connection ends with a `response.failed` event instead of hanging opencode.
+ */
+
+import { TIMEOUT_CONFIG } from "../constants.js";
+import { logWarn } from "../logger.js";
+import type { TimeoutConfig } from "../types.js";
+
+const TIMED_OUT = Symbol("timed-out");
+
+/**
+ * Fill in timeout defaults
+ * @param config - Timeouts from the plugin config
+ * @returns Timeouts in milliseconds (0 means disabled)
+ */
+export function resolveTimeouts(config: TimeoutConfig = {}): Required<TimeoutConfig> {
+	return {
+		connectMs: Math.max(0, config.connectMs ?? TIMEOUT_CONFIG.CONNECT_MS),
+		firstByteMs: Math.max(0, config.firstByteMs ?? TIMEOUT_CONFIG.FIRST_BYTE_MS),
+		idleMs: Math.max(0, config.idleMs ?? TIMEOUT_CONFIG.IDLE_MS),
+	};
+}
+
+/**
+ * Build the error response returned when Codex doesn't answer in time
+ * Uses 504 so the retry policy treats it like a gateway timeout.
+ * @param message - Human-readable reason
+ * @returns JSON error response
+ */
+export function createTimeoutResponse(message: string): Response {
+	return new Response(JSON.stringify({ error: { code: "timeout", message } }), {
+		status: 504,
+		statusText: "Gateway Timeout",
+		headers: { "content-type": "application/json; charset=utf-8" },
+	});
+}
+
+/**
+ * Fetch with a deadline for the response headers while honouring the caller's abort signal
+ * @param url - Upstream URL
+ * @param init - Request init (its `signal` cancels the fetch)
+ * @param connectMs - Header deadline (0 disables)
+ * @returns Upstream response, or a 504 timeout response when the deadline passes
+ */
+export async function fetchWithConnectTimeout(
+	url: string,
+	init: RequestInit,
+	connectMs: number,
+): Promise<Response> {
+	if (!connectMs) return fetch(url, init);
+
+	const callerSignal = init.signal ?? undefined;
+	const controller = new AbortController();
+	const forwardAbort = () => controller.abort(callerSignal?.reason);
+	if (callerSignal?.aborted) forwardAbort();
+	callerSignal?.addEventListener("abort", forwardAbort, { once: true });
+	let timedOut = false;
+	const timer = setTimeout(() => {
+		timedOut = true;
+		controller.abort();
+	}, connectMs);
+
+	const stopForwarding = () => callerSignal?.removeEventListener("abort", forwardAbort);
+	let response: Response;
+	try {
+		response = await fetch(url, { ...init, signal: controller.signal });
+	} catch (error) {
+		stopForwarding();
+		if (!timedOut) throw error;
+		logWarn("Codex request timed out waiting for response headers", { connectMs });
+		return createTimeoutResponse(`No response from Codex within ${connectMs}ms`);
+	} finally {
+		clearTimeout(timer);
+	}
+	// Aborting the opencode request mid-stream must still abort the upstream fetch
+	return onBodyEnd(response, stopForwarding);
+}
+
+/**
+ * Run a callback once a response body has been read to the end, has failed or was cancelled
+ * @param response - Upstream response
+ * @param onEnd - Called once
+ * @returns Response whose body reports its end
+ */
+function onBodyEnd(response: Response, onEnd: () => void): Response {
+	if (!response.body) {
+		onEnd();
+		return response;
+	}
+
+	const reader = response.body.getReader();
+	const body = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			try {
+				const { done, value } = await reader.read();
+				if (done) {
+					onEnd();
+					controller.close();
+					return;
+				}
+				controller.enqueue(value);
+			} catch (error) {
+				onEnd();
+				controller.error(error);
+			}
+		},
+		cancel(reason) {
+			onEnd();
+			return reader.cancel(reason);
+		},
+	});
+
+	return new Response(body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers,
+	});
+}
+
+async function readWithDeadline(
+	reader: ReadableStreamDefaultReader<Uint8Array>,
+	limitMs: number,
+): Promise<Awaited<ReturnType<typeof reader.read>> | typeof TIMED_OUT> {
+	if (!limitMs) return reader.read();
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const deadline = new Promise<typeof TIMED_OUT>((resolve) => {
+		timer = setTimeout(() => resolve(TIMED_OUT), limitMs);
+	});
+	try {
+		return await Promise.race([reader.read(), deadline]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+function encodeFailedEvent(message: string): Uint8Array {
+	const event = {
+		type: "response.failed",
+		response: { status: "failed", error: { code: "stream_timeout", message } },
+	};
+	return new TextEncoder().encode(`event: response.failed\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+const LF = 0x0a;
+const CR = 0x0d;
+
+/**
+ * Find where the last complete SSE event ends
+ * @param bytes - Stream bytes not yet forwarded
+ * @returns Offset just past the last blank line (0 when no event is complete yet)
+ */
+function lastEventBoundary(bytes: Uint8Array): number {
+	let boundary = 0;
+	let lineStart = 0;
+	for (let i = 0; i < bytes.length; i++) {
+		const byte = bytes[i];
+		if (byte !== LF && byte !== CR) continue;
+		// A trailing CR may be the first half of a CRLF that hasn't arrived yet
+		if (byte === CR && i === bytes.length - 1) break;
+		const lineEnd = byte === CR && bytes[i + 1] === LF ? i + 1 : i;
+		if (i === lineStart) boundary = lineEnd + 1;
+		i = lineEnd;
+		lineStart = i + 1;
+	}
+	return boundary;
+}
+
+function concatBytes(head: Uint8Array, tail: Uint8Array): Uint8Array {
+	if (head.length === 0) return tail;
+	const joined = new Uint8Array(head.length + tail.length);
+	joined.set(head);
+	joined.set(tail, head.length);
+	return joined;
+}
+
+/**
+ * End a stalled SSE stream with a `response.failed` event
+ * @param response - Successful upstream response
+ * @param timeouts - First-byte and idle deadlines (0 disables)
+ * @returns Response whose body enforces the deadlines
+ */
+export function withStreamTimeouts(
+	response: Response,
+	timeouts: Pick<Required<TimeoutConfig>, "firstByteMs" | "idleMs">,
+): Response {
+	if (!response.body || (!timeouts.firstByteMs && !timeouts.idleMs)) return response;
+
+	const reader = response.body.getReader();
+	let received = false;
+	// Bytes of an event still in flight; held back so a stall can drop it instead of forwarding half
+	let pending: Uint8Array = new Uint8Array(0);
+	const body = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			// Loop until a whole event can be forwarded; each read gets its own deadline
+			while (true) {
+				const limitMs = received ? timeouts.idleMs : timeouts.firstByteMs;
+				const result = await readWithDeadline(reader, limitMs);
+				if (result === TIMED_OUT) {
+					const message = received
+						? `Codex stream stalled: no events for ${limitMs}ms`
+						: `Codex stream sent no data within ${limitMs}ms`;
+					logWarn(message, {
+						firstByteMs: timeouts.firstByteMs,
+						idleMs: timeouts.idleMs,
+						droppedPartialBytes: pending.length,
+					});
+					reader.cancel().catch(() => {});
+					controller.enqueue(encodeFailedEvent(message));
+					controller.close();
+					return;
+				}
+				if (result.done) {
+					// Streams may end without a final blank line; the decoder still reads that event
+					if (pending.length > 0) controller.enqueue(pending);
+					controller.close();
+					return;
+				}
+				received = true;
+				const bytes = concatBytes(pending, result.value);
+				const boundary = lastEventBoundary(bytes);
+				pending = bytes.subarray(boundary);
+				if (boundary > 0) {
+					controller.enqueue(bytes.subarray(0, boundary));
+					return;
+				}
+			}
+		},
+		cancel(reason) {
+			return reader.cancel(reason);
+		},
+	});
+
+	return new Response(body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: response.headers,
+	});
+}
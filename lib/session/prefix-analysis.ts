@@ -0,0 +1,168 @@
+/**
+ * Prefix change analysis
+ *
+ * When an incoming input stops extending the cached one, the session manager forks the prompt
+ * cache. These helpers work out why: pruned history (and how many tool items went with it), a
+ * changed system prompt, or an edited user message.
+ */
+
+import { createHash } from "node:crypto";
+import type { InputItem, MessageRole } from "../types.js";
+import { isMessageFrom, isMessageItem, isToolCallItem, isToolOutputItem } from "../utils/response-items.js";
+
+function itemsEqual(a: InputItem | undefined, b: InputItem | undefined): boolean {
+	try {
+		return JSON.stringify(a) === JSON.stringify(b);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Count the leading items two inputs share
+ * @param previous - Input of the last request
+ * @param current - Incoming input
+ * @returns Length of the shared prefix
+ */
+export function longestSharedPrefixLength(previous: InputItem[], current: InputItem[]): number {
+	if (previous.length === 0 || current.length === 0) {
+		return 0;
+	}
+
+	const limit = Math.min(previous.length, current.length);
+	let length = 0;
+
+	for (let i = 0; i < limit; i += 1) {
+		if (!itemsEqual(previous[i], current[i])) {
+			break;
+		}
+		length += 1;
+	}
+
+	return length;
+}
+
+function isSystemLike(item: InputItem | undefined): boolean {
+	return isMessageFrom(item, "developer", "system");
+}
+
+function isToolMessage(item: InputItem | undefined): boolean {
+	return isToolCallItem(item) || isToolOutputItem(item);
+}
+
+function roleOf(item: InputItem | undefined): MessageRole | undefined {
+	return isMessageItem(item) ? item.role : undefined;
+}
+
+function fingerprintInputItem(item: InputItem | undefined): string | undefined {
+	if (!item) return undefined;
+	try {
+		return createHash("sha1").update(JSON.stringify(item)).digest("hex").slice(0, 8);
+	} catch {
+		return undefined;
+	}
+}
+
+function summarizeRoles(items: InputItem[]): MessageRole[] {
+	const roles = new Set<MessageRole>();
+	for (const item of items) {
+		const role = roleOf(item);
+		if (role) {
+			roles.add(role);
+		}
+	}
+	return Array.from(roles);
+}
+
+function findSuffixReuseStart(previous: InputItem[], current: InputItem[]): number | null {
+	if (previous.length === 0 || current.length === 0 || current.length > previous.length) {
+		return null;
+	}
+	const start = previous.length - current.length;
+	for (let index = 0; index < current.length; index += 1) {
+		const prevItem = previous[start + index];
+		if (!itemsEqual(prevItem, current[index])) {
+			return null;
+		}
+	}
+	return start;
+}
+
+export type PrefixChangeCause =
+	| "system_prompt_changed"
+	| "history_pruned"
+	| "user_message_changed"
+	| "unknown";
+
+export type PrefixChangeAnalysis = {
+	cause: PrefixChangeCause;
+	details: Record<string, unknown>;
+};
+
+/**
+ * Explain why an incoming input no longer extends the previous one
+ * @param previous - Input of the last request
+ * @param current - Incoming input
+ * @param sharedPrefixLength - Leading items both inputs share
+ * @returns Likely cause and details for the debug log
+ */
+export function analyzePrefixChange(
+	previous: InputItem[],
+	current: InputItem[],
+	sharedPrefixLength: number,
+): PrefixChangeAnalysis {
+	const firstPrevious = previous[sharedPrefixLength];
+	const firstIncoming = current[sharedPrefixLength];
+	const suffixReuseStart = findSuffixReuseStart(previous, current);
+	const removedSegment =
+		suffixReuseStart !== null && suffixReuseStart > 0 ? previous.slice(0, suffixReuseStart) : [];
+	const removedToolCount = removedSegment.filter((item) => isToolMessage(item)).length;
+
+	if (suffixReuseStart !== null && removedSegment.length > 0) {
+		return {
+			cause: "history_pruned",
+			details: {
+				mismatchIndex: sharedPrefixLength,
+				suffixReuseStart,
+				removedCount: removedSegment.length,
+				removedToolCount,
+				removedRoles: summarizeRoles(removedSegment),
+			},
+		};
+	}
+
+	if (isSystemLike(firstPrevious) || isSystemLike(firstIncoming)) {
+		return {
+			cause: "system_prompt_changed",
+			details: {
+				mismatchIndex: sharedPrefixLength,
+				previousRole: roleOf(firstPrevious),
+				incomingRole: roleOf(firstIncoming),
+				previousFingerprint: fingerprintInputItem(firstPrevious),
+				incomingFingerprint: fingerprintInputItem(firstIncoming),
+			},
+		};
+	}
+
+	if (isMessageFrom(firstPrevious, "user") && isMessageFrom(firstIncoming, "user")) {
+		return {
+			cause: "user_message_changed",
+			details: {
+				mismatchIndex: sharedPrefixLength,
+				previousFingerprint: fingerprintInputItem(firstPrevious),
+				incomingFingerprint: fingerprintInputItem(firstIncoming),
+				previousRole: firstPrevious.role,
+				incomingRole: firstIncoming.role,
+			},
+		};
+	}
+
+	return {
+		cause: "unknown",
+		details: {
+			mismatchIndex: sharedPrefixLength,
+			previousRole: roleOf(firstPrevious),
+			incomingRole: roleOf(firstIncoming),
+		},
+	};
+}
@@ -1,4 +1,5 @@
 import { logDebug } from "../logger.js";
+import { observeSseEvents, parseSseEventData, type SseEvent } from "../request/sse-parser.js";
 import type { CodexResponsePayload, SessionContext } from "../types.js";
 import type { SessionManager } from "./session-manager.js";
 
@@ -20,24 +21,53 @@ export function isCodexResponsePayload(payload: unknown): payload is CodexRespon
 		return false;
 	}
 
+	const details = (usage as { input_tokens_details?: unknown } | undefined)?.input_tokens_details;
+	if (details !== undefined && details !== null) {
+		if (typeof details !== "object") return false;
+		const nestedCached = (details as Record<string, unknown>).cached_tokens;
+		if (nestedCached !== undefined && typeof nestedCached !== "number") return false;
+	}
+
 	return true;
 }
 
-export async function recordSessionResponseFromHandledResponse(options: {
+interface RecordResponseOptions {
 	sessionManager: Pick<SessionManager, "recordResponse">;
 	sessionContext: SessionContext | undefined;
 	handledResponse: Response;
-}): Promise<void> {
-	const { sessionManager, sessionContext, handledResponse } = options;
+	/** Receives every completed payload, with or without a prompt-cache session (e.g. the usage ledger) */
+	onResponse?: (payload: CodexResponsePayload) => void;
+}
+
+function createPayloadHandler(
+	options: RecordResponseOptions,
+): ((payload: CodexResponsePayload) => void) | undefined {
+	const { sessionManager, sessionContext, onResponse } = options;
+	if (!sessionContext?.enabled && !onResponse) return undefined;
+	return (payload) => {
+		if (sessionContext) sessionManager.recordResponse(sessionContext, payload);
+		onResponse?.(payload);
+	};
+}
 
-	if (!sessionContext || !handledResponse.headers.get("content-type")?.includes("application/json")) {
+export async function recordSessionResponseFromHandledResponse(
+	options: RecordResponseOptions,
+): Promise<void> {
+	const { handledResponse } = options;
+	const handlePayload = createPayloadHandler(options);
+
+	if (
+		!handlePayload ||
+		!handledResponse.ok ||
+		!handledResponse.headers.get("content-type")?.includes("application/json")
+	) {
 		return;
 	}
 
 	try {
 		const payload = (await handledResponse.clone().json()) as unknown;
 		if (isCodexResponsePayload(payload)) {
-			sessionManager.recordResponse(sessionContext, payload);
+			handlePayload(payload);
 		}
 	} catch (error) {
 		logDebug("SessionManager: failed to parse response payload", {
@@ -45,3 +75,49 @@ export async function recordSessionResponseFromHandledResponse(options: {
 		});
 	}
 }
+
+/**
+ * Record usage from a streamed (SSE) response without holding up the stream
+ * The body is piped through a pass-through observer that records the `response.completed` payload
+ * as it reaches opencode. There is no second reader, so cancelling the body still cancels upstream.
+ * @returns Response to hand to opencode (the original one when there is nothing to observe)
+ */
+export function observeSessionResponseStream(options: RecordResponseOptions): Response {
+	const { handledResponse } = options;
+	const handlePayload = createPayloadHandler(options);
+
+	if (
+		!handlePayload ||
+		!handledResponse.ok ||
+		!handledResponse.body ||
+		!handledResponse.headers.get("content-type")?.includes("text/event-stream")
+	) {
+		return handledResponse;
+	}
+
+	return new Response(
+		handledResponse.body.pipeThrough(observeSseEvents(createCompletedObserver(handlePayload))),
+		{
+			status: handledResponse.status,
+			statusText: handledResponse.statusText,
+			headers: handledResponse.headers,
+		},
+	);
+}
+
+function createCompletedObserver(
+	onCompleted: (payload: CodexResponsePayload) => void,
+): (event: SseEvent) => void {
+	return (event) => {
+		const data = parseSseEventData(event);
+		if (data?.type !== "response.completed" || !isCodexResponsePayload(data.response)) return;
+		try {
+			onCompleted(data.response);
+		} catch (error) {
+			// Recording must never break the stream opencode is reading
+			logDebug("SessionManager: failed to record streamed response", {
+				error: (error as Error).message,
+			});
+		}
+	};
+}
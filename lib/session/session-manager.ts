@@ -4,6 +4,7 @@ import { logDebug, logWarn } from "../logger.js";
 import { PROMPT_CACHE_FORK_KEYS } from "../request/prompt-cache.js";
 import type { CodexResponsePayload, InputItem, RequestBody, SessionContext, SessionState } from "../types.js";
 import { cloneInputItems } from "../utils/clone.js";
+import { analyzePrefixChange, longestSharedPrefixLength } from "./prefix-analysis.js";
 
 export interface SessionManagerOptions {
 	enabled: boolean;
@@ -23,32 +24,6 @@ function computeHash(items: InputItem[]): string {
 	}
 }
 
-function itemsEqual(a: InputItem | undefined, b: InputItem | undefined): boolean {
-	try {
-		return JSON.stringify(a) === JSON.stringify(b);
-	} catch {
-		return false;
-	}
-}
-
-function longestSharedPrefixLength(previous: InputItem[], current: InputItem[]): number {
-	if (previous.length === 0 || current.length === 0) {
-		return 0;
-	}
-
-	const limit = Math.min(previous.length, current.length);
-	let length = 0;
-
-	for (let i = 0; i < limit; i += 1) {
-		if (!itemsEqual(previous[i], current[i])) {
-			break;
-		}
-		length += 1;
-	}
-
-	return length;
-}
-
 function sanitizeCacheKey(candidate: string): string {
 	const trimmed = candidate.trim();
 	if (trimmed.length === 0) {
@@ -57,131 +32,6 @@ function sanitizeCacheKey(candidate: string): string {
 	return trimmed;
 }
 
-function isSystemLike(item: InputItem | undefined): boolean {
-	if (!item || typeof item.role !== "string") {
-		return false;
-	}
-	const role = item.role.toLowerCase();
-	return role === "system" || role === "developer";
-}
-
-function isToolMessage(item: InputItem | undefined): boolean {
-	if (!item) return false;
-	const role = typeof item.role === "string" ? item.role.toLowerCase() : "";
-	const type = typeof item.type === "string" ? item.type.toLowerCase() : "";
-	const hasToolCall =
-		"tool_call_id" in (item as Record<string, unknown>) || "tool_calls" in (item as Record<string, unknown>);
-	return (
-		role === "tool" ||
-		type === "tool" ||
-		type === "tool_call" ||
-		type === "tool_result" ||
-		type === "function" ||
-		hasToolCall
-	);
-}
-
-function fingerprintInputItem(item: InputItem | undefined): string | undefined {
-	if (!item) return undefined;
-	try {
-		return createHash("sha1").update(JSON.stringify(item)).digest("hex").slice(0, 8);
-	} catch {
-		return undefined;
-	}
-}
-
-function summarizeRoles(items: InputItem[]): string[] {
-	const roles = new Set<string>();
-	for (const item of items) {
-		if (typeof item.role === "string" && item.role.trim()) {
-			roles.add(item.role);
-		}
-	}
-	return Array.from(roles);
-}
-
-function findSuffixReuseStart(previous: InputItem[], current: InputItem[]): number | null {
-	if (previous.length === 0 || current.length === 0 || current.length > previous.length) {
-		return null;
-	}
-	const start = previous.length - current.length;
-	for (let index = 0; index < current.length; index += 1) {
-		const prevItem = previous[start + index];
-		if (!itemsEqual(prevItem, current[index])) {
-			return null;
-		}
-	}
-	return start;
-}
-
-type PrefixChangeCause = "system_prompt_changed" | "history_pruned" | "user_message_changed" | "unknown";
-
-type PrefixChangeAnalysis = {
-	cause: PrefixChangeCause;
-	details: Record<string, unknown>;
-};
-
-function analyzePrefixChange(
-	previous: InputItem[],
-	current: InputItem[],
-	sharedPrefixLength: number,
-): PrefixChangeAnalysis {
-	const firstPrevious = previous[sharedPrefixLength];
-	const firstIncoming = current[sharedPrefixLength];
-	const suffixReuseStart = findSuffixReuseStart(previous, current);
-	const removedSegment =
-		suffixReuseStart !== null && suffixReuseStart > 0 ? previous.slice(0, suffixReuseStart) : [];
-	const removedToolCount = removedSegment.filter((item) => isToolMessage(item)).length;
-
-	if (suffixReuseStart !== null && removedSegment.length > 0) {
-		return {
-			cause: "history_pruned",
-			details: {
-				mismatchIndex: sharedPrefixLength,
-				suffixReuseStart,
-				removedCount: removedSegment.length,
-				removedToolCount,
-				removedRoles: summarizeRoles(removedSegment),
-			},
-		};
-	}
-
-	if (isSystemLike(firstPrevious) || isSystemLike(firstIncoming)) {
-		return {
-			cause: "system_prompt_changed",
-			details: {
-				mismatchIndex: sharedPrefixLength,
-				previousRole: firstPrevious?.role,
-				incomingRole: firstIncoming?.role,
-				previousFingerprint: fingerprintInputItem(firstPrevious),
-				incomingFingerprint: fingerprintInputItem(firstIncoming),
-			},
-		};
-	}
-
-	if (firstPrevious?.role === "user" && firstIncoming?.role === "user") {
-		return {
-			cause: "user_message_changed",
-			details: {
-				mismatchIndex: sharedPrefixLength,
-				previousFingerprint: fingerprintInputItem(firstPrevious),
-				incomingFingerprint: fingerprintInputItem(firstIncoming),
-				previousRole: firstPrevious.role,
-				incomingRole: firstIncoming.role,
-			},
-		};
-	}
-
-	return {
-		cause: "unknown",
-		details: {
-			mismatchIndex: sharedPrefixLength,
-			previousRole: firstPrevious?.role,
-			incomingRole: firstIncoming?.role,
-		},
-	};
-}
-
 function buildPrefixForkIds(
 	baseSessionId: string,
 	basePromptCacheKey: string,
@@ -450,6 +300,7 @@ export class SessionManager {
 				lastUpdated: Date.now(),
 				lastCachedTokens: state.lastCachedTokens,
 				bridgeInjected: state.bridgeInjected,
+				contextTrimTurns: state.contextTrimTurns,
 			};
 
 			this.sessions.set(forkSessionId, forkState);
@@ -497,7 +348,7 @@ export class SessionManager {
 		}
 
 		const state = context.state;
-		const cachedTokens = payload.usage?.cached_tokens;
+		const cachedTokens = payload.usage?.cached_tokens ?? payload.usage?.input_tokens_details?.cached_tokens;
 		if (typeof cachedTokens === "number") {
 			state.lastCachedTokens = cachedTokens;
 			logDebug("SessionManager: response usage", {
@@ -552,6 +403,13 @@ export class SessionManager {
 		this.resetSessionInternal(sessionId);
 	}
 
+	/**
+	 * Drop every tracked session (e.g. after logout) so no state outlives the credentials
+	 */
+	public clear(): void {
+		this.sessions.clear();
+	}
+
 	private pruneSessions(now = Date.now()): void {
 		if (!this.options.enabled) {
 			return;
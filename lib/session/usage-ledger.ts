@@ -0,0 +1,165 @@
+/**
+ * Local token usage ledger
+ *
+ * Appends one JSONL record per completed response so subscription usage can be broken down by
+ * project and model across opencode sessions.
+ */
+
+import { appendFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { logWarn } from "../logger.js";
+import type { CodexResponsePayload, RequestBody } from "../types.js";
+import { ensureDirectory, getOpenCodePath, safeReadFile } from "../utils/file-system-utils.js";
+
+const USAGE_LEDGER_PATH = getOpenCodePath("openhax-codex-usage.jsonl");
+
+export interface UsageRecord {
+	/** ISO timestamp of the completed response */
+	timestamp: string;
+	/** Project directory opencode was started in */
+	project: string;
+	model: string;
+	effort?: string;
+	promptCacheKey?: string;
+	inputTokens: number;
+	cachedTokens: number;
+	outputTokens: number;
+	reasoningTokens: number;
+}
+
+/**
+ * Request details the ledger stores next to the response usage
+ */
+export interface UsageRequestInfo {
+	project: string;
+	model: string;
+	effort?: string;
+	promptCacheKey?: string;
+}
+
+/**
+ * Describe a transformed request for its ledger record
+ * @param body - Body that was sent upstream
+ * @param project - Project directory (defaults to the process working directory)
+ * @returns Request details
+ */
+export function describeUsageRequest(body: RequestBody | undefined, project?: string): UsageRequestInfo {
+	return {
+		project: project ?? process.cwd(),
+		model: body?.model ?? "unknown",
+		effort: body?.reasoning?.effort,
+		promptCacheKey: body?.prompt_cache_key,
+	};
+}
+
+function toCount(value: unknown): number {
+	return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+function isUsageRecord(value: unknown): value is UsageRecord {
+	if (!value || typeof value !== "object") return false;
+	const candidate = value as Record<string, unknown>;
+	return (
+		typeof candidate.timestamp === "string" &&
+		typeof candidate.model === "string" &&
+		typeof candidate.inputTokens === "number"
+	);
+}
+
+/**
+ * Build a ledger record from a completed response
+ * @param info - Project and request details
+ * @param payload - `response.completed` payload (or the converted JSON response)
+ * @param now - Current timestamp
+ * @returns Record, or undefined when the response carries no usage
+ */
+export function createUsageRecord(
+	info: UsageRequestInfo,
+	payload: CodexResponsePayload,
+	now: number = Date.now(),
+): UsageRecord | undefined {
+	const usage = payload.usage;
+	if (!usage) return undefined;
+	return {
+		timestamp: new Date(now).toISOString(),
+		project: info.project,
+		model: info.model,
+		effort: info.effort,
+		promptCacheKey: info.promptCacheKey,
+		inputTokens: toCount(usage.input_tokens),
+		cachedTokens: toCount(usage.input_tokens_details?.cached_tokens ?? usage.cached_tokens),
+		outputTokens: toCount(usage.output_tokens),
+		reasoningTokens: toCount(usage.output_tokens_details?.reasoning_tokens),
+	};
+}
+
+export class UsageLedger {
+	private readonly filePath: string;
+
+	/** Appends in flight, chained so records keep their order */
+	private pending: Promise<void> = Promise.resolve();
+
+	constructor(options: { filePath?: string } = {}) {
+		this.filePath = options.filePath ?? USAGE_LEDGER_PATH;
+	}
+
+	/**
+	 * Queue a record for appending; failures are logged and never reach the request
+	 * @param record - Usage record
+	 */
+	public append(record: UsageRecord): void {
+		this.pending = this.pending.then(async () => {
+			try {
+				ensureDirectory(dirname(this.filePath));
+				await appendFile(this.filePath, `${JSON.stringify(record)}\n`, { encoding: "utf8", mode: 0o600 });
+			} catch (error) {
+				logWarn("Failed to append Codex usage record", {
+					filePath: this.filePath,
+					error: (error as Error).message,
+				});
+			}
+		});
+	}
+
+	/**
+	 * Bind request details to a callback that records a completed response
+	 * @param info - Project and request details
+	 * @returns Callback for the response recorder
+	 */
+	public createRecorder(info: UsageRequestInfo): (payload: CodexResponsePayload) => void {
+		return (payload) => {
+			const record = createUsageRecord(info, payload);
+			if (record) this.append(record);
+		};
+	}
+
+	/**
+	 * Wait for queued appends (used before reporting and in tests)
+	 */
+	public flush(): Promise<void> {
+		return this.pending;
+	}
+
+	/**
+	 * Read records, skipping lines that fail to parse
+	 * @param since - Only return records at or after this timestamp
+	 * @returns Records in file order
+	 */
+	public read(since = 0): UsageRecord[] {
+		const raw = safeReadFile(this.filePath);
+		if (!raw) return [];
+		const records: UsageRecord[] = [];
+		for (const line of raw.split("\n")) {
+			if (!line.trim()) continue;
+			try {
+				const parsed = JSON.parse(line) as unknown;
+				if (isUsageRecord(parsed) && Date.parse(parsed.timestamp) >= since) {
+					records.push(parsed);
+				}
+			} catch {
+				// A torn final line from a crash shouldn't hide the rest of the ledger
+			}
+		}
+		return records;
+	}
+}
@@ -0,0 +1,364 @@
+/**
+ * Local mock of the Codex backend
+ *
+ * Serves `/backend-api/codex/responses` with scripted SSE sequences so the plugin can be exercised
+ * offline: point `codexBaseUrl` (or `CODEX_BASE_URL`) at the server and every request is answered
+ * by the next queued scenario. Requests are checked for the headers `createCodexHeaders` sets.
+ */
+
+import { randomUUID } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Hono } from "hono";
+import { OPENAI_HEADER_VALUES, OPENAI_HEADERS } from "../constants.js";
+
+/**
+ * One scripted answer
+ * - `text`: assistant message streamed in deltas
+ * - `tool_call`: a single function call
+ * - `failed`: stream that ends with `response.failed`
+ * - `usage_limit`: 429 `usage_limit_reached` error with rate-limit headers
+ * - `error`: any other HTTP error
+ * - `stall`: sends `response.created` (unless `silent`) and then nothing, to trip stream timeouts
+ */
+export type MockScenario =
+	| { type: "text"; text: string; chunkSize?: number }
+	| { type: "tool_call"; name: string; arguments: string; callId?: string }
+	| { type: "failed"; code?: string; message?: string }
+	| { type: "usage_limit"; resetsAt?: number; planType?: string }
+	| { type: "error"; status: number; body?: unknown }
+	| { type: "stall"; silent?: boolean };
+
+export interface MockRateLimits {
+	primaryUsedPercent?: number;
+	secondaryUsedPercent?: number;
+}
+
+export interface MockRequestRecord {
+	headers: Record<string, string>;
+	body: Record<string, unknown>;
+}
+
+export interface MockCodexBackendOptions {
+	/** Scenarios answered in order */
+	scenarios?: MockScenario[];
+	/** Answer once the queue is empty (defaults to a short text reply) */
+	defaultScenario?: MockScenario;
+	/** Usage reported in `x-codex-*` headers on every response */
+	rateLimits?: MockRateLimits;
+}
+
+export interface MockCodexBackend {
+	app: Hono;
+	/** Requests received so far, oldest first */
+	requests: MockRequestRecord[];
+	/** Queue more scenarios */
+	enqueue(...scenarios: MockScenario[]): void;
+}
+
+export interface RunningMockCodexBackend extends MockCodexBackend {
+	/** Base URL to use in place of https://chatgpt.com/backend-api */
+	baseUrl: string;
+	close(): Promise<void>;
+}
+
+const RESPONSES_PATH = "/backend-api/codex/responses";
+const DEFAULT_SCENARIO: MockScenario = { type: "text", text: "Hello from the mock Codex backend." };
+const encoder = new TextEncoder();
+
+function jsonError(status: number, body: unknown, headers: Headers = new Headers()): Response {
+	headers.set("content-type", "application/json; charset=utf-8");
+	return new Response(JSON.stringify(body), { status, headers });
+}
+
+/**
+ * Check the headers the plugin sets for the ChatGPT backend
+ * @param headers - Incoming request headers
+ * @returns Error response, or undefined when the request looks like one from `createCodexHeaders`
+ */
+function validateCodexHeaders(headers: Headers): Response | undefined {
+	if (!/^Bearer \S+/.test(headers.get("authorization") ?? "")) {
+		return jsonError(401, { error: { code: "invalid_api_key", message: "Missing bearer token" } });
+	}
+	const problems = [
+		!headers.get(OPENAI_HEADERS.ACCOUNT_ID) && `missing ${OPENAI_HEADERS.ACCOUNT_ID}`,
+		headers.get(OPENAI_HEADERS.BETA) !== OPENAI_HEADER_VALUES.BETA_RESPONSES && `bad ${OPENAI_HEADERS.BETA}`,
+		headers.get(OPENAI_HEADERS.ORIGINATOR) !== OPENAI_HEADER_VALUES.ORIGINATOR_CODEX &&
+			`bad ${OPENAI_HEADERS.ORIGINATOR}`,
+		headers.get(OPENAI_HEADERS.SESSION_ID) !== headers.get(OPENAI_HEADERS.CONVERSATION_ID) &&
+			`${OPENAI_HEADERS.SESSION_ID} and ${OPENAI_HEADERS.CONVERSATION_ID} differ`,
+		!(headers.get("accept") ?? "").includes("text/event-stream") && "accept must include text/event-stream",
+	].filter((problem): problem is string => typeof problem === "string");
+	if (problems.length === 0) return undefined;
+	return jsonError(400, { error: { code: "invalid_headers", message: problems.join("; ") } });
+}
+
+function createRateLimitHeaders(rateLimits: MockRateLimits | undefined, resetsAt: number): Headers {
+	const headers = new Headers();
+	if (rateLimits?.primaryUsedPercent !== undefined) {
+		headers.set("x-codex-primary-used-percent", String(rateLimits.primaryUsedPercent));
+		headers.set("x-codex-primary-window-minutes", "300");
+		headers.set("x-codex-primary-reset-at", String(resetsAt));
+	}
+	if (rateLimits?.secondaryUsedPercent !== undefined) {
+		headers.set("x-codex-secondary-used-percent", String(rateLimits.secondaryUsedPercent));
+		headers.set("x-codex-secondary-window-minutes", "10080");
+		headers.set("x-codex-secondary-reset-at", String(resetsAt + 7 * 24 * 60 * 60));
+	}
+	return headers;
+}
+
+function sseEvent(event: Record<string, unknown>): string {
+	return `event: ${String(event.type)}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function chunkText(text: string, size: number): string[] {
+	const chunks: string[] = [];
+	for (let index = 0; index < text.length; index += size) {
+		chunks.push(text.slice(index, index + size));
+	}
+	return chunks.length > 0 ? chunks : [""];
+}
+
+/**
+ * Build the SSE events for a streamed scenario
+ * @param scenario - Text, tool-call or failed scenario
+ * @param model - Model from the request body
+ * @returns Events in stream order
+ */
+function buildScenarioEvents(
+	scenario: Extract<MockScenario, { type: "text" | "tool_call" | "failed" }>,
+	model: string,
+): Array<Record<string, unknown>> {
+	const id = `resp_mock_${randomUUID()}`;
+	const base = { id, object: "response", created_at: Math.floor(Date.now() / 1000), model };
+	const created = { type: "response.created", response: { ...base, status: "in_progress" } };
+
+	if (scenario.type === "failed") {
+		const error = { code: scenario.code ?? "server_error", message: scenario.message ?? "Mock failure" };
+		return [created, { type: "response.failed", response: { ...base, status: "failed", error } }];
+	}
+
+	const usage = {
+		input_tokens: 100,
+		input_tokens_details: { cached_tokens: 0 },
+		output_tokens: 20,
+		output_tokens_details: { reasoning_tokens: 0 },
+		total_tokens: 120,
+	};
+
+	if (scenario.type === "tool_call") {
+		const item = {
+			id: `fc_${randomUUID()}`,
+			type: "function_call",
+			status: "completed",
+			call_id: scenario.callId ?? `call_${randomUUID()}`,
+			name: scenario.name,
+			arguments: scenario.arguments,
+		};
+		return [
+			created,
+			{ type: "response.output_item.added", output_index: 0, item: { ...item, arguments: "" } },
+			{
+				type: "response.function_call_arguments.delta",
+				output_index: 0,
+				item_id: item.id,
+				delta: item.arguments,
+			},
+			{
+				type: "response.function_call_arguments.done",
+				output_index: 0,
+				item_id: item.id,
+				arguments: item.arguments,
+			},
+			{ type: "response.output_item.done", output_index: 0, item },
+			{ type: "response.completed", response: { ...base, status: "completed", output: [item], usage } },
+		];
+	}
+
+	const message = {
+		id: `msg_${randomUUID()}`,
+		type: "message",
+		role: "assistant",
+		status: "completed",
+		content: [{ type: "output_text", text: scenario.text, annotations: [] }],
+	};
+	const deltas = chunkText(scenario.text, scenario.chunkSize ?? 16).map((delta) => ({
+		type: "response.output_text.delta",
+		output_index: 0,
+		content_index: 0,
+		item_id: message.id,
+		delta,
+	}));
+	return [
+		created,
+		{ type: "response.output_item.added", output_index: 0, item: { ...message, content: [] } },
+		...deltas,
+		{ type: "response.output_item.done", output_index: 0, item: message },
+		{ type: "response.completed", response: { ...base, status: "completed", output: [message], usage } },
+	];
+}
+
+function streamEvents(events: Array<Record<string, unknown>>, headers: Headers, keepOpen: boolean): Response {
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const event of events) {
+				controller.enqueue(encoder.encode(sseEvent(event)));
+			}
+			if (!keepOpen) controller.close();
+		},
+	});
+	headers.set("content-type", "text/event-stream; charset=utf-8");
+	headers.set("cache-control", "no-cache");
+	return new Response(body, { status: 200, headers });
+}
+
+function respond(scenario: MockScenario, model: string, rateLimits: MockRateLimits | undefined): Response {
+	const resetsAt = Math.floor(Date.now() / 1000) + 60 * 60;
+	const headers = createRateLimitHeaders(rateLimits, resetsAt);
+
+	switch (scenario.type) {
+		case "usage_limit": {
+			const limitHeaders = createRateLimitHeaders(
+				{ primaryUsedPercent: 100, secondaryUsedPercent: rateLimits?.secondaryUsedPercent ?? 50 },
+				scenario.resetsAt ?? resetsAt,
+			);
+			return jsonError(
+				429,
+				{
+					error: {
+						type: "usage_limit_reached",
+						message: "The usage limit has been reached",
+						plan_type: scenario.planType ?? "plus",
+						resets_at: scenario.resetsAt ?? resetsAt,
+					},
+				},
+				limitHeaders,
+			);
+		}
+		case "error":
+			return jsonError(
+				scenario.status,
+				scenario.body ?? { error: { message: `Mock error ${scenario.status}` } },
+				headers,
+			);
+		case "stall": {
+			const created = { type: "response.created", response: { id: `resp_mock_${randomUUID()}`, model } };
+			return streamEvents(scenario.silent ? [] : [created], headers, true);
+		}
+		default:
+			return streamEvents(buildScenarioEvents(scenario, model), headers, false);
+	}
+}
+
+/**
+ * Create the mock backend as a Hono app (usable in-process via `app.request`)
+ * @param options - Scripted scenarios and reported usage
+ * @returns App, request log and scenario queue
+ */
+export function createMockCodexBackend(options: MockCodexBackendOptions = {}): MockCodexBackend {
+	const queue = [...(options.scenarios ?? [])];
+	const requests: MockRequestRecord[] = [];
+	const app = new Hono();
+
+	app.post(RESPONSES_PATH, async (c) => {
+		const headers = c.req.raw.headers;
+		const body = (await c.req.json().catch(() => undefined)) as Record<string, unknown> | undefined;
+		requests.push({ headers: Object.fromEntries(headers.entries()), body: body ?? {} });
+
+		const invalid = validateCodexHeaders(headers);
+		if (invalid) return invalid;
+		if (!body || typeof body.model !== "string" || !Array.isArray(body.input)) {
+			return jsonError(400, { error: { code: "invalid_request", message: "Expected model and input" } });
+		}
+		if (body.stream !== true) {
+			return jsonError(400, { error: { code: "invalid_request", message: "Codex requires stream: true" } });
+		}
+		const scenario = queue.shift() ?? options.defaultScenario ?? DEFAULT_SCENARIO;
+		return respond(scenario, body.model, options.rateLimits);
+	});
+
+	return {
+		app,
+		requests,
+		enqueue: (...scenarios) => {
+			queue.push(...scenarios);
+		},
+	};
+}
+
+async function toRequest(req: IncomingMessage, origin: string, signal: AbortSignal): Promise<Request> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of req) {
+		chunks.push(chunk as Buffer);
+	}
+	const headers = new Headers();
+	for (const [name, value] of Object.entries(req.headers)) {
+		if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+	}
+	const hasBody = req.method !== "GET" && req.method !== "HEAD" && chunks.length > 0;
+	return new Request(new URL(req.url ?? "/", origin), {
+		method: req.method,
+		headers,
+		body: hasBody ? Buffer.concat(chunks) : undefined,
+		signal,
+	});
+}
+
+async function writeResponse(res: ServerResponse, response: Response): Promise<void> {
+	res.writeHead(response.status, Object.fromEntries(response.headers.entries()));
+	if (!response.body) {
+		res.end();
+		return;
+	}
+	const reader = response.body.getReader();
+	res.on("close", () => {
+		reader.cancel().catch(() => {});
+	});
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			res.write(value);
+		}
+	} finally {
+		res.end();
+	}
+}
+
+/**
+ * Serve the mock backend over HTTP on localhost
+ * @param options - Scenarios plus the port (defaults to a free one)
+ * @returns Running backend with its base URL
+ */
+export async function startMockCodexBackend(
+	options: MockCodexBackendOptions & { port?: number } = {},
+): Promise<RunningMockCodexBackend> {
+	const backend = createMockCodexBackend(options);
+	let origin = "";
+	const server = createServer((req, res) => {
+		const controller = new AbortController();
+		res.on("close", () => controller.abort());
+		toRequest(req, origin, controller.signal)
+			.then((request) => backend.app.fetch(request))
+			.then((response) => writeResponse(res, response))
+			.catch(() => {
+				if (!res.headersSent) res.writeHead(500);
+				res.end();
+			});
+	});
+
+	await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+	origin = `http://127.0.0.1:${port}`;
+
+	return {
+		...backend,
+		baseUrl: `${origin}/backend-api`,
+		close: () =>
+			new Promise<void>((resolve, reject) => {
+				server.closeAllConnections();
+				server.close((error) => (error ? reject(error) : resolve()));
+			}),
+	};
+}
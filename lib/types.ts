@@ -27,6 +27,142 @@ export interface PluginConfig {
 	 * Logging configuration that can override environment variables
 	 */
 	logging?: LoggingConfig;
+
+	/**
+	 * OAuth token refresh tuning (proactive refresh window and retry backoff)
+	 */
+	tokenRefresh?: TokenRefreshConfig;
+
+	/**
+	 * Browser login callback server settings
+	 */
+	oauth?: OAuthConfig;
+
+	/**
+	 * Retry policy for transient 429/5xx responses from the Codex backend
+	 */
+	retry?: RetryConfig;
+
+	/**
+	 * Per-account limit on concurrent upstream requests, with a FIFO queue for the rest
+	 */
+	concurrency?: ConcurrencyConfig;
+
+	/**
+	 * Connect, first-byte and idle timeouts for Codex requests and their SSE streams
+	 */
+	timeouts?: TimeoutConfig;
+
+	/**
+	 * ChatGPT workspace (account ID) sent in the `chatgpt-account-id` header
+	 * Overrides the workspace chosen during login; also preselected on the OpenAI login page
+	 */
+	workspaceId?: string;
+
+	/**
+	 * Ordered model chain to fall back through when a model hits its usage limit
+	 * e.g. ["gpt-5.1-codex-max", "gpt-5.1-codex", "gpt-5.1-codex-mini"] (default: no fallback)
+	 */
+	modelFallback?: string[];
+
+	/**
+	 * Usage percentages of a rate-limit window that raise a warning toast (default: [80, 95])
+	 * An empty list disables the warnings.
+	 */
+	rateLimitWarnings?: number[];
+
+	/**
+	 * Longest tool output, in characters, kept in the request history (default: 100000)
+	 * Longer outputs are replaced by a head/tail excerpt; 0 disables the cap.
+	 */
+	maxToolOutputChars?: number;
+
+	/**
+	 * Image attachment handling for user messages
+	 */
+	images?: ImageInputConfig;
+
+	/**
+	 * PDF and text file attachment handling for user messages
+	 */
+	files?: FileInputConfig;
+
+	/**
+	 * Base URL for the ChatGPT backend, e.g. a local mock server (default: https://chatgpt.com/backend-api)
+	 * The CODEX_BASE_URL environment variable takes precedence.
+	 */
+	codexBaseUrl?: string;
+
+	/**
+	 * Record Codex traffic to cassettes, or replay recorded cassettes instead of calling the network
+	 */
+	cassettes?: CassetteConfig;
+}
+
+export interface OAuthConfig {
+	/** Local port the callback server listens on (default: 1455, the port registered for the redirect URI) */
+	callbackPort?: number;
+	/** How long to wait for the browser redirect before failing (default: 60000) */
+	callbackTimeoutMs?: number;
+	/** RFC 7009 token revocation endpoint called by /codex-logout (default: none) */
+	revocationUrl?: string;
+}
+
+export interface TokenRefreshConfig {
+	/** Refresh this many milliseconds before the access token expires (default: 5 minutes) */
+	skewMs?: number;
+	/** Retries for transient refresh failures such as network errors or 5xx responses (default: 2) */
+	maxRetries?: number;
+	/** Base delay for exponential backoff between refresh retries (default: 500ms) */
+	backoffMs?: number;
+}
+
+export interface RetryConfig {
+	/** Total attempts per request including the first one; 1 disables retries (default: 3) */
+	maxAttempts?: number;
+	/** Base delay for jittered exponential backoff (default: 500ms) */
+	baseDelayMs?: number;
+	/** Longest wait before giving up; server hints beyond this are returned to the caller (default: 30000ms) */
+	maxDelayMs?: number;
+}
+
+export interface ConcurrencyConfig {
+	/** Upstream requests allowed in flight per account (default: 4; 0 disables the limit) */
+	maxInFlight?: number;
+	/** Longest a request waits in the queue before failing (default: 60000ms) */
+	maxQueueWaitMs?: number;
+}
+
+export interface ImageInputConfig {
+	/** Detail level requested for every image (default: backend default) */
+	detail?: "auto" | "low" | "high";
+	/** Largest inline image accepted, in bytes (default: 20971520) */
+	maxBytes?: number;
+	/** Longest side, in pixels, that inline PNG images are downscaled to (default: no downscaling) */
+	maxDimension?: number;
+}
+
+export interface FileInputConfig {
+	/** Largest file sent as an `input_file`; bigger files are sent as extracted text (default: 10485760) */
+	maxBytes?: number;
+	/** Longest extracted text sent in place of a large file (default: 100000) */
+	maxTextChars?: number;
+}
+
+export interface CassetteConfig {
+	/** "record" saves each request and its raw response; "replay" serves them without network access */
+	mode: "record" | "replay";
+	/** Cassette directory (default: ~/.opencode/openhax-codex-cassettes) */
+	dir?: string;
+}
+
+export interface TimeoutConfig {
+	/** Max wait for response headers, per attempt (default: 30000; 0 disables) */
+	connectMs?: number;
+	/** Max wait for the first stream chunk after the headers (default: 120000; 0 disables) */
+	firstByteMs?: number;
+	/** Max gap between stream chunks (default: 120000; 0 disables) */
+	idleMs?: number;
 }
 
 export interface LoggingConfig {
@@ -54,10 +190,20 @@ export interface UserConfig {
 	models: {
 		[modelName: string]: {
 			options?: ConfigOptions;
+			/** opencode model limits; `context - output` is the input budget for the context guard */
+			limit?: ModelLimit;
 		};
 	};
 }
 
+/**
+ * Token limits declared for a model in opencode.json
+ */
+export interface ModelLimit {
+	context?: number;
+	output?: number;
+}
+
 /**
  * Configuration options for reasoning and text settings
  */
@@ -76,6 +222,16 @@ export interface ReasoningConfig {
 	summary: "auto" | "concise" | "detailed";
 }
 
+/**
+ * OAuth callback server options
+ */
+export interface OAuthServerOptions {
+	state: string;
+	port?: number;
+	timeoutMs?: number;
+	signal?: AbortSignal;
+}
+
 /**
  * OAuth server information
  */
@@ -83,6 +239,18 @@ export interface OAuthServerInfo {
 	port: number;
 	close: () => void;
 	waitForCode: (_state?: string) => Promise<{ code: string } | null>;
+	/** Serve a workspace picker at /auth/workspace and resolve with the chosen ID (null on timeout/close) */
+	chooseWorkspace: (options: WorkspaceOption[]) => Promise<string | null>;
+}
+
+/**
+ * ChatGPT workspace a login can route requests to
+ */
+export interface WorkspaceOption {
+	id: string;
+	label: string;
+	/** Workspace carried by the access token's chatgpt_account_id claim */
+	isTokenDefault?: boolean;
 }
 
 /**
@@ -110,6 +278,8 @@ export interface TokenSuccess {
 	access: string;
 	refresh: string;
 	expires: number;
+	/** OpenID Connect id_token carrying email, plan and organization claims */
+	idToken?: string;
 }
 
 /**
@@ -117,13 +287,38 @@ export interface TokenSuccess {
  */
 export interface TokenFailure {
 	type: "failed";
+	/** Why the exchange or refresh failed, when known */
+	reason?: TokenFailureReason;
+	/** HTTP status returned by the token endpoint */
+	status?: number;
 }
 
+/**
+ * Token failure classification used to decide between retrying and asking for a new login
+ */
+export type TokenFailureReason = "invalid_grant" | "http_error" | "network_error" | "invalid_response";
+
 /**
  * Token exchange result
  */
 export type TokenResult = TokenSuccess | TokenFailure;
 
+/**
+ * ChatGPT account stored in the local account pool
+ */
+export interface PooledAccount {
+	accountId: string;
+	access: string;
+	refresh: string;
+	expires: number;
+	addedAt: number;
+	identity?: AccountIdentity;
+	/** Workspace picked during login when it differs from the token's account ID */
+	workspaceId?: string;
+	/** Epoch ms until which the account is skipped after hitting its usage limit */
+	exhaustedUntil?: number;
+}
+
 /**
  * Parsed authorization input
  */
@@ -136,23 +331,180 @@ export interface ParsedAuthInput {
  * JWT payload with ChatGPT account info
  */
 export interface JWTPayload {
+	email?: string;
+	exp?: number;
 	"https://api.openai.com/auth"?: {
 		chatgpt_account_id?: string;
+		chatgpt_plan_type?: string;
+		chatgpt_user_id?: string;
+		user_id?: string;
+		organizations?: Array<{
+			id?: string;
+			title?: string;
+			role?: string;
+			is_default?: boolean;
+		}>;
+	};
+	"https://api.openai.com/profile"?: {
+		email?: string;
 	};
 	[key: string]: unknown;
 }
 
 /**
- * Message input item
+ * Organization membership from the OpenAI id_token
+ */
+export interface AccountOrganization {
+	id: string;
+	title?: string;
+	role?: string;
+	isDefault?: boolean;
+}
+
+/**
+ * Identity details decoded from the OAuth id_token and access token claims
+ */
+export interface AccountIdentity {
+	email?: string;
+	/** ChatGPT subscription plan (e.g. plus, pro, team) */
+	planType?: string;
+	userId?: string;
+	organizations: AccountOrganization[];
+	/** Epoch ms when the id_token expires */
+	idTokenExpiresAt?: number;
+}
+
+/**
+ * Input item as received from the host, before validation
+ * Narrow it with the guards in utils/response-items.ts instead of reading fields directly.
  */
-export interface InputItem {
+export type InputItem = ResponseItem | UnknownItem;
+
+/**
+ * Item of a type the plugin does not model, passed through unchanged
+ */
+export interface UnknownItem {
+	type?: string;
 	id?: string;
-	type: string;
-	role: string;
-	content?: unknown;
 	[key: string]: unknown;
 }
 
+export type MessageRole = "user" | "assistant" | "system" | "developer";
+
+export interface InputTextPart {
+	type: "input_text";
+	text: string;
+}
+
+export interface OutputTextPart {
+	type: "output_text";
+	text: string;
+	annotations?: unknown[];
+}
+
+export interface RefusalPart {
+	type: "refusal";
+	refusal: string;
+}
+
+export interface InputImagePart {
+	type: "input_image";
+	image_url?: string;
+	file_id?: string;
+	detail?: "auto" | "low" | "high";
+}
+
+export interface InputFilePart {
+	type: "input_file";
+	filename?: string;
+	file_data?: string;
+	file_url?: string;
+	file_id?: string;
+}
+
+export type ContentPart = InputTextPart | OutputTextPart | RefusalPart | InputImagePart | InputFilePart;
+
+export interface MessageItem {
+	/** Optional in the easy input form */
+	type?: "message";
+	id?: string;
+	role: MessageRole;
+	/** Parts of unknown types are passed through untouched */
+	content: string | Array<ContentPart | { type: string; [key: string]: unknown }>;
+	status?: string;
+	[key: string]: unknown;
+}
+
+export interface FunctionCallItem {
+	type: "function_call";
+	id?: string;
+	call_id: string;
+	name: string;
+	/** JSON-encoded arguments */
+	arguments: string;
+	status?: string;
+	[key: string]: unknown;
+}
+
+export interface FunctionCallOutputItem {
+	type: "function_call_output";
+	id?: string;
+	call_id: string;
+	output: string | ContentPart[];
+	[key: string]: unknown;
+}
+
+export interface CustomToolCallItem {
+	type: "custom_tool_call";
+	id?: string;
+	call_id: string;
+	name: string;
+	/** Free-form tool input, e.g. an apply_patch body */
+	input: string;
+	status?: string;
+	[key: string]: unknown;
+}
+
+export interface CustomToolCallOutputItem {
+	type: "custom_tool_call_output";
+	id?: string;
+	call_id: string;
+	output: string | ContentPart[];
+	[key: string]: unknown;
+}
+
+export interface ReasoningItem {
+	type: "reasoning";
+	id?: string;
+	summary: Array<{ type: "summary_text"; text: string }>;
+	encrypted_content?: string | null;
+	content?: Array<{ type: "reasoning_text"; text: string }>;
+	[key: string]: unknown;
+}
+
+export interface ItemReference {
+	type: "item_reference";
+	/** The AI SDK sometimes sends references without one */
+	id?: string;
+	[key: string]: unknown;
+}
+
+/**
+ * Responses API input/output item the plugin understands
+ * Items of any other type are passed through unchanged (see utils/response-items.ts).
+ */
+export type ResponseItem =
+	| MessageItem
+	| FunctionCallItem
+	| FunctionCallOutputItem
+	| CustomToolCallItem
+	| CustomToolCallOutputItem
+	| ReasoningItem
+	| ItemReference;
+
+export type ToolCallItem = FunctionCallItem | CustomToolCallItem;
+export type ToolOutputItem = FunctionCallOutputItem | CustomToolCallOutputItem;
+
 /**
  * Request body structure
  */
@@ -201,6 +553,7 @@ export interface SessionState {
 	lastUpdated: number;
 	lastCachedTokens?: number;
 	bridgeInjected?: boolean; // Track whether Codex-OpenCode bridge prompt was added
+	contextTrimTurns?: number; // Oldest turns the context guard keeps dropping for this session
 }
 
 /**
@@ -220,6 +573,12 @@ export interface SessionContext {
 export interface CodexResponsePayload {
 	usage?: {
 		cached_tokens?: number;
+		input_tokens?: number;
+		output_tokens?: number;
+		total_tokens?: number;
+		/** Where the Responses API actually reports cached prompt tokens */
+		input_tokens_details?: { cached_tokens?: number; [k: string]: unknown };
+		output_tokens_details?: { reasoning_tokens?: number; [k: string]: unknown };
 		[k: string]: unknown;
 	};
 	output?: unknown[];
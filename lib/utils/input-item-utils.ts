@@ -5,11 +5,12 @@
  * Eliminates duplication across modules
  */
 
-import type { InputItem } from "../types.js";
+import type { InputItem, MessageItem, MessageRole } from "../types.js";
+import { isMessageFrom } from "./response-items.js";
 
 /**
  * Extract text content from an InputItem
- * Handles both string and array content formats
+ * Handles both string and array content formats; non-text parts are ignored
  * @param item - InputItem to extract text from
  * @returns Extracted text content
  */
@@ -18,8 +19,9 @@ export function extractTextFromItem(item: InputItem): string {
 		return item.content;
 	}
 	if (Array.isArray(item.content)) {
+		// Image and file parts carry no text and are skipped
 		return item.content
-			.filter((c) => c.type === "input_text" && c.text)
+			.filter((c) => c && typeof c === "object" && c.type === "input_text" && typeof c.text === "string")
 			.map((c) => c.text)
 			.join("\n");
 	}
@@ -62,7 +64,7 @@ export function formatEntry(role: string, text: string): string {
  * @returns True if item is a system/developer role
  */
 export function isSystemMessage(item: InputItem): boolean {
-	return item.role === "developer" || item.role === "system";
+	return isMessageFrom(item, "developer", "system");
 }
 
 /**
@@ -71,7 +73,7 @@ export function isSystemMessage(item: InputItem): boolean {
  * @returns True if item is a user role
  */
 export function isUserMessage(item: InputItem): boolean {
-	return item.role === "user";
+	return isMessageFrom(item, "user");
 }
 
 /**
@@ -80,7 +82,7 @@ export function isUserMessage(item: InputItem): boolean {
  * @returns True if item is an assistant role
  */
 export function isAssistantMessage(item: InputItem): boolean {
-	return item.role === "assistant";
+	return isMessageFrom(item, "assistant");
 }
 
 /**
@@ -89,8 +91,8 @@ export function isAssistantMessage(item: InputItem): boolean {
  * @param role - Role to filter by
  * @returns Filtered array of items
  */
-export function filterByRole(items: InputItem[], role: string): InputItem[] {
-	return items.filter((item) => item.role === role);
+export function filterByRole(items: InputItem[], role: MessageRole): MessageItem[] {
+	return items.filter((item): item is MessageItem => isMessageFrom(item, role));
 }
 
 /**
@@ -0,0 +1,187 @@
+/**
+ * Responses Item Validators
+ *
+ * Runtime guards for the item model in types.ts. Items arrive from the host as loosely typed JSON
+ * (the AI SDK even omits `type` on messages), so modules narrow them here instead of guessing at
+ * fields. Items that match none of the known shapes are passed through untouched.
+ */
+
+import { logDebug } from "../logger.js";
+import type {
+	ContentPart,
+	CustomToolCallItem,
+	CustomToolCallOutputItem,
+	FunctionCallItem,
+	FunctionCallOutputItem,
+	InputItem,
+	ItemReference,
+	MessageItem,
+	MessageRole,
+	ReasoningItem,
+	ResponseItem,
+	ToolCallItem,
+	ToolOutputItem,
+} from "../types.js";
+
+const MESSAGE_ROLES = new Set<string>(["user", "assistant", "system", "developer"]);
+
+/** Unknown item types already reported, so each is logged once per process */
+const reportedUnknownTypes = new Set<string>();
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+	return typeof value === "string";
+}
+
+/**
+ * Check a message content part
+ * @param value - Candidate content part
+ * @returns True for well-formed text, refusal, image and file parts
+ */
+export function isContentPart(value: unknown): value is ContentPart {
+	if (!isRecord(value)) return false;
+	switch (value.type) {
+		case "input_text":
+		case "output_text":
+			return isString(value.text);
+		case "refusal":
+			return isString(value.refusal);
+		case "input_image":
+			return isString(value.image_url) || isString(value.file_id);
+		case "input_file":
+			return isString(value.file_data) || isString(value.file_url) || isString(value.file_id);
+		default:
+			return false;
+	}
+}
+
+/**
+ * Check for an `input_text` or `output_text` part
+ * @param value - Candidate content part
+ * @returns True when the part carries model-visible text
+ */
+export function isTextPart(value: unknown): value is Extract<ContentPart, { text: string }> {
+	return isContentPart(value) && (value.type === "input_text" || value.type === "output_text");
+}
+
+/**
+ * Check for a message item (with or without the optional `type: "message"`)
+ * Content parts are not validated; unknown parts are passed through.
+ */
+export function isMessageItem(value: unknown): value is MessageItem {
+	if (!isRecord(value) || !MESSAGE_ROLES.has(value.role as string)) return false;
+	if (value.type !== undefined && value.type !== "message") return false;
+	return isString(value.content) || Array.isArray(value.content);
+}
+
+/**
+ * Check for a message item with the given role
+ * @param value - Candidate item
+ * @param roles - Accepted roles
+ * @returns True for a message sent by one of the roles
+ */
+export function isMessageFrom(value: unknown, ...roles: MessageRole[]): value is MessageItem {
+	return isMessageItem(value) && roles.includes(value.role);
+}
+
+export function isFunctionCallItem(value: unknown): value is FunctionCallItem {
+	return (
+		isRecord(value) &&
+		value.type === "function_call" &&
+		isString(value.call_id) &&
+		isString(value.name) &&
+		isString(value.arguments)
+	);
+}
+
+export function isCustomToolCallItem(value: unknown): value is CustomToolCallItem {
+	return (
+		isRecord(value) &&
+		value.type === "custom_tool_call" &&
+		isString(value.call_id) &&
+		isString(value.name) &&
+		isString(value.input)
+	);
+}
+
+function hasToolOutput(value: Record<string, unknown>): boolean {
+	return isString(value.call_id) && (isString(value.output) || Array.isArray(value.output));
+}
+
+export function isFunctionCallOutputItem(value: unknown): value is FunctionCallOutputItem {
+	return isRecord(value) && value.type === "function_call_output" && hasToolOutput(value);
+}
+
+export function isCustomToolCallOutputItem(value: unknown): value is CustomToolCallOutputItem {
+	return isRecord(value) && value.type === "custom_tool_call_output" && hasToolOutput(value);
+}
+
+export function isReasoningItem(value: unknown): value is ReasoningItem {
+	return isRecord(value) && value.type === "reasoning" && Array.isArray(value.summary);
+}
+
+export function isItemReference(value: unknown): value is ItemReference {
+	return isRecord(value) && value.type === "item_reference";
+}
+
+/**
+ * Check for a function or custom tool call
+ */
+export function isToolCallItem(value: unknown): value is ToolCallItem {
+	return isFunctionCallItem(value) || isCustomToolCallItem(value);
+}
+
+/**
+ * Check for the output of a function or custom tool call
+ */
+export function isToolOutputItem(value: unknown): value is ToolOutputItem {
+	return isFunctionCallOutputItem(value) || isCustomToolCallOutputItem(value);
+}
+
+const ITEM_VALIDATORS: Record<string, (value: unknown) => boolean> = {
+	message: isMessageItem,
+	function_call: isFunctionCallItem,
+	function_call_output: isFunctionCallOutputItem,
+	custom_tool_call: isCustomToolCallItem,
+	custom_tool_call_output: isCustomToolCallOutputItem,
+	reasoning: isReasoningItem,
+	item_reference: isItemReference,
+};
+
+/**
+ * Validate an item against the Responses item model
+ * @param value - Raw input or output item
+ * @returns The item typed as a ResponseItem, or undefined for unknown types and malformed items
+ */
+export function parseResponseItem(value: unknown): ResponseItem | undefined {
+	if (!isRecord(value)) return undefined;
+	const type = value.type === undefined ? "message" : value.type;
+	const validate = isString(type) ? ITEM_VALIDATORS[type] : undefined;
+	return validate?.(value) ? (value as ResponseItem) : undefined;
+}
+
+/**
+ * Get the call ID linking a tool call to its output
+ * @param item - Input item
+ * @returns call_id for tool calls and outputs, otherwise undefined
+ */
+export function getCallId(item: InputItem): string | undefined {
+	return isToolCallItem(item) || isToolOutputItem(item) ? item.call_id : undefined;
+}
+
+/**
+ * Hand an item that parseResponseItem rejected back unchanged, logging its type once
+ * @param item - Unrecognized or malformed item
+ * @returns The same item
+ */
+export function passThroughUnknownItem(item: InputItem): InputItem {
+	const type = typeof item.type === "string" ? item.type : "(none)";
+	if (!reportedUnknownTypes.has(type)) {
+		reportedUnknownTypes.add(type);
+		logDebug("Passing unrecognized Responses item through unchanged", { type, keys: Object.keys(item) });
+	}
+	return item;
+}
@@ -0,0 +1,29 @@
+#!/usr/bin/env node
+// Serve the mock Codex backend for offline development (`pnpm mock:backend` compiles it first; the published build leaves it out)
+import { startMockCodexBackend } from "../dist/lib/testing/mock-codex-backend.js";
+
+function getArg(flag, fallback) {
+  const idx = process.argv.indexOf(flag);
+  if (idx === -1) return fallback;
+  const value = process.argv[idx + 1];
+  if (!value || value.startsWith("-")) return true;
+  return value;
+}
+
+const port = Number(getArg("--port", 8787)) || 8787;
+const text = getArg("--text", undefined);
+
+const backend = await startMockCodexBackend({
+  port,
+  defaultScenario: typeof text === "string" ? { type: "text", text } : undefined,
+  rateLimits: { primaryUsedPercent: 10, secondaryUsedPercent: 5 },
+});
+
+console.log(`Mock Codex backend listening on ${backend.baseUrl}`);
+console.log(`Start opencode with CODEX_BASE_URL=${backend.baseUrl} to use it.`);
+
+const shutdown = () => {
+  backend.close().finally(() => process.exit(0));
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
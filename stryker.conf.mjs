@@ -4,6 +4,8 @@ const config = {
 		'index.ts',
 		'lib/**/*.ts',
 		'!lib/oauth-success.html',
+		'!lib/oauth-error.html',
+		'!lib/oauth-workspace.html',
 		'!lib/**/__mocks__/**/*.ts',
 		'!dist/**',
 	],
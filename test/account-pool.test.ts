@@ -0,0 +1,223 @@
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AccountPool, getAccountIdFromToken } from "../lib/auth/account-pool.js";
+
+const refreshAccessTokenMock = vi.hoisted(() => vi.fn());
+const syncCodexCliTokensMock = vi.hoisted(() => vi.fn());
+const lockQueue = vi.hoisted(() => ({ tail: Promise.resolve() as Promise<unknown> }));
+
+vi.mock("../lib/auth/auth.js", async () => {
+	const actual = await vi.importActual<typeof import("../lib/auth/auth.js")>("../lib/auth/auth.js");
+	return {
+		...actual,
+		refreshAccessToken: refreshAccessTokenMock,
+	};
+});
+
+vi.mock("../lib/auth/codex-cli-import.js", () => ({
+	syncCodexCliTokens: syncCodexCliTokensMock,
+}));
+
+// Serializes critical sections like the cross-process lock does
+vi.mock("../lib/auth/refresh-lock.js", () => ({
+	withRefreshLock: (fn: () => Promise<unknown>) => {
+		const run = lockQueue.tail.then(fn);
+		lockQueue.tail = run.catch(() => undefined);
+		return run;
+	},
+}));
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logDebug: vi.fn(),
+	logWarn: vi.fn(),
+}));
+
+function makeToken(accountId: string): string {
+	const header = Buffer.from(JSON.stringify({ alg: "none" })).toString("base64url");
+	const payload = Buffer.from(
+		JSON.stringify({ "https://api.openai.com/auth": { chatgpt_account_id: accountId } }),
+	).toString("base64url");
+	return `${header}.${payload}.sig`;
+}
+
+function tokensFor(accountId: string, expires = Date.now() + 60_000) {
+	return { type: "success" as const, access: makeToken(accountId), refresh: `refresh-${accountId}`, expires };
+}
+
+describe("AccountPool", () => {
+	let dir: string;
+	let filePath: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "codex-pool-"));
+		filePath = join(dir, "accounts.json");
+		refreshAccessTokenMock.mockReset();
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("extracts account IDs from access tokens", () => {
+		expect(getAccountIdFromToken(makeToken("acc-1"))).toBe("acc-1");
+		expect(getAccountIdFromToken("not-a-jwt")).toBeUndefined();
+	});
+
+	it("adds, updates, lists and removes accounts with private persistence", () => {
+		const pool = new AccountPool({ filePath });
+		pool.addFromTokens(tokensFor("acc-1"));
+		pool.addFromTokens(tokensFor("acc-2"));
+		const updated = tokensFor("acc-1", 42);
+		pool.addFromTokens(updated);
+
+		expect(pool.list().map((account) => account.accountId)).toEqual(["acc-1", "acc-2"]);
+		expect(pool.get("acc-1")?.expires).toBe(42);
+		expect(statSync(filePath).mode & 0o777).toBe(0o600);
+
+		const reloaded = new AccountPool({ filePath });
+		expect(reloaded.list()).toHaveLength(2);
+		expect(reloaded.remove("acc-2")?.accountId).toBe("acc-2");
+		expect(reloaded.remove("missing")).toBeUndefined();
+		expect(JSON.parse(readFileSync(filePath, "utf8")).accounts).toHaveLength(1);
+	});
+
+	it("stores identity claims and keeps id_token details across refreshes", () => {
+		const idToken = `h.${Buffer.from(
+			JSON.stringify({
+				email: "dev@example.com",
+				"https://api.openai.com/auth": {
+					chatgpt_plan_type: "pro",
+					organizations: [{ id: "org-1", title: "Personal", is_default: true }],
+				},
+			}),
+		).toString("base64url")}.sig`;
+		const pool = new AccountPool({ filePath });
+
+		pool.addFromTokens({ ...tokensFor("acc-1"), idToken });
+		pool.addFromTokens(tokensFor("acc-1"));
+
+		const stored = new AccountPool({ filePath }).get("acc-1");
+		expect(stored?.identity).toEqual({
+			email: "dev@example.com",
+			planType: "pro",
+			organizations: [{ id: "org-1", title: "Personal", isDefault: true }],
+		});
+		expect(readFileSync(filePath, "utf8")).not.toContain(idToken);
+	});
+
+	it("ignores tokens without an account ID", () => {
+		const pool = new AccountPool({ filePath });
+		expect(
+			pool.addFromTokens({ type: "success", access: "opaque", refresh: "r", expires: 1 }),
+		).toBeUndefined();
+		expect(pool.list()).toEqual([]);
+	});
+
+	it("skips exhausted accounts until their reset time", async () => {
+		const pool = new AccountPool({ filePath });
+		pool.addFromTokens(tokensFor("acc-1"));
+		pool.addFromTokens(tokensFor("acc-2"));
+		const now = Date.now();
+		pool.markExhausted("acc-2", now + 5_000);
+
+		expect(pool.isExhausted("acc-2", now)).toBe(true);
+		expect(await pool.acquire(["acc-1"], now)).toBeUndefined();
+		expect(await pool.acquire(["acc-1"], now + 10_000)).toEqual({
+			accountId: "acc-2",
+			access: expect.any(String),
+		});
+	});
+
+	it("hands out the workspace chosen for a pooled account", async () => {
+		const pool = new AccountPool({ filePath });
+		pool.addFromTokens(tokensFor("acc-1"));
+		pool.setWorkspace("acc-1", "org-team");
+		pool.setWorkspace("missing", "org-team");
+
+		const reloaded = new AccountPool({ filePath });
+		expect(reloaded.get("acc-1")?.workspaceId).toBe("org-team");
+		expect(await reloaded.acquire([])).toEqual({
+			accountId: "acc-1",
+			access: expect.any(String),
+			workspaceId: "org-team",
+		});
+
+		reloaded.setWorkspace("acc-1", "acc-1");
+		expect(reloaded.get("acc-1")?.workspaceId).toBeUndefined();
+	});
+
+	it("applies a default cooldown when the reset time is unknown", () => {
+		const pool = new AccountPool({ filePath });
+		pool.addFromTokens(tokensFor("acc-1"));
+		pool.markExhausted("acc-1");
+		expect(pool.isExhausted("acc-1")).toBe(true);
+		expect(pool.isExhausted("acc-1", Date.now() + 2 * 60 * 60 * 1000)).toBe(false);
+	});
+
+	it("refreshes expired pooled accounts before handing them out", async () => {
+		const pool = new AccountPool({ filePath });
+		pool.addFromTokens(tokensFor("acc-1"));
+		pool.addFromTokens(tokensFor("acc-2", 0));
+		const fresh = tokensFor("acc-2");
+		refreshAccessTokenMock.mockResolvedValue(fresh);
+
+		const acquired = await pool.acquire(["acc-1"]);
+		expect(refreshAccessTokenMock).toHaveBeenCalledWith("refresh-acc-2");
+		expect(syncCodexCliTokensMock).toHaveBeenCalledWith("refresh-acc-2", fresh);
+		expect(acquired).toEqual({ accountId: "acc-2", access: fresh.access });
+		expect(new AccountPool({ filePath }).get("acc-2")?.expires).toBe(fresh.expires);
+	});
+
+	it("skips pooled accounts whose refresh fails", async () => {
+		const pool = new AccountPool({ filePath });
+		pool.addFromTokens(tokensFor("acc-1", 0));
+		refreshAccessTokenMock.mockResolvedValue({ type: "failed" });
+		expect(await pool.acquire([])).toBeUndefined();
+	});
+
+	it("refreshes a pooled account once when several processes need it", async () => {
+		new AccountPool({ filePath }).addFromTokens(tokensFor("acc-1", 0));
+		const first = new AccountPool({ filePath });
+		const second = new AccountPool({ filePath });
+		const fresh = tokensFor("acc-1");
+		refreshAccessTokenMock.mockResolvedValue(fresh);
+
+		const acquired = await Promise.all([first.acquire([]), second.acquire([])]);
+
+		expect(refreshAccessTokenMock).toHaveBeenCalledTimes(1);
+		expect(acquired).toEqual([
+			{ accountId: "acc-1", access: fresh.access },
+			{ accountId: "acc-1", access: fresh.access },
+		]);
+	});
+
+	it("keeps changes other processes made to the store", async () => {
+		const first = new AccountPool({ filePath });
+		const second = new AccountPool({ filePath });
+		first.addFromTokens(tokensFor("acc-1", 0));
+		second.addFromTokens(tokensFor("acc-2"));
+		expect(new AccountPool({ filePath }).list().map((account) => account.accountId)).toEqual([
+			"acc-1",
+			"acc-2",
+		]);
+
+		refreshAccessTokenMock.mockImplementation(async () => {
+			second.remove("acc-1");
+			return tokensFor("acc-1");
+		});
+		expect(await first.acquire(["acc-2"])).toBeUndefined();
+
+		first.markExhausted("acc-2");
+		const stored = new AccountPool({ filePath }).list();
+		expect(stored.map((account) => account.accountId)).toEqual(["acc-2"]);
+		expect(stored[0].exhaustedUntil).toBeGreaterThan(Date.now());
+	});
+
+	it("tolerates a corrupted store", () => {
+		writeFileSync(filePath, "{not json", "utf8");
+		expect(new AccountPool({ filePath }).list()).toEqual([]);
+	});
+});
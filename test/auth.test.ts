@@ -6,11 +6,15 @@ import {
 	createState,
 	decodeJWT,
 	exchangeAuthorizationCode,
+	extractAccountIdentity,
 	parseAuthorizationInput,
 	REDIRECT_URI,
 	refreshAccessToken,
+	resolveManualAuthorizationCode,
+	revokeToken,
 	SCOPE,
 } from "../lib/auth/auth.js";
+import { ERROR_MESSAGES } from "../lib/constants.js";
 
 const fetchMock = vi.fn();
 
@@ -76,6 +80,34 @@ describe("Auth Module", () => {
 		});
 	});
 
+	describe("resolveManualAuthorizationCode", () => {
+		it("should accept a redirect URL with matching state", () => {
+			const input = "http://localhost:1455/auth/callback?code=abc123&state=xyz789";
+			expect(resolveManualAuthorizationCode(input, "xyz789")).toEqual({ code: "abc123" });
+		});
+
+		it("should accept a code#state value with matching state", () => {
+			expect(resolveManualAuthorizationCode("abc123#xyz789", "xyz789")).toEqual({ code: "abc123" });
+		});
+
+		it("should accept a bare code without state", () => {
+			expect(resolveManualAuthorizationCode("  abc123  ", "xyz789")).toEqual({ code: "abc123" });
+		});
+
+		it("should reject mismatched state", () => {
+			const input = "http://localhost:1455/auth/callback?code=abc123&state=other";
+			expect(resolveManualAuthorizationCode(input, "xyz789")).toEqual({
+				error: ERROR_MESSAGES.STATE_MISMATCH,
+			});
+		});
+
+		it("should reject input without a code", () => {
+			expect(resolveManualAuthorizationCode("http://localhost:1455/auth/callback?state=x", "x")).toEqual({
+				error: ERROR_MESSAGES.MISSING_AUTH_CODE,
+			});
+		});
+	});
+
 	describe("decodeJWT", () => {
 		it("should decode valid JWT token", () => {
 			// Create a simple JWT token: header.payload.signature
@@ -169,6 +201,12 @@ describe("Auth Module", () => {
 			expect(url.searchParams.get("id_token_add_organizations")).toBe("true");
 			expect(url.searchParams.get("codex_cli_simplified_flow")).toBe("true");
 			expect(url.searchParams.get("originator")).toBe("codex_cli_rs");
+			expect(url.searchParams.has("allowed_workspace_id")).toBe(false);
+		});
+
+		it("should restrict the login to a configured workspace", async () => {
+			const flow = await createAuthorizationFlow({ workspaceId: "org-team" });
+			expect(new URL(flow.url).searchParams.get("allowed_workspace_id")).toBe("org-team");
 		});
 
 		it("should generate unique flows", async () => {
@@ -181,6 +219,53 @@ describe("Auth Module", () => {
 		});
 	});
 
+	describe("extractAccountIdentity", () => {
+		const jwt = (payload: Record<string, unknown>) =>
+			`header.${Buffer.from(JSON.stringify(payload)).toString("base64url")}.signature`;
+
+		it("combines id_token and access token claims", () => {
+			const idToken = jwt({
+				email: "dev@example.com",
+				exp: 1_700_000_000,
+				"https://api.openai.com/auth": {
+					chatgpt_plan_type: "pro",
+					chatgpt_user_id: "user-1",
+					organizations: [
+						{ id: "org-personal", title: "Personal", role: "owner", is_default: true },
+						{ title: "missing id" },
+					],
+				},
+			});
+			const access = jwt({ "https://api.openai.com/auth": { chatgpt_account_id: "acc-1" } });
+
+			expect(extractAccountIdentity(access, idToken)).toEqual({
+				email: "dev@example.com",
+				planType: "pro",
+				userId: "user-1",
+				idTokenExpiresAt: 1_700_000_000_000,
+				organizations: [{ id: "org-personal", title: "Personal", role: "owner", isDefault: true }],
+			});
+		});
+
+		it("falls back to access token claims without an id_token", () => {
+			const access = jwt({
+				"https://api.openai.com/auth": { chatgpt_plan_type: "plus", user_id: "user-2" },
+				"https://api.openai.com/profile": { email: "plus@example.com" },
+			});
+
+			expect(extractAccountIdentity(access)).toEqual({
+				email: "plus@example.com",
+				planType: "plus",
+				userId: "user-2",
+				organizations: [],
+			});
+		});
+
+		it("returns an empty identity for opaque tokens", () => {
+			expect(extractAccountIdentity("opaque")).toEqual({ organizations: [] });
+		});
+	});
+
 	describe("exchangeAuthorizationCode", () => {
 		it("returns success result on 200 response", async () => {
 			fetchMock.mockResolvedValueOnce(
@@ -196,6 +281,7 @@ describe("Auth Module", () => {
 
 			const result = await exchangeAuthorizationCode("code", "verifier");
 			expect(result.type).toBe("success");
+			expect((result as any).idToken).toBeUndefined();
 			expect((result as any).access).toBe("access");
 			expect((result as any).refresh).toBe("refresh");
 			expect((result as any).expires).toBeGreaterThan(Date.now());
@@ -212,6 +298,23 @@ describe("Auth Module", () => {
 			expect(body.get("code_verifier")).toBe("verifier");
 		});
 
+		it("keeps the id_token from the token response", async () => {
+			fetchMock.mockResolvedValueOnce(
+				new Response(
+					JSON.stringify({
+						access_token: "access",
+						refresh_token: "refresh",
+						id_token: "id-token",
+						expires_in: 60,
+					}),
+					{ status: 200 },
+				),
+			);
+
+			const result = await exchangeAuthorizationCode("code", "verifier");
+			expect(result).toMatchObject({ type: "success", idToken: "id-token" });
+		});
+
 		it("returns failed result on non-200 response", async () => {
 			fetchMock.mockResolvedValueOnce(new Response("bad request", { status: 400 }));
 
@@ -248,6 +351,29 @@ describe("Auth Module", () => {
 		});
 	});
 
+	describe("revokeToken", () => {
+		it("posts the token to the revocation endpoint", async () => {
+			fetchMock.mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+			await expect(revokeToken("refresh-token", "https://auth.example.com/oauth/revoke")).resolves.toBe(true);
+
+			const [url, init] = fetchMock.mock.calls[0];
+			expect(url).toBe("https://auth.example.com/oauth/revoke");
+			const body = new URLSearchParams((init as RequestInit).body as string);
+			expect(body.get("token")).toBe("refresh-token");
+			expect(body.get("token_type_hint")).toBe("refresh_token");
+			expect(body.get("client_id")).toBe(CLIENT_ID);
+		});
+
+		it("returns false on rejection or network errors", async () => {
+			fetchMock.mockResolvedValueOnce(new Response("nope", { status: 400 }));
+			await expect(revokeToken("t", "https://auth.example.com/oauth/revoke")).resolves.toBe(false);
+
+			fetchMock.mockRejectedValueOnce(new Error("offline"));
+			await expect(revokeToken("t", "https://auth.example.com/oauth/revoke")).resolves.toBe(false);
+		});
+	});
+
 	describe("refreshAccessToken", () => {
 		it("returns success when refresh succeeds", async () => {
 			fetchMock.mockResolvedValueOnce(
@@ -282,16 +408,26 @@ describe("Auth Module", () => {
 		it("logs and returns failed when refresh request fails", async () => {
 			fetchMock.mockResolvedValueOnce(new Response("denied", { status: 401 }));
 			const result = await refreshAccessToken("refresh-token");
-			expect(result).toEqual({ type: "failed" });
+			expect(result).toEqual({ type: "failed", reason: "http_error", status: 401 });
 			expect(console.error).toHaveBeenCalledWith(
 				'[openhax/codex] Token refresh failed {"status":401,"body":"denied"}',
 			);
 		});
 
+		it("flags invalid_grant so callers can ask for a new login", async () => {
+			fetchMock.mockResolvedValueOnce(
+				new Response(JSON.stringify({ error: "invalid_grant", error_description: "revoked" }), {
+					status: 400,
+				}),
+			);
+			const result = await refreshAccessToken("refresh-token");
+			expect(result).toEqual({ type: "failed", reason: "invalid_grant", status: 400 });
+		});
+
 		it("handles network error by returning failed result", async () => {
 			fetchMock.mockRejectedValueOnce(new Error("network down"));
 			const result = await refreshAccessToken("refresh-token");
-			expect(result).toEqual({ type: "failed" });
+			expect(result).toEqual({ type: "failed", reason: "network_error" });
 			expect(console.error).toHaveBeenCalledWith(
 				'[openhax/codex] Token refresh error {"error":"network down"}',
 			);
@@ -315,7 +451,7 @@ describe("Auth Module", () => {
 				new Response(JSON.stringify({ access_token: "only" }), { status: 200 }),
 			);
 			const result = await refreshAccessToken("refresh-token");
-			expect(result).toEqual({ type: "failed" });
+			expect(result).toEqual({ type: "failed", reason: "invalid_response" });
 			expect(console.error).toHaveBeenCalledWith(
 				'[openhax/codex] Token refresh response missing fields {"access_token":"only"}',
 			);
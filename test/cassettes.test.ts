@@ -0,0 +1,118 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CassetteStore, computeCassetteKey, withCassettes } from "../lib/request/cassettes.js";
+import type { RequestBody } from "../lib/types.js";
+
+const logErrorMock = vi.hoisted(() => vi.fn());
+const notifyToastMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logError: logErrorMock,
+	logRequest: vi.fn(),
+	logWarn: vi.fn(),
+	notifyToast: notifyToastMock,
+}));
+
+const URL = "https://chatgpt.com/backend-api/codex/responses";
+const body: RequestBody = {
+	model: "gpt-5-codex",
+	input: [{ type: "message", role: "user", content: "hello" }],
+	stream: true,
+};
+const sse = 'event: response.completed\ndata: {"type":"response.completed","response":{"id":"resp_1"}}\n\n';
+
+describe("cassettes", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "codex-cassettes-"));
+		logErrorMock.mockClear();
+		notifyToastMock.mockClear();
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("keys requests by path and body regardless of key order or host", () => {
+		const reordered = { stream: true, input: body.input, model: body.model } as RequestBody;
+		expect(computeCassetteKey(URL, body)).toBe(computeCassetteKey(URL, reordered));
+		expect(computeCassetteKey("http://127.0.0.1:8787/backend-api/codex/responses", body)).toBe(
+			computeCassetteKey(URL, body),
+		);
+		expect(computeCassetteKey(URL, { ...body, model: "gpt-5" })).not.toBe(computeCassetteKey(URL, body));
+	});
+
+	it("records the raw SSE response and replays it byte for byte", async () => {
+		const recorder = new CassetteStore({ mode: "record", dir });
+		const upstream = new Response(sse, {
+			status: 200,
+			headers: {
+				"content-type": "text/event-stream",
+				"content-encoding": "gzip",
+				"x-codex-primary-used-percent": "5",
+			},
+		});
+
+		const passed = recorder.record(URL, body, upstream);
+		expect(await passed.text()).toBe(sse);
+
+		const filePath = recorder.pathFor(computeCassetteKey(URL, body));
+		// The cassette is written once the client has read the body, so wait for the complete file
+		const cassette = await vi.waitFor(() => JSON.parse(readFileSync(filePath, "utf8")));
+		expect(cassette.request).toEqual({ url: URL, body });
+		expect(cassette.response.headers).not.toHaveProperty("content-encoding");
+
+		const replayed = new CassetteStore({ mode: "replay", dir }).replay(URL, body);
+		expect(replayed.status).toBe(200);
+		expect(replayed.headers.get("x-codex-primary-used-percent")).toBe("5");
+		expect(await replayed.text()).toBe(sse);
+	});
+
+	it("passes a client cancel through to upstream while recording", async () => {
+		const cancelUpstream = vi.fn();
+		const upstream = new Response(
+			new ReadableStream<Uint8Array>({
+				start(controller) {
+					controller.enqueue(new TextEncoder().encode(sse));
+				},
+				cancel: cancelUpstream,
+			}),
+			{ status: 200, headers: { "content-type": "text/event-stream" } },
+		);
+
+		const reader = new CassetteStore({ mode: "record", dir }).record(URL, body, upstream).body!.getReader();
+		await reader.read();
+		await reader.cancel();
+
+		await vi.waitFor(() => expect(cancelUpstream).toHaveBeenCalled());
+		expect(
+			existsSync(new CassetteStore({ mode: "record", dir }).pathFor(computeCassetteKey(URL, body))),
+		).toBe(false);
+	});
+
+	it("fails loudly when no cassette matches", async () => {
+		const response = new CassetteStore({ mode: "replay", dir }).replay(URL, body);
+
+		expect(response.status).toBe(404);
+		expect(await response.json()).toMatchObject({ error: { code: "cassette_miss" } });
+		expect(logErrorMock).toHaveBeenCalledWith(
+			"Codex replay has no cassette for this request",
+			expect.objectContaining({ key: computeCassetteKey(URL, body) }),
+		);
+		expect(notifyToastMock).toHaveBeenCalledWith("error", expect.stringContaining("no cassette"));
+	});
+
+	it("replays without calling the send function and passes through when off", async () => {
+		const send = vi.fn(async () => new Response("live"));
+
+		const replay = withCassettes(new CassetteStore({ mode: "replay", dir }), URL, send);
+		expect((await replay({ body })).status).toBe(404);
+		expect(send).not.toHaveBeenCalled();
+
+		expect(withCassettes(undefined, URL, send)).toBe(send);
+	});
+});
@@ -0,0 +1,159 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getCodexCliAuthPath, importCodexCliAuth, syncCodexCliTokens } from "../lib/auth/codex-cli-import.js";
+
+const refreshAccessTokenMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../lib/auth/auth.js", async () => {
+	const actual = await vi.importActual<typeof import("../lib/auth/auth.js")>("../lib/auth/auth.js");
+	return {
+		...actual,
+		refreshAccessToken: refreshAccessTokenMock,
+	};
+});
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logDebug: vi.fn(),
+	logInfo: vi.fn(),
+	logWarn: vi.fn(),
+}));
+
+const NOW = 1_700_000_000_000;
+
+function makeToken(claims: Record<string, unknown>): string {
+	const header = Buffer.from(JSON.stringify({ alg: "none" })).toString("base64url");
+	return `${header}.${Buffer.from(JSON.stringify(claims)).toString("base64url")}.sig`;
+}
+
+function accessToken(exp: number, accountId: string | null = "acc-cli") {
+	return makeToken({
+		exp: Math.floor(exp / 1000),
+		"https://api.openai.com/auth": accountId ? { chatgpt_account_id: accountId } : {},
+	});
+}
+
+describe("Codex CLI import", () => {
+	let dir: string;
+	let authPath: string;
+	const setMock = vi.fn();
+	const client = { auth: { set: setMock } } as any;
+
+	const writeAuthFile = (content: unknown) =>
+		writeFileSync(authPath, typeof content === "string" ? content : JSON.stringify(content));
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "codex-cli-"));
+		authPath = join(dir, "auth.json");
+		setMock.mockReset();
+		refreshAccessTokenMock.mockReset();
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("resolves the auth file from CODEX_HOME", () => {
+		expect(getCodexCliAuthPath({ CODEX_HOME: "/opt/codex" })).toBe(join("/opt/codex", "auth.json"));
+		expect(getCodexCliAuthPath({})).toMatch(/\.codex[\\/]auth\.json$/);
+	});
+
+	it("imports valid tokens without refreshing", async () => {
+		const access = accessToken(NOW + 3_600_000);
+		writeAuthFile({
+			OPENAI_API_KEY: null,
+			tokens: { id_token: "id", access_token: access, refresh_token: "refresh-cli", account_id: "acc-cli" },
+			last_refresh: "2025-01-01T00:00:00Z",
+		});
+
+		const result = await importCodexCliAuth(client, { authPath, now: NOW });
+
+		expect(result).toEqual({
+			type: "success",
+			tokens: { type: "success", access, refresh: "refresh-cli", expires: NOW + 3_600_000, idToken: "id" },
+		});
+		expect(refreshAccessTokenMock).not.toHaveBeenCalled();
+		expect(setMock).toHaveBeenCalledWith({
+			path: { id: "openai" },
+			body: { type: "oauth", access, refresh: "refresh-cli", expires: NOW + 3_600_000 },
+		});
+	});
+
+	it("refreshes expired tokens and writes the rotation back for the Codex CLI", async () => {
+		writeAuthFile({
+			tokens: { access_token: accessToken(NOW - 1000), refresh_token: "old-refresh", account_id: "acc-cli" },
+			last_refresh: "2025-01-01T00:00:00Z",
+		});
+		const fresh = {
+			type: "success",
+			access: accessToken(NOW + 3_600_000),
+			refresh: "new-refresh",
+			expires: NOW + 3_600_000,
+		};
+		refreshAccessTokenMock.mockResolvedValue(fresh);
+
+		const result = await importCodexCliAuth(client, { authPath, now: NOW });
+
+		expect(refreshAccessTokenMock).toHaveBeenCalledWith("old-refresh");
+		expect(result).toEqual({ type: "success", tokens: fresh });
+		const rewritten = JSON.parse(readFileSync(authPath, "utf8"));
+		expect(rewritten.tokens).toEqual({
+			access_token: fresh.access,
+			refresh_token: "new-refresh",
+			account_id: "acc-cli",
+		});
+		expect(rewritten.last_refresh).not.toBe("2025-01-01T00:00:00Z");
+		expect(setMock).toHaveBeenCalledWith(
+			expect.objectContaining({ body: expect.objectContaining({ refresh: "new-refresh" }) }),
+		);
+	});
+
+	it("writes later rotations back only while the Codex CLI holds the spent refresh token", () => {
+		writeAuthFile({ tokens: { access_token: "a1", refresh_token: "r1", account_id: "acc-cli" } });
+		const rotated = { type: "success" as const, access: "a2", refresh: "r2", expires: NOW };
+
+		expect(syncCodexCliTokens("r1", rotated, authPath)).toBe(true);
+		expect(JSON.parse(readFileSync(authPath, "utf8")).tokens).toEqual({
+			access_token: "a2",
+			refresh_token: "r2",
+			account_id: "acc-cli",
+		});
+
+		// A separate Codex CLI login, or one the CLI already refreshed, is left alone
+		expect(syncCodexCliTokens("r1", { ...rotated, refresh: "r3" }, authPath)).toBe(false);
+		expect(JSON.parse(readFileSync(authPath, "utf8")).tokens.refresh_token).toBe("r2");
+		expect(syncCodexCliTokens("r2", rotated, join(dir, "missing.json"))).toBe(false);
+	});
+
+	it("fails clearly when a refresh is rejected", async () => {
+		writeAuthFile({ tokens: { access_token: accessToken(NOW - 1000), refresh_token: "revoked" } });
+		refreshAccessTokenMock.mockResolvedValue({ type: "failed", reason: "invalid_grant" });
+
+		const result = await importCodexCliAuth(client, { authPath, now: NOW });
+
+		expect(result).toEqual({ type: "failed", error: expect.stringContaining("Run `codex login`") });
+		expect(setMock).not.toHaveBeenCalled();
+	});
+
+	it.each([
+		["a missing file", undefined, "No Codex CLI credentials found"],
+		["invalid JSON", "{not json", "is not valid JSON"],
+		["an API-key-only file", { OPENAI_API_KEY: "sk-test", tokens: null }, "only holds an API key"],
+		["an unknown layout", { access_token: "a", refresh_token: "r" }, "Unrecognized Codex CLI auth format"],
+		["a non-JWT access token", { tokens: { access_token: "opaque", refresh_token: "r" } }, "not a valid JWT"],
+		[
+			"a token without an account ID",
+			{ tokens: { access_token: accessToken(NOW + 60_000, null), refresh_token: "r" } },
+			"has no ChatGPT account ID",
+		],
+	])("rejects %s", async (_name, content, message) => {
+		if (content !== undefined) writeAuthFile(content);
+
+		const result = await importCodexCliAuth(client, { authPath, now: NOW });
+
+		expect(result).toEqual({ type: "failed", error: expect.stringContaining(message) });
+		expect(setMock).not.toHaveBeenCalled();
+	});
+});
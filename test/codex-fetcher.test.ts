@@ -4,32 +4,60 @@ import { createCodexFetcher } from "../lib/request/codex-fetcher.js";
 import type { SessionManager } from "../lib/session/session-manager.js";
 
 const fetchMock = vi.fn();
-const shouldRefreshTokenMock = vi.hoisted(() => vi.fn(() => false));
-const refreshAndUpdateTokenMock = vi.hoisted(() => vi.fn());
+const getValidAuthMock = vi.hoisted(() => vi.fn());
+const tokenManagerOptions = vi.hoisted(() => ({ current: undefined as any }));
 const extractRequestUrlMock = vi.hoisted(() => vi.fn((input: string | URL | Request) => input.toString()));
 const rewriteUrlForCodexMock = vi.hoisted(() => vi.fn(() => "https://codex/backend"));
 const transformRequestForCodexMock = vi.hoisted(() => vi.fn());
 const createCodexHeadersMock = vi.hoisted(() => vi.fn(() => new Headers({ Authorization: "Bearer token" })));
+const createPlatformHeadersMock = vi.hoisted(() =>
+	vi.fn(() => new Headers({ Authorization: "Bearer sk-test" })),
+);
 const handleErrorResponseMock = vi.hoisted(() => vi.fn());
+const detectUsageLimitMock = vi.hoisted(() => vi.fn());
 const handleSuccessResponseMock = vi.hoisted(() => vi.fn());
 const maybeHandleCodexCommandMock = vi.hoisted(() =>
 	vi.fn<(body: unknown, context: unknown) => Response | null>(() => null),
 );
 const logRequestMock = vi.hoisted(() => vi.fn());
 const recordSessionResponseMock = vi.hoisted(() => vi.fn());
+const notifyToastMock = vi.hoisted(() => vi.fn());
+const recordRateLimitsMock = vi.hoisted(() => vi.fn());
+const syncCodexCliTokensMock = vi.hoisted(() => vi.fn());
 
 vi.mock("../lib/request/fetch-helpers.js", () => ({
 	__esModule: true,
-	shouldRefreshToken: shouldRefreshTokenMock,
-	refreshAndUpdateToken: refreshAndUpdateTokenMock,
 	extractRequestUrl: extractRequestUrlMock,
 	rewriteUrlForCodex: rewriteUrlForCodexMock,
 	transformRequestForCodex: transformRequestForCodexMock,
 	createCodexHeaders: createCodexHeadersMock,
+	createPlatformHeaders: createPlatformHeadersMock,
 	handleErrorResponse: handleErrorResponseMock,
+	detectUsageLimit: detectUsageLimitMock,
 	handleSuccessResponse: handleSuccessResponseMock,
 }));
 
+vi.mock("../lib/request/rate-limits.js", () => ({
+	__esModule: true,
+	recordRateLimits: recordRateLimitsMock,
+}));
+
+vi.mock("../lib/auth/token-manager.js", () => ({
+	__esModule: true,
+	TokenManager: class {
+		getValidAuth = getValidAuthMock;
+
+		constructor(options: unknown) {
+			tokenManagerOptions.current = options;
+		}
+	},
+}));
+
+vi.mock("../lib/auth/codex-cli-import.js", () => ({
+	__esModule: true,
+	syncCodexCliTokens: syncCodexCliTokensMock,
+}));
+
 vi.mock("../lib/commands/codex-metrics.js", () => ({
 	__esModule: true,
 	maybeHandleCodexCommand: maybeHandleCodexCommandMock,
@@ -38,11 +66,16 @@ vi.mock("../lib/commands/codex-metrics.js", () => ({
 vi.mock("../lib/logger.js", () => ({
 	__esModule: true,
 	logRequest: logRequestMock,
+	logDebug: vi.fn(),
+	logError: vi.fn(),
+	logWarn: vi.fn(),
+	notifyToast: notifyToastMock,
 }));
 
 vi.mock("../lib/session/response-recorder.js", () => ({
 	__esModule: true,
 	recordSessionResponseFromHandledResponse: recordSessionResponseMock,
+	observeSessionResponseStream: ({ handledResponse }: { handledResponse: Response }) => handledResponse,
 }));
 
 describe("createCodexFetcher", () => {
@@ -56,19 +89,28 @@ describe("createCodexFetcher", () => {
 		vi.resetModules();
 		globalThis.fetch = fetchMock as typeof fetch;
 		fetchMock.mockReset();
-		fetchMock.mockResolvedValue(new Response("ok", { status: 200 }));
-		shouldRefreshTokenMock.mockReset();
-		shouldRefreshTokenMock.mockReturnValue(false);
-		refreshAndUpdateTokenMock.mockReset();
+		fetchMock.mockImplementation(async () => new Response("ok", { status: 200 }));
+		getValidAuthMock.mockReset();
+		getValidAuthMock.mockResolvedValue({
+			success: true,
+			auth: { type: "oauth", access: "access-token", refresh: "refresh-token", expires: Date.now() + 10_000 },
+		});
+		tokenManagerOptions.current = undefined;
 		transformRequestForCodexMock.mockReset();
 		createCodexHeadersMock.mockReset();
+		createPlatformHeadersMock.mockClear();
+		rewriteUrlForCodexMock.mockClear();
 		handleErrorResponseMock.mockReset();
+		detectUsageLimitMock.mockReset();
+		recordRateLimitsMock.mockClear();
+		detectUsageLimitMock.mockResolvedValue(undefined);
 		handleSuccessResponseMock.mockReset();
 		handleSuccessResponseMock.mockResolvedValue(new Response("handled", { status: 200 }));
 		maybeHandleCodexCommandMock.mockReset();
 		maybeHandleCodexCommandMock.mockReturnValue(null);
 		logRequestMock.mockClear();
 		recordSessionResponseMock.mockReset();
+		notifyToastMock.mockClear();
 	});
 
 	const baseDeps = () => ({
@@ -128,10 +170,9 @@ describe("createCodexFetcher", () => {
 		expect(response.status).toBe(200);
 	});
 
-	it("refreshes tokens and returns refresh failure response", async () => {
-		shouldRefreshTokenMock.mockReturnValue(true);
+	it("returns the token manager failure response without fetching", async () => {
 		const refreshFailure = new Response("refresh failed", { status: 401 });
-		refreshAndUpdateTokenMock.mockResolvedValue({ success: false, response: refreshFailure });
+		getValidAuthMock.mockResolvedValue({ success: false, response: refreshFailure });
 
 		const deps = baseDeps();
 		const fetcher = createCodexFetcher(deps);
@@ -141,30 +182,29 @@ describe("createCodexFetcher", () => {
 		expect(fetchMock).not.toHaveBeenCalled();
 	});
 
-	it("continues processing when token refresh succeeds", async () => {
-		shouldRefreshTokenMock.mockReturnValue(true);
-		refreshAndUpdateTokenMock.mockResolvedValue({
-			success: true,
-			auth: {
-				type: "oauth" as const,
-				access: "new-access",
-				refresh: "new-refresh",
-				expires: Date.now() + 20_000,
-			},
-		});
+	it("shares one token manager across requests", async () => {
 		transformRequestForCodexMock.mockResolvedValue({
 			body: { model: "gpt-5" },
 		});
+		const deps = baseDeps();
+		const fetcher = createCodexFetcher({
+			...deps,
+			pluginConfig: { ...deps.pluginConfig, tokenRefresh: { skewMs: 1000 } },
+		});
 
-		const fetcher = createCodexFetcher(baseDeps());
-		await fetcher("https://api.openai.com", {});
-		expect(refreshAndUpdateTokenMock).toHaveBeenCalled();
-		expect(fetchMock).toHaveBeenCalled();
+		await Promise.all([fetcher("https://api.openai.com", {}), fetcher("https://api.openai.com", {})]);
+
+		expect(tokenManagerOptions.current).toMatchObject({
+			getAuth: deps.getAuth,
+			client: deps.client,
+			config: { skewMs: 1000 },
+		});
+		expect(getValidAuthMock).toHaveBeenCalledTimes(2);
+		expect(fetchMock).toHaveBeenCalledTimes(2);
 	});
 
 	it("uses refreshed auth when refresh succeeds", async () => {
-		shouldRefreshTokenMock.mockReturnValue(true);
-		refreshAndUpdateTokenMock.mockResolvedValue({
+		getValidAuthMock.mockResolvedValue({
 			success: true,
 			auth: {
 				type: "oauth" as const,
@@ -187,6 +227,19 @@ describe("createCodexFetcher", () => {
 		);
 	});
 
+	it("routes requests to the selected workspace", async () => {
+		transformRequestForCodexMock.mockResolvedValue({ body: { model: "gpt-5" } });
+
+		const fetcher = createCodexFetcher({ ...baseDeps(), workspaceId: "org-team" });
+		await fetcher("https://api.openai.com", {});
+		expect(createCodexHeadersMock).toHaveBeenCalledWith(
+			expect.any(Object),
+			"org-team",
+			"access-token",
+			expect.any(Object),
+		);
+	});
+
 	it("returns command response early when maybeHandleCodexCommand matches", async () => {
 		const commandResponse = new Response("command", { status: 200 });
 		maybeHandleCodexCommandMock.mockReturnValue(commandResponse);
@@ -200,6 +253,11 @@ describe("createCodexFetcher", () => {
 		expect(response).toBe(commandResponse);
 		expect(maybeHandleCodexCommandMock).toHaveBeenCalledWith(expect.objectContaining({ model: "gpt-5" }), {
 			sessionManager,
+			accountId: "acc-123",
+			workspaceId: undefined,
+			accessToken: "access-token",
+			accessTokenExpiresAt: expect.any(Number),
+			logout: expect.any(Function),
 		});
 		expect(fetchMock).not.toHaveBeenCalled();
 	});
@@ -221,12 +279,117 @@ describe("createCodexFetcher", () => {
 			body: { model: "gpt-5" },
 		});
 
-		const fetcher = createCodexFetcher(baseDeps());
+		const deps = baseDeps();
+		const fetcher = createCodexFetcher({
+			...deps,
+			pluginConfig: { ...deps.pluginConfig, retry: { maxAttempts: 1 } },
+		});
 		const response = await fetcher("https://api.openai.com", {});
 		expect(handleErrorResponseMock).toHaveBeenCalled();
 		expect(response.status).toBe(502);
 	});
 
+	it("tracks rate-limit headers from every final response", async () => {
+		const upstream = new Response("ok", { status: 200, headers: { "x-codex-primary-used-percent": "81" } });
+		fetchMock.mockResolvedValue(upstream);
+		handleSuccessResponseMock.mockResolvedValue(new Response("handled", { status: 200 }));
+		transformRequestForCodexMock.mockResolvedValue({ body: { model: "gpt-5" } });
+
+		const deps = baseDeps();
+		const fetcher = createCodexFetcher({
+			...deps,
+			pluginConfig: { ...deps.pluginConfig, rateLimitWarnings: [50] },
+		});
+		await fetcher("https://api.openai.com", {});
+
+		expect(recordRateLimitsMock).toHaveBeenCalledWith("acc-123", upstream.headers, [50]);
+	});
+
+	it("queues requests beyond the per-account concurrency limit", async () => {
+		// An upstream stream that never ends keeps its slot taken
+		fetchMock.mockImplementation(async () => new Response(new ReadableStream({ start() {} })));
+		handleSuccessResponseMock.mockResolvedValue(new Response("handled", { status: 200 }));
+		handleErrorResponseMock.mockImplementation(async (response: Response) => response);
+		transformRequestForCodexMock.mockResolvedValue({ body: { model: "gpt-5", tools: [] } });
+
+		const deps = baseDeps();
+		const fetcher = createCodexFetcher({
+			...deps,
+			pluginConfig: { ...deps.pluginConfig, concurrency: { maxInFlight: 1, maxQueueWaitMs: 10 } },
+		});
+		await fetcher("https://api.openai.com", {});
+		const queued = await fetcher("https://api.openai.com", {});
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(queued.status).toBe(503);
+	});
+
+	it("frees the concurrency slot while a retry backs off", async () => {
+		fetchMock.mockResolvedValueOnce(new Response("busy", { status: 503 }));
+		handleSuccessResponseMock.mockImplementation(async (response: Response) => {
+			await response.text();
+			return new Response("handled", { status: 200 });
+		});
+		transformRequestForCodexMock.mockResolvedValue({ body: { model: "gpt-5", tools: [] } });
+
+		const deps = baseDeps();
+		const fetcher = createCodexFetcher({
+			...deps,
+			pluginConfig: {
+				...deps.pluginConfig,
+				retry: { baseDelayMs: 200 },
+				concurrency: { maxInFlight: 1, maxQueueWaitMs: 50 },
+			},
+		});
+		const retried = fetcher("https://api.openai.com", {});
+		await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+		const other = await fetcher("https://api.openai.com", {});
+
+		expect(other.status).toBe(200);
+		expect((await retried).status).toBe(200);
+		expect(fetchMock).toHaveBeenCalledTimes(3);
+	});
+
+	it("replays cassettes without refreshing tokens or calling the network", async () => {
+		handleErrorResponseMock.mockImplementation(async (response: Response) => response);
+		transformRequestForCodexMock.mockResolvedValue({ body: { model: "gpt-5" } });
+		const deps = baseDeps();
+		const fetcher = createCodexFetcher({
+			...deps,
+			pluginConfig: { ...deps.pluginConfig, cassettes: { mode: "replay", dir: "/nonexistent/cassettes" } },
+		});
+
+		const response = await fetcher("https://api.openai.com", {});
+
+		expect(response.status).toBe(404);
+		expect(fetchMock).not.toHaveBeenCalled();
+		expect(getValidAuthMock).not.toHaveBeenCalled();
+		expect(deps.getAuth).toHaveBeenCalled();
+	});
+
+	it("retries transient upstream errors with one correlation ID", async () => {
+		fetchMock
+			.mockResolvedValueOnce(new Response("busy", { status: 503 }))
+			.mockResolvedValueOnce(new Response("ok", { status: 200 }));
+		transformRequestForCodexMock.mockResolvedValue({ body: { model: "gpt-5" } });
+
+		const deps = baseDeps();
+		const fetcher = createCodexFetcher({
+			...deps,
+			pluginConfig: { ...deps.pluginConfig, retry: { baseDelayMs: 1 } },
+		});
+		const response = await fetcher("https://api.openai.com", {});
+
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+		expect(handleErrorResponseMock).not.toHaveBeenCalled();
+		expect(response.status).toBe(200);
+		const [first, second] = logRequestMock.mock.calls
+			.filter(([stage]) => stage === LOG_STAGES.RESPONSE)
+			.map(([, data]) => data.requestId);
+		expect(first).toEqual(expect.any(String));
+		expect(second).toBe(first);
+	});
+
 	it("logs response metadata with the response stage", async () => {
 		transformRequestForCodexMock.mockResolvedValue({
 			body: { model: "gpt-5" },
@@ -282,10 +445,9 @@ describe("createCodexFetcher", () => {
 		transformRequestForCodexMock.mockResolvedValue({
 			body: { model: "gpt-5" },
 		});
-		const deps = baseDeps();
-		deps.getAuth.mockResolvedValue({ type: "api", key: "abc" } as any);
+		getValidAuthMock.mockResolvedValue({ success: true, auth: { type: "api", key: "abc" } });
 
-		const fetcher = createCodexFetcher(deps);
+		const fetcher = createCodexFetcher(baseDeps());
 		await fetcher("https://api.openai.com", {});
 		expect(createCodexHeadersMock).toHaveBeenCalledWith(
 			expect.any(Object),
@@ -294,4 +456,189 @@ describe("createCodexFetcher", () => {
 			expect.any(Object),
 		);
 	});
+
+	it("sends API-key requests to the Platform endpoint without token refresh or failover", async () => {
+		transformRequestForCodexMock.mockResolvedValue({
+			body: { model: "gpt-5", tools: [] },
+			updatedInit: { body: "{}" },
+		});
+		const accountPool = { isExhausted: vi.fn(), acquire: vi.fn(), addFromTokens: vi.fn() };
+
+		const fetcher = createCodexFetcher({
+			...baseDeps(),
+			accountId: undefined,
+			apiKey: "sk-test",
+			accountPool,
+		} as any);
+		await fetcher("https://api.openai.com/v1/responses", {});
+
+		expect(getValidAuthMock).not.toHaveBeenCalled();
+		expect(rewriteUrlForCodexMock).not.toHaveBeenCalled();
+		expect(createCodexHeadersMock).not.toHaveBeenCalled();
+		expect(createPlatformHeadersMock).toHaveBeenCalledWith({ body: "{}" }, "sk-test");
+		expect(fetchMock).toHaveBeenCalledWith("https://api.openai.com/v1/responses", {
+			body: "{}",
+			headers: expect.any(Headers),
+			signal: expect.any(AbortSignal),
+		});
+		expect(accountPool.isExhausted).not.toHaveBeenCalled();
+	});
+
+	describe("model fallback", () => {
+		const fallbackDeps = () => {
+			const deps = baseDeps();
+			return {
+				...deps,
+				pluginConfig: {
+					...deps.pluginConfig,
+					modelFallback: ["gpt-5.1-codex-max", "gpt-5.1-codex", "gpt-5.1-codex-mini"],
+				},
+			};
+		};
+
+		it("re-transforms the request for the next model after a usage limit", async () => {
+			transformRequestForCodexMock
+				.mockResolvedValueOnce({ body: { model: "gpt-5.1-codex-max" }, updatedInit: { body: "max" } })
+				.mockResolvedValueOnce({
+					body: { model: "gpt-5.1-codex", tools: [] },
+					updatedInit: { body: "codex" },
+					sessionContext: { sessionId: "s-1", enabled: true },
+				});
+			fetchMock
+				.mockResolvedValueOnce(new Response("limit", { status: 429 }))
+				.mockResolvedValueOnce(new Response("ok", { status: 200 }));
+			detectUsageLimitMock.mockResolvedValue({ code: "usage_limit_reached" });
+
+			const fetcher = createCodexFetcher(fallbackDeps());
+			const init = { body: JSON.stringify({ model: "gpt-5.1-codex-max", input: [] }) };
+			const response = await fetcher("https://api.openai.com", init);
+
+			expect(JSON.parse(transformRequestForCodexMock.mock.calls[1][0].body)).toEqual({
+				model: "gpt-5.1-codex",
+				input: [],
+			});
+			expect(fetchMock).toHaveBeenLastCalledWith(
+				"https://codex/backend",
+				expect.objectContaining({ body: "codex" }),
+			);
+			expect(notifyToastMock).toHaveBeenCalledWith(
+				"warn",
+				"Usage limit reached on gpt-5.1-codex-max; continuing with gpt-5.1-codex",
+			);
+			expect(handleSuccessResponseMock).toHaveBeenCalledWith(expect.any(Response), true);
+			expect(recordSessionResponseMock).toHaveBeenCalledWith(
+				expect.objectContaining({ sessionContext: { sessionId: "s-1", enabled: true } }),
+			);
+			expect(response.status).toBe(200);
+		});
+
+		it("returns the usage-limit error when the model is not in the chain", async () => {
+			transformRequestForCodexMock.mockResolvedValue({
+				body: { model: "gpt-5" },
+				updatedInit: { body: "{}" },
+			});
+			fetchMock.mockResolvedValue(new Response("limit", { status: 429 }));
+			detectUsageLimitMock.mockResolvedValue({ code: "usage_limit_reached" });
+			handleErrorResponseMock.mockResolvedValue(new Response("limit", { status: 429 }));
+
+			const fetcher = createCodexFetcher(fallbackDeps());
+			const response = await fetcher("https://api.openai.com", { body: "{}" });
+
+			expect(transformRequestForCodexMock).toHaveBeenCalledTimes(1);
+			expect(notifyToastMock).not.toHaveBeenCalled();
+			expect(response.status).toBe(429);
+		});
+	});
+
+	describe("account pool failover", () => {
+		const createPool = (overrides: Record<string, unknown> = {}) => ({
+			isExhausted: vi.fn(() => false),
+			markExhausted: vi.fn(),
+			acquire: vi.fn().mockResolvedValue(undefined),
+			addFromTokens: vi.fn(),
+			...overrides,
+		});
+
+		it("retries the same request on the next pooled account after a usage limit", async () => {
+			transformRequestForCodexMock.mockResolvedValue({
+				body: { model: "gpt-5", tools: [] },
+				updatedInit: { body: "{}" },
+			});
+			const cancelUpstream = vi.fn();
+			const limited = new Response(new ReadableStream({ cancel: cancelUpstream }), { status: 429 });
+			fetchMock.mockResolvedValueOnce(limited).mockResolvedValueOnce(new Response("ok", { status: 200 }));
+			detectUsageLimitMock.mockResolvedValue({ code: "usage_limit_reached", resetsAt: 123_000 });
+			const accountPool = createPool({
+				acquire: vi.fn().mockResolvedValue({ accountId: "acc-2", access: "access-2" }),
+			});
+
+			const fetcher = createCodexFetcher({ ...baseDeps(), accountPool } as any);
+			const response = await fetcher("https://api.openai.com", {});
+
+			expect(accountPool.markExhausted).toHaveBeenCalledWith("acc-123", 123_000);
+			expect(accountPool.acquire).toHaveBeenCalledWith(expect.arrayContaining(["acc-123"]));
+			expect(createCodexHeadersMock).toHaveBeenLastCalledWith(
+				{ body: "{}" },
+				"acc-2",
+				"access-2",
+				expect.any(Object),
+			);
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+			expect(recordRateLimitsMock.mock.calls.map(([id]) => id)).toEqual(["acc-123", "acc-2"]);
+			expect(cancelUpstream).toHaveBeenCalled();
+			expect(handleErrorResponseMock).not.toHaveBeenCalled();
+			expect(response.status).toBe(200);
+		});
+
+		it("returns the usage-limit error when no pooled account has quota", async () => {
+			transformRequestForCodexMock.mockResolvedValue({ body: { model: "gpt-5" } });
+			fetchMock.mockResolvedValue(new Response("limit", { status: 429 }));
+			detectUsageLimitMock.mockResolvedValue({ code: "usage_limit_reached" });
+			handleErrorResponseMock.mockResolvedValue(new Response("limit", { status: 429 }));
+			const accountPool = createPool();
+
+			const fetcher = createCodexFetcher({ ...baseDeps(), accountPool } as any);
+			const response = await fetcher("https://api.openai.com", {});
+
+			expect(accountPool.markExhausted).toHaveBeenCalledWith("acc-123", undefined);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			expect(handleErrorResponseMock).toHaveBeenCalled();
+			expect(response.status).toBe(429);
+		});
+
+		it("skips an exhausted primary account before sending", async () => {
+			transformRequestForCodexMock.mockResolvedValue({ body: { model: "gpt-5" } });
+			const accountPool = createPool({
+				isExhausted: vi.fn((id: string) => id === "acc-123"),
+				acquire: vi.fn().mockResolvedValue({ accountId: "acc-2", access: "access-2" }),
+			});
+
+			const fetcher = createCodexFetcher({ ...baseDeps(), accountPool } as any);
+			await fetcher("https://api.openai.com", {});
+
+			expect(accountPool.acquire).toHaveBeenCalledWith(["acc-123"]);
+			expect(createCodexHeadersMock).toHaveBeenCalledWith(
+				expect.any(Object),
+				"acc-2",
+				"access-2",
+				expect.any(Object),
+			);
+		});
+
+		it("stores rotated primary tokens in the pool and the Codex CLI file after a refresh", async () => {
+			const accountPool = createPool();
+			createCodexFetcher({ ...baseDeps(), accountPool } as any);
+			const rotated = {
+				type: "success" as const,
+				access: "new-access",
+				refresh: "new-refresh",
+				expires: Date.now() + 20_000,
+			};
+
+			tokenManagerOptions.current.onRefresh(rotated, "old-refresh");
+
+			expect(accountPool.addFromTokens).toHaveBeenCalledWith(rotated);
+			expect(syncCodexCliTokensMock).toHaveBeenCalledWith("old-refresh", rotated);
+		});
+	});
 });
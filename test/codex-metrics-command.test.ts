@@ -1,6 +1,8 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { resetCacheMetrics } from "../lib/cache/cache-metrics.js";
 import { maybeHandleCodexCommand } from "../lib/commands/codex-metrics.js";
+import { resetConcurrencyMetrics } from "../lib/request/concurrency-limiter.js";
+import { recordModelFallback, resetModelFallbackMetrics } from "../lib/request/model-fallback.js";
 import { SessionManager } from "../lib/session/session-manager.js";
 import type { RequestBody } from "../lib/types.js";
 
@@ -50,6 +52,8 @@ async function readCommandPayload(response: Response) {
 describe("maybeHandleCodexCommand", () => {
 	beforeEach(() => {
 		resetCacheMetrics();
+		resetModelFallbackMetrics();
+		resetConcurrencyMetrics();
 	});
 
 	it("ignores non-command messages", () => {
@@ -108,6 +112,34 @@ describe("maybeHandleCodexCommand", () => {
 		expect(payload.metadata.promptCache.recentSessions[0].id).toBe("metrics-session");
 	});
 
+	it("reports model downgrades in /codex-metrics", async () => {
+		recordModelFallback("gpt-5.1-codex-max", "gpt-5.1-codex");
+
+		const response = maybeHandleCodexCommand(buildBody("/codex-metrics"));
+		const { payload } = await readCommandPayload(response!);
+		expect(payload.metadata.modelFallback.total).toBe(1);
+		expect(payload.metadata.modelFallback.recent[0]).toMatchObject({
+			from: "gpt-5.1-codex-max",
+			to: "gpt-5.1-codex",
+		});
+		expect(payload.output[0].content[0].text).toContain("gpt-5.1-codex-max -> gpt-5.1-codex");
+	});
+
+	it("reports request queue depth and waits in /codex-metrics", async () => {
+		const response = maybeHandleCodexCommand(buildBody("/codex-metrics"));
+		const { payload } = await readCommandPayload(response!);
+		expect(payload.metadata.requestQueue).toEqual({
+			inFlight: 0,
+			queueDepth: 0,
+			maxQueueDepth: 0,
+			queuedRequests: 0,
+			queueTimeouts: 0,
+			averageWaitMs: 0,
+			maxWaitMs: 0,
+		});
+		expect(payload.output[0].content[0].text).toContain("Request Queue");
+	});
+
 	it("handles /codex-metrics with additional arguments", async () => {
 		const body = buildBody("/codex-metrics detailed");
 		const response = maybeHandleCodexCommand(body);
@@ -347,4 +379,190 @@ describe("maybeHandleCodexCommand", () => {
 		const { payload } = await readCommandPayload(response!);
 		expect(payload.model).toBe("gpt-5"); // fallback model
 	});
+
+	describe("/codex-accounts", () => {
+		const createPool = (accounts: Array<{ accountId: string; exhaustedUntil?: number }>) => ({
+			list: vi.fn(() => accounts),
+			remove: vi.fn((id: string) => accounts.find((account) => account.accountId === id)),
+		});
+
+		it("lists pooled accounts with their quota status", async () => {
+			const accountPool = createPool([
+				{ accountId: "acc-plus" },
+				{ accountId: "acc-pro", exhaustedUntil: Date.now() + 60_000 },
+			]);
+			const response = maybeHandleCodexCommand(buildBody("/codex-accounts"), {
+				accountPool: accountPool as any,
+			});
+			const { payload } = await readCommandPayload(response!);
+			const text = payload.output[0].content[0].text as string;
+			expect(payload.metadata.command).toBe("codex-accounts");
+			expect(text).toContain("acc-plus (available)");
+			expect(text).toContain("acc-pro (usage limit reached");
+		});
+
+		it("removes an account by ID", async () => {
+			const accountPool = createPool([{ accountId: "acc-plus" }]);
+			const response = maybeHandleCodexCommand(buildBody("/codex-accounts remove acc-plus"), {
+				accountPool: accountPool as any,
+			});
+			const { payload } = await readCommandPayload(response!);
+			expect(accountPool.remove).toHaveBeenCalledWith("acc-plus");
+			expect(payload.metadata.removedAccountId).toBe("acc-plus");
+			expect(payload.output[0].content[0].text).toContain("Removed account acc-plus");
+		});
+
+		it("matches the subcommand in any case", async () => {
+			const accountPool = createPool([{ accountId: "acc-plus" }]);
+			for (const command of ["/codex-accounts Remove acc-plus", "/codex-accounts REMOVE acc-plus"]) {
+				const response = maybeHandleCodexCommand(buildBody(command), { accountPool: accountPool as any });
+				const { payload } = await readCommandPayload(response!);
+				expect(payload.metadata.action).toBe("remove");
+				expect(payload.metadata.removedAccountId).toBe("acc-plus");
+			}
+			expect(accountPool.remove).toHaveBeenCalledTimes(2);
+		});
+
+		it("keeps the case of the account ID", async () => {
+			const accountPool = createPool([{ accountId: "user-AbC123" }]);
+			const response = maybeHandleCodexCommand(buildBody("/Codex-Accounts Remove user-AbC123"), {
+				accountPool: accountPool as any,
+			});
+			const { payload } = await readCommandPayload(response!);
+			expect(accountPool.remove).toHaveBeenCalledWith("user-AbC123");
+			expect(payload.metadata.removedAccountId).toBe("user-AbC123");
+		});
+
+		it("reports unknown accounts and an empty pool", async () => {
+			const response = maybeHandleCodexCommand(buildBody("/codexaccounts remove nobody"));
+			const { payload } = await readCommandPayload(response!);
+			const text = payload.output[0].content[0].text as string;
+			expect(text).toContain("No pooled account matches nobody");
+			expect(text).toContain("No pooled accounts");
+		});
+	});
+
+	describe("/codex-whoami", () => {
+		const jwt = (payload: Record<string, unknown>) =>
+			`header.${Buffer.from(JSON.stringify(payload)).toString("base64url")}.signature`;
+
+		it("shows the pooled identity for the active account", async () => {
+			const expires = Date.now() + 30 * 60_000;
+			const accountPool = {
+				get: vi.fn(() => ({
+					accountId: "acc-pro",
+					expires,
+					identity: {
+						email: "dev@example.com",
+						planType: "pro",
+						userId: "user-1",
+						organizations: [{ id: "org-1", title: "Personal", role: "owner", isDefault: true }],
+					},
+				})),
+			};
+
+			const response = maybeHandleCodexCommand(buildBody("/codex-whoami"), {
+				accountPool: accountPool as any,
+				accountId: "acc-pro",
+				workspaceId: "org-1",
+			});
+			const { payload } = await readCommandPayload(response!);
+			const text = payload.output[0].content[0].text as string;
+
+			expect(accountPool.get).toHaveBeenCalledWith("acc-pro");
+			expect(payload.metadata).toMatchObject({
+				command: "codex-whoami",
+				accountId: "acc-pro",
+				email: "dev@example.com",
+				planType: "pro",
+				accessTokenExpiresAt: expires,
+			});
+			expect(text).toContain("- Email: dev@example.com");
+			expect(text).toContain("- Plan: pro");
+			expect(text).toContain("- Workspace: Personal (org-1)");
+			expect(text).toContain("- Personal (org-1) [owner, default]");
+		});
+
+		it("decodes the current access token when the account is not pooled", async () => {
+			const accessToken = jwt({
+				"https://api.openai.com/auth": { chatgpt_plan_type: "plus" },
+				"https://api.openai.com/profile": { email: "plus@example.com" },
+			});
+
+			const response = maybeHandleCodexCommand(buildBody("/codexwhoami"), {
+				accountId: "acc-plus",
+				accessToken,
+				accessTokenExpiresAt: Date.now() + 60_000,
+			});
+			const { payload } = await readCommandPayload(response!);
+			const text = payload.output[0].content[0].text as string;
+
+			expect(text).toContain("- Email: plus@example.com");
+			expect(text).toContain("- Plan: plus");
+			expect(text).toContain("- ChatGPT account ID: acc-plus");
+			expect(text).toContain("- Workspace: acc-plus");
+			expect(text).toContain("log in again to capture id_token claims");
+		});
+	});
+	describe("/codex-logout", () => {
+		it("signs out and reports what was cleaned up", async () => {
+			const logout = vi.fn().mockResolvedValue({
+				cleared: true,
+				revocation: "revoked",
+				removedAccountId: "acc-1",
+			});
+
+			const response = await maybeHandleCodexCommand(buildBody("/codex-logout"), { logout });
+			const { payload } = await readCommandPayload(response!);
+			const text = payload.output[0].content[0].text as string;
+
+			expect(logout).toHaveBeenCalledTimes(1);
+			expect(payload.metadata).toEqual({
+				command: "codex-logout",
+				cleared: true,
+				revocation: "revoked",
+				removedAccountId: "acc-1",
+			});
+			expect(text).toContain("- Stored credentials: cleared");
+			expect(text).toContain("- Token revocation: refresh token revoked");
+			expect(text).toContain("- Removed account acc-1 from the pool");
+		});
+
+		it("explains a skipped revocation", async () => {
+			const logout = vi.fn().mockResolvedValue({ cleared: true, revocation: "skipped" });
+
+			const response = await maybeHandleCodexCommand(buildBody("/codexlogout"), { logout });
+			const { payload } = await readCommandPayload(response!);
+
+			expect(payload.output[0].content[0].text).toContain("no `oauth.revocationUrl` configured");
+		});
+	});
+
+	describe("/codex-inspect", () => {
+		it("reports the context guard trim for the request", async () => {
+			const contextTrim = {
+				limit: 1000,
+				estimatedTokens: 1400,
+				trimmedTokens: 700,
+				removedTurns: 3,
+				removedItems: 8,
+			};
+
+			const response = maybeHandleCodexCommand(buildBody("/codex-inspect"), { contextTrim });
+			const { payload } = await readCommandPayload(response as Response);
+			const text = payload.output[0].content[0].text as string;
+
+			expect(payload.metadata.contextTrim).toEqual(contextTrim);
+			expect(text).toContain("- Budget: 1000 tokens");
+			expect(text).toContain("- Estimated: 1400 tokens before trim, 700 after");
+			expect(text).toContain("- Dropped: 3 turn(s), 8 item(s)");
+		});
+
+		it("notes when nothing was trimmed", async () => {
+			const response = maybeHandleCodexCommand(buildBody("/codex-inspect"));
+			const { payload } = await readCommandPayload(response as Response);
+
+			expect(payload.output[0].content[0].text).toContain("- Trimmed: no");
+		});
+	});
 });
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	ConcurrencyLimiter,
+	getConcurrencySnapshot,
+	isQueueTimeoutResponse,
+	resetConcurrencyMetrics,
+	resolveConcurrency,
+} from "../lib/request/concurrency-limiter.js";
+
+const logWarnMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logDebug: vi.fn(),
+	logWarn: logWarnMock,
+}));
+
+function deferred() {
+	let resolve!: (response: Response) => void;
+	const promise = new Promise<Response>((res) => {
+		resolve = res;
+	});
+	return { promise, resolve };
+}
+
+describe("ConcurrencyLimiter", () => {
+	beforeEach(() => {
+		resetConcurrencyMetrics();
+		logWarnMock.mockClear();
+	});
+
+	it("fills in defaults and treats 0 as unlimited", async () => {
+		expect(resolveConcurrency()).toEqual({ maxInFlight: 4, maxQueueWaitMs: 60_000 });
+
+		const limiter = new ConcurrencyLimiter({ maxInFlight: 0 });
+		const send = vi.fn(async () => new Response("ok"));
+		await Promise.all([1, 2, 3].map(() => limiter.run("acc", "background", send)));
+		expect(send).toHaveBeenCalledTimes(3);
+		expect(getConcurrencySnapshot().queuedRequests).toBe(0);
+	});
+
+	it("holds a slot until the response body is read", async () => {
+		const limiter = new ConcurrencyLimiter({ maxInFlight: 1 });
+		const first = await limiter.run("acc", "interactive", async () => new Response("one"));
+		const second = limiter.run("acc", "interactive", async () => new Response("two"));
+
+		await Promise.resolve();
+		expect(getConcurrencySnapshot()).toMatchObject({ inFlight: 1, queueDepth: 1 });
+
+		expect(await first.text()).toBe("one");
+		expect(await (await second).text()).toBe("two");
+		expect(getConcurrencySnapshot()).toMatchObject({ inFlight: 0, queueDepth: 0, queuedRequests: 1 });
+	});
+
+	it("serves queued interactive turns before background requests, FIFO within each", async () => {
+		const limiter = new ConcurrencyLimiter({ maxInFlight: 1 });
+		const order: string[] = [];
+		const blocker = deferred();
+		const running = limiter.run("acc", "interactive", () => blocker.promise);
+		const queued = [
+			limiter.run("acc", "background", async () => {
+				order.push("title");
+				return new Response(null);
+			}),
+			limiter.run("acc", "interactive", async () => {
+				order.push("turn-1");
+				return new Response(null);
+			}),
+			limiter.run("acc", "interactive", async () => {
+				order.push("turn-2");
+				return new Response(null);
+			}),
+		];
+
+		blocker.resolve(new Response(null));
+		await running;
+		await Promise.all(queued);
+		expect(order).toEqual(["turn-1", "turn-2", "title"]);
+	});
+
+	it("limits each account separately", async () => {
+		const limiter = new ConcurrencyLimiter({ maxInFlight: 1 });
+		const blocker = deferred();
+		void limiter.run("acc-1", "interactive", () => blocker.promise);
+
+		const other = await limiter.run("acc-2", "interactive", async () => new Response(null));
+		expect(other.status).toBe(200);
+		expect(getConcurrencySnapshot().queuedRequests).toBe(0);
+		blocker.resolve(new Response(null));
+	});
+
+	it("returns a 503 queue_timeout once maxQueueWaitMs passes", async () => {
+		const limiter = new ConcurrencyLimiter({ maxInFlight: 1, maxQueueWaitMs: 10 });
+		const blocker = deferred();
+		void limiter.run("acc", "interactive", () => blocker.promise);
+		const send = vi.fn(async () => new Response("late"));
+
+		const response = await limiter.run("acc", "background", send);
+
+		expect(response.status).toBe(503);
+		expect(isQueueTimeoutResponse(response)).toBe(true);
+		expect(isQueueTimeoutResponse(new Response("busy", { status: 503 }))).toBe(false);
+		expect(await response.json()).toMatchObject({ error: { code: "queue_timeout" } });
+		expect(send).not.toHaveBeenCalled();
+		expect(getConcurrencySnapshot()).toMatchObject({ queueDepth: 0, queueTimeouts: 1 });
+		expect(logWarnMock).toHaveBeenCalled();
+		blocker.resolve(new Response(null));
+	});
+
+	it("drops aborted requests from the queue and frees slots on cancel", async () => {
+		const limiter = new ConcurrencyLimiter({ maxInFlight: 1 });
+		const held = await limiter.run("acc", "interactive", async () => new Response("stream"));
+		const controller = new AbortController();
+		const waiting = limiter.run("acc", "interactive", async () => new Response(null), controller.signal);
+
+		controller.abort(new Error("cancelled"));
+		await expect(waiting).rejects.toThrow("cancelled");
+		expect(getConcurrencySnapshot().queueDepth).toBe(0);
+
+		await held.body?.cancel();
+		expect(getConcurrencySnapshot().inFlight).toBe(0);
+	});
+
+	it("frees the slot when the send fails", async () => {
+		const limiter = new ConcurrencyLimiter({ maxInFlight: 1 });
+		await expect(
+			limiter.run("acc", "interactive", async () => {
+				throw new TypeError("fetch failed");
+			}),
+		).rejects.toThrow("fetch failed");
+		expect(getConcurrencySnapshot().inFlight).toBe(0);
+	});
+});
@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { estimateRequestTokens, estimateTokens, trimToContextLimit } from "../lib/request/context-guard.js";
+import { getContextLimit } from "../lib/request/model-config.js";
+import { transformRequestBody } from "../lib/request/request-transformer.js";
+import type { InputItem, RequestBody, SessionContext, UserConfig } from "../lib/types.js";
+
+const logWarnMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logDebug: vi.fn(),
+	logInfo: vi.fn(),
+	logWarn: logWarnMock,
+}));
+
+const filler = "x".repeat(400);
+
+function user(text: string): InputItem {
+	return { type: "message", role: "user", content: `${text} ${filler}` };
+}
+
+function assistant(text: string): InputItem {
+	return { type: "message", role: "assistant", content: `${text} ${filler}` };
+}
+
+function toolCall(callId: string): InputItem[] {
+	return [
+		{ type: "function_call", role: "assistant", call_id: callId, name: "read", arguments: "{}" },
+		{ type: "function_call_output", role: "tool", call_id: callId, output: filler },
+	];
+}
+
+function conversation(turns: number): InputItem[] {
+	const input: InputItem[] = [{ type: "message", role: "developer", content: "bridge" }];
+	for (let turn = 1; turn <= turns; turn++) {
+		input.push(user(`question ${turn}`), ...toolCall(`call_${turn}`), assistant(`answer ${turn}`));
+	}
+	return input;
+}
+
+describe("context guard", () => {
+	beforeEach(() => {
+		logWarnMock.mockClear();
+	});
+
+	it("estimates instructions, tools and input", () => {
+		const body: RequestBody = {
+			model: "gpt-5.1-codex",
+			instructions: "a".repeat(40),
+			tools: [{ name: "read" }],
+			input: [user("hi")],
+		};
+
+		expect(estimateTokens("a".repeat(40))).toBe(10);
+		expect(estimateRequestTokens(body)).toBe(
+			10 + estimateTokens([{ name: "read" }]) + estimateTokens(user("hi")),
+		);
+	});
+
+	it("leaves requests within budget untouched", () => {
+		const input = conversation(3);
+		const result = trimToContextLimit({ model: "gpt-5.1-codex", input }, 100_000);
+
+		expect(result.trim).toBeUndefined();
+		expect(result.input).toBe(input);
+		expect(logWarnMock).not.toHaveBeenCalled();
+	});
+
+	it("drops the oldest whole turns and keeps the preamble and latest turn", () => {
+		const input = conversation(6);
+		const body: RequestBody = { model: "gpt-5.1-codex", input };
+		const limit = Math.floor(estimateRequestTokens(body) * 0.7);
+
+		const { input: trimmed, trim } = trimToContextLimit(body, limit);
+
+		expect(trim?.removedTurns).toBeGreaterThan(0);
+		expect(trim?.removedItems).toBe((trim?.removedTurns ?? 0) * 4);
+		expect(trim?.trimmedTokens).toBeLessThanOrEqual(Math.floor(limit * 0.8));
+		expect(trimmed[0]).toEqual(input[0]);
+		expect(trimmed[1]).toEqual(user(`question ${(trim?.removedTurns ?? 0) + 1}`));
+		expect(trimmed.at(-1)).toEqual(assistant("answer 6"));
+		expect(logWarnMock).toHaveBeenCalledWith(expect.stringContaining("dropped the oldest"), trim);
+	});
+
+	it("drops outputs whose call was in a dropped turn", () => {
+		const [callItem, outputItem] = toolCall("call_split");
+		const input = [user("first"), callItem, user("second"), outputItem, assistant("done"), user("third")];
+		const body: RequestBody = { model: "gpt-5.1-codex", input };
+		const limit = estimateRequestTokens({ ...body, input: input.slice(2) });
+
+		const { input: trimmed } = trimToContextLimit(body, limit);
+
+		expect(trimmed.some((item) => item.call_id === "call_split")).toBe(false);
+		expect(trimmed.at(-1)).toEqual(user("third"));
+	});
+
+	it("keeps dropping the same turns while the rest still fits", () => {
+		const input = conversation(8);
+		const body: RequestBody = { model: "gpt-5.1-codex", input };
+		const limit = Math.floor(estimateRequestTokens(body) * 0.9);
+		const first = trimToContextLimit(body, limit);
+		const removed = first.trim?.removedTurns ?? 0;
+
+		const grown: RequestBody = { model: "gpt-5.1-codex", input: [...input, user("follow-up")] };
+		const second = trimToContextLimit(grown, limit, removed);
+
+		expect(second.trim?.removedTurns).toBe(removed);
+		expect(second.input.slice(0, first.input.length)).toEqual(first.input);
+	});
+
+	it("splits turns at AI SDK messages that omit the item type", () => {
+		const input = conversation(4).map(({ type, ...item }) => (type === "message" ? item : { type, ...item }));
+		const body: RequestBody = { model: "gpt-5.1-codex", input };
+		const limit = Math.floor(estimateRequestTokens(body) * 0.7);
+
+		const { input: trimmed, trim } = trimToContextLimit(body, limit);
+
+		expect(trim?.removedTurns).toBeGreaterThan(0);
+		expect(trimmed[0]).toEqual({ role: "developer", content: "bridge" });
+		expect(trimmed[1]).toEqual({
+			role: "user",
+			content: `question ${(trim?.removedTurns ?? 0) + 1} ${filler}`,
+		});
+	});
+
+	it("never drops the only turn", () => {
+		const input = [user("huge")];
+		const { input: trimmed, trim } = trimToContextLimit({ model: "gpt-5.1-codex", input }, 10);
+
+		expect(trimmed).toEqual(input);
+		expect(trim?.removedTurns).toBe(0);
+		expect(logWarnMock).toHaveBeenCalledWith(expect.stringContaining("no older turns"), trim);
+	});
+
+	it("reads the input budget from the opencode model limit", () => {
+		const userConfig: UserConfig = {
+			global: {},
+			models: {
+				"gpt-5.1-codex": { limit: { context: 400_000, output: 128_000 } },
+				"no-output": { limit: { context: 200_000 } },
+			},
+		};
+
+		expect(getContextLimit("gpt-5.1-codex", userConfig)).toBe(272_000);
+		expect(getContextLimit("no-output", userConfig)).toBe(200_000);
+		expect(getContextLimit("unknown", userConfig)).toBeUndefined();
+	});
+
+	it("trims inside transformRequestBody and remembers the trim on the session", async () => {
+		const input = conversation(6);
+		const limit = Math.floor(estimateRequestTokens({ model: "gpt-5.1-codex", input }) * 0.5);
+		const userConfig: UserConfig = {
+			global: {},
+			models: { "gpt-5.1-codex": { limit: { context: limit } } },
+		};
+		const sessionContext = {
+			sessionId: "s1",
+			enabled: true,
+			preserveIds: false,
+			isNew: false,
+			state: {
+				id: "s1",
+				promptCacheKey: "s1",
+				store: false,
+				lastInput: [],
+				lastPrefixHash: null,
+				lastUpdated: 0,
+			},
+		} satisfies SessionContext;
+
+		const result = await transformRequestBody(
+			{ model: "gpt-5.1-codex", input },
+			"instructions",
+			userConfig,
+			false,
+			{},
+			sessionContext,
+		);
+
+		expect(result.contextTrim?.removedTurns).toBeGreaterThan(0);
+		expect(sessionContext.state.contextTrimTurns).toBe(result.contextTrim?.removedTurns);
+		expect(result.body.input?.length).toBe(input.length - (result.contextTrim?.removedItems ?? 0));
+	});
+});
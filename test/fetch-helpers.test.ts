@@ -2,20 +2,14 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { OPENAI_HEADER_VALUES, OPENAI_HEADERS } from "../lib/constants.js";
 import {
 	createCodexHeaders,
+	createPlatformHeaders,
+	detectUsageLimit,
 	extractRequestUrl,
 	handleErrorResponse,
 	handleSuccessResponse,
-	refreshAndUpdateToken,
 	rewriteUrlForCodex,
-	shouldRefreshToken,
 	transformRequestForCodex,
 } from "../lib/request/fetch-helpers.js";
-import type { Auth } from "../lib/types.js";
-
-vi.mock("../lib/auth/auth.js", () => ({
-	__esModule: true,
-	refreshAccessToken: vi.fn(),
-}));
 
 vi.mock("../lib/logger.js", () => ({
 	__esModule: true,
@@ -38,12 +32,10 @@ vi.mock("../lib/request/response-handler.js", () => ({
 }));
 
 // Get mocked functions after import
-const { refreshAccessToken } = await import("../lib/auth/auth.js");
 const { logRequest, logDebug, logError } = await import("../lib/logger.js");
 const { transformRequestBody } = await import("../lib/request/request-transformer.js");
 const { convertSseToJson, ensureContentType } = await import("../lib/request/response-handler.js");
 
-const refreshAccessTokenMock = vi.mocked(refreshAccessToken);
 const _logRequestMock = vi.mocked(logRequest);
 const _logDebugMock = vi.mocked(logDebug);
 const logErrorMock = vi.mocked(logError);
@@ -65,43 +57,6 @@ afterEach(() => {
 });
 
 describe("Fetch Helpers Module", () => {
-	describe("shouldRefreshToken", () => {
-		it("should return true for non-oauth auth", () => {
-			const auth: Auth = { type: "api", key: "test-key" };
-			expect(shouldRefreshToken(auth)).toBe(true);
-		});
-
-		it("should return true when access token is missing", () => {
-			const auth: Auth = {
-				type: "oauth",
-				access: "",
-				refresh: "refresh-token",
-				expires: Date.now() + 1000,
-			};
-			expect(shouldRefreshToken(auth)).toBe(true);
-		});
-
-		it("should return true when token is expired", () => {
-			const auth: Auth = {
-				type: "oauth",
-				access: "access-token",
-				refresh: "refresh-token",
-				expires: Date.now() - 1000, // expired
-			};
-			expect(shouldRefreshToken(auth)).toBe(true);
-		});
-
-		it("should return false for valid oauth token", () => {
-			const auth: Auth = {
-				type: "oauth",
-				access: "access-token",
-				refresh: "refresh-token",
-				expires: Date.now() + 10000, // valid for 10 seconds
-			};
-			expect(shouldRefreshToken(auth)).toBe(false);
-		});
-	});
-
 	describe("extractRequestUrl", () => {
 		it("should extract URL from string", () => {
 			const url = "https://example.com/test";
@@ -137,6 +92,29 @@ describe("Fetch Helpers Module", () => {
 		});
 	});
 
+	describe("createPlatformHeaders", () => {
+		it("authenticates with the API key and drops ChatGPT backend headers", () => {
+			const init = {
+				headers: {
+					"x-api-key": "should-be-removed",
+					[OPENAI_HEADERS.ACCOUNT_ID]: "acc-1",
+					[OPENAI_HEADERS.SESSION_ID]: "session-1",
+					"content-type": "application/json",
+				},
+			} as any;
+			const headers = createPlatformHeaders(init, "sk-test");
+
+			expect(headers.get("Authorization")).toBe("Bearer sk-test");
+			expect(headers.get("x-api-key")).toBeNull();
+			expect(headers.get(OPENAI_HEADERS.ACCOUNT_ID)).toBeNull();
+			expect(headers.get(OPENAI_HEADERS.BETA)).toBeNull();
+			expect(headers.get(OPENAI_HEADERS.ORIGINATOR)).toBeNull();
+			expect(headers.get(OPENAI_HEADERS.SESSION_ID)).toBeNull();
+			expect(headers.get("content-type")).toBe("application/json");
+			expect(headers.get("accept")).toBe("text/event-stream");
+		});
+	});
+
 	describe("createCodexHeaders", () => {
 		const accountId = "test-account-123";
 		const accessToken = "test-access-token";
@@ -192,68 +170,6 @@ describe("Fetch Helpers Module", () => {
 		});
 	});
 
-	describe("refreshAndUpdateToken", () => {
-		it("returns failure response when refresh fails", async () => {
-			refreshAccessTokenMock.mockResolvedValue({ type: "failed" });
-
-			const client = {
-				auth: {
-					set: vi.fn(),
-				},
-			} as unknown as { auth: { set: () => Promise<void> } };
-
-			const auth: Auth = {
-				type: "oauth",
-				access: "token",
-				refresh: "refresh",
-				expires: Date.now() - 1000,
-			};
-
-			const result = await refreshAndUpdateToken(auth, client as never);
-			expect(result.success).toBe(false);
-			if (!result.success) {
-				expect((await result.response.clone().json()).error).toBe("Token refresh failed");
-			}
-			expect(logErrorMock).toHaveBeenCalledWith("Failed to refresh token, authentication required");
-			expect(client.auth.set).not.toHaveBeenCalled();
-		});
-
-		it("updates stored credentials on success", async () => {
-			const newAuth = {
-				type: "success" as const,
-				access: "new-access",
-				refresh: "new-refresh",
-				expires: Date.now() + 1000,
-			};
-			refreshAccessTokenMock.mockResolvedValue(newAuth);
-			const setMock = vi.fn();
-			const client = { auth: { set: setMock } };
-			const auth: Auth = {
-				type: "oauth",
-				access: "old-access",
-				refresh: "old-refresh",
-				expires: Date.now(),
-			};
-
-			const result = await refreshAndUpdateToken(auth, client as never);
-			expect(result.success).toBe(true);
-			if (result.success && result.auth.type === "oauth") {
-				expect(result.auth.access).toBe("new-access");
-				expect(result.auth.refresh).toBe("new-refresh");
-				expect(result.auth.expires).toBe(newAuth.expires);
-			}
-			expect(setMock).toHaveBeenCalledWith({
-				path: { id: "openai" },
-				body: {
-					type: "oauth",
-					access: "new-access",
-					refresh: "new-refresh",
-					expires: newAuth.expires,
-				},
-			});
-		});
-	});
-
 	describe("transformRequestForCodex", () => {
 		it("returns undefined when no body provided", async () => {
 			const result = await transformRequestForCodex(undefined, "url", "instructions", {
@@ -528,4 +444,37 @@ describe("Fetch Helpers Module", () => {
 			expect(json.error.message).toContain("usage limit");
 		});
 	});
+
+	describe("detectUsageLimit", () => {
+		it("returns reset time from the error body without consuming the response", async () => {
+			const resp = new Response(JSON.stringify({ error: { code: "usage_limit_reached", resets_at: 1700 } }), {
+				status: 429,
+			});
+			expect(await detectUsageLimit(resp)).toEqual({ code: "usage_limit_reached", resetsAt: 1_700_000 });
+			expect(await resp.text()).toContain("usage_limit_reached");
+		});
+
+		it("prefers the exhausted bucket reset from rate-limit headers", async () => {
+			const headers = new Headers({
+				"x-codex-primary-used-percent": "40",
+				"x-codex-primary-reset-at": "100",
+				"x-codex-secondary-used-percent": "100",
+				"x-codex-secondary-reset-at": "900",
+			});
+			const resp = new Response(JSON.stringify({ error: { type: "usage_limit_reached" } }), {
+				status: 429,
+				headers,
+			});
+			expect(await detectUsageLimit(resp)).toEqual({ code: "usage_limit_reached", resetsAt: 900_000 });
+		});
+
+		it("ignores other errors and successful responses", async () => {
+			const rateLimited = new Response(JSON.stringify({ error: { code: "rate_limit_exceeded" } }), {
+				status: 429,
+			});
+			expect(await detectUsageLimit(rateLimited)).toBeUndefined();
+			expect(await detectUsageLimit(new Response("<html>", { status: 502 }))).toBeUndefined();
+			expect(await detectUsageLimit(new Response("ok", { status: 200 }))).toBeUndefined();
+		});
+	});
 });
@@ -0,0 +1,203 @@
+import { deflateSync } from "node:zlib";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { maybeHandleCodexCommand } from "../lib/commands/codex-metrics.js";
+import { estimateRequestTokens } from "../lib/request/context-guard.js";
+import {
+	countPdfPages,
+	extractPdfText,
+	isFilePart,
+	listAttachments,
+	normalizeFilePart,
+	normalizeFileParts,
+} from "../lib/request/file-inputs.js";
+import { transformRequestBody } from "../lib/request/request-transformer.js";
+import type { InputItem } from "../lib/types.js";
+
+const logWarnMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logDebug: vi.fn(),
+	logInfo: vi.fn(),
+	logWarn: logWarnMock,
+}));
+
+function toBase64(text: string | Buffer): string {
+	return Buffer.from(text).toString("base64");
+}
+
+function buildPdf(text: string): Buffer {
+	const content = deflateSync(Buffer.from(`BT /F1 12 Tf 72 712 Td (${text}) Tj ET\nBT (Page \\(2\\)) Tj ET`));
+	return Buffer.concat([
+		Buffer.from("%PDF-1.4\n4 0 obj\n<< /Length 99 /Filter /FlateDecode >>\nstream\n", "latin1"),
+		content,
+		Buffer.from("\nendstream\nendobj\n%%EOF\n", "latin1"),
+	]);
+}
+
+function userMessage(...parts: unknown[]): InputItem {
+	return { type: "message", role: "user", content: [{ type: "input_text", text: "review this" }, ...parts] };
+}
+
+describe("file inputs", () => {
+	beforeEach(() => {
+		logWarnMock.mockClear();
+	});
+
+	it("recognizes file parts but not images", () => {
+		expect(isFilePart({ type: "file", mediaType: "application/pdf", data: "JVBER" })).toBe(true);
+		expect(isFilePart({ type: "input_file", file_id: "file-1" })).toBe(true);
+		expect(isFilePart({ type: "file", mediaType: "image/png", data: "iVBOR" })).toBe(false);
+		expect(isFilePart({ type: "input_text", text: "hi" })).toBe(false);
+	});
+
+	it("converts PDF and text file parts to input_file", () => {
+		const pdf = toBase64(buildPdf("Spec"));
+
+		expect(
+			normalizeFilePart({ type: "file", mediaType: "application/pdf", filename: "spec.pdf", data: pdf }),
+		).toEqual({ type: "input_file", filename: "spec.pdf", file_data: `data:application/pdf;base64,${pdf}` });
+		expect(
+			normalizeFilePart({
+				type: "file",
+				filename: "notes.md",
+				url: `data:text/markdown;base64,${toBase64("# Hi")}`,
+			}),
+		).toEqual({
+			type: "input_file",
+			filename: "notes.md",
+			file_data: `data:text/markdown;base64,${toBase64("# Hi")}`,
+		});
+		expect(normalizeFilePart({ type: "input_file", file_id: "file-1" })).toEqual({
+			type: "input_file",
+			file_id: "file-1",
+		});
+		expect(normalizeFilePart({ type: "file", filename: "a.pdf", url: "https://example.com/a.pdf" })).toEqual({
+			type: "input_file",
+			filename: "a.pdf",
+			file_url: "https://example.com/a.pdf",
+		});
+	});
+
+	it("extracts text from compressed PDF content streams", () => {
+		expect(extractPdfText(buildPdf("Hello spec"))).toBe("Hello spec\nPage (2)");
+	});
+
+	it("estimates inline files by page count or size for the context guard", () => {
+		const pages = Array.from({ length: 40 }, (_, index) => `${index + 3} 0 obj << /Type /Page >> endobj`);
+		const pdf = Buffer.from(`%PDF-1.4\n1 0 obj << /Type /Pages /Count 40 >> endobj\n${pages.join("\n")}`);
+		const tokensFor = (part: unknown) =>
+			estimateRequestTokens({ model: "gpt-5.1-codex", input: [userMessage(part)] }) -
+			estimateRequestTokens({ model: "gpt-5.1-codex", input: [userMessage()] });
+
+		expect(countPdfPages(pdf)).toBe(40);
+		expect(tokensFor({ type: "input_file", file_data: `data:application/pdf;base64,${toBase64(pdf)}` })).toBe(
+			40 * 1_500,
+		);
+		expect(
+			tokensFor({ type: "input_file", file_data: `data:text/plain;base64,${toBase64("y".repeat(400_000))}` }),
+		).toBe(100_000);
+		expect(tokensFor({ type: "input_file", file_id: "file-1" })).toBe(10_000);
+	});
+
+	it("sends large files as extracted text with a notice", () => {
+		const pdf = normalizeFilePart(
+			{
+				type: "file",
+				mediaType: "application/pdf",
+				filename: "big.pdf",
+				data: toBase64(buildPdf("Big spec")),
+			},
+			{ maxBytes: 10 },
+		);
+		const text = normalizeFilePart(
+			{ type: "file", mediaType: "text/plain", filename: "log.txt", data: toBase64("y".repeat(5000)) },
+			{ maxBytes: 1024, maxTextChars: 100 },
+		);
+
+		expect(pdf.type).toBe("input_text");
+		expect(pdf.text).toMatch(
+			/^\[Attached file "big\.pdf" is 1 KB, over the 0 KB attachment limit; its extracted/,
+		);
+		expect(pdf.text).toContain("Big spec");
+		expect(text.text).toContain(`${"y".repeat(100)}\n\n[... extracted text truncated at 100 characters ...]`);
+		expect(logWarnMock).toHaveBeenCalledTimes(2);
+	});
+
+	it("replaces unsupported files with a note", () => {
+		const zip = normalizeFilePart({
+			type: "file",
+			mediaType: "application/zip",
+			filename: "a.zip",
+			data: "UEsD",
+		});
+
+		expect(zip).toEqual({
+			type: "input_text",
+			text: "[Attached file omitted: unsupported type application/zip]",
+		});
+	});
+
+	it("keeps item IDs on the preserveIds path and converts the same way every turn", async () => {
+		const pdf = toBase64(buildPdf("Spec"));
+		const item: InputItem = {
+			...userMessage({ type: "file", mediaType: "application/pdf", filename: "spec.pdf", data: pdf }),
+			id: "msg_1",
+		};
+
+		const first = await transformRequestBody(
+			{ model: "gpt-5.1-codex", input: [item] },
+			"instructions",
+			undefined,
+			false,
+			{ preserveIds: true },
+		);
+		const second = await transformRequestBody(
+			{ model: "gpt-5.1-codex", input: [item, { type: "message", role: "user", content: "and?" }] },
+			"instructions",
+			undefined,
+			false,
+			{ preserveIds: true },
+		);
+
+		expect(first.body.input?.[0].id).toBe("msg_1");
+		expect((first.body.input?.[0].content as unknown[])[1]).toEqual({
+			type: "input_file",
+			filename: "spec.pdf",
+			file_data: `data:application/pdf;base64,${pdf}`,
+		});
+		expect(second.body.input?.[0]).toEqual(first.body.input?.[0]);
+		expect(normalizeFileParts(first.body.input![0])).toEqual(first.body.input?.[0]);
+	});
+
+	it("lists attachments in /codex-inspect", async () => {
+		const input = [
+			userMessage(
+				{ type: "input_image", image_url: "https://example.com/shot.png" },
+				{
+					type: "input_file",
+					filename: "spec.pdf",
+					file_data: `data:application/pdf;base64,${toBase64("x".repeat(3000))}`,
+				},
+				{
+					type: "input_text",
+					text: '[Attached file "big.pdf" is 12000 KB, over the 10240 KB attachment limit; ...]',
+				},
+			),
+			{ type: "message", role: "user", content: "/codex-inspect" },
+		];
+
+		expect(listAttachments(input)).toEqual([
+			{ kind: "image", name: "https://example.com/shot.png", bytes: undefined },
+			{ kind: "file", name: "spec.pdf", bytes: 3000 },
+			{ kind: "file-text", name: "big.pdf", bytes: 12000 * 1024 },
+		]);
+
+		const response = maybeHandleCodexCommand({ model: "gpt-5.1-codex", input });
+		const text = await (response as Response).text();
+
+		expect(text).toContain("- spec.pdf (file, 3 KB)");
+		expect(text).toContain("- big.pdf (file, sent as extracted text, 12000 KB)");
+		expect(text).toContain("- https://example.com/shot.png (image)");
+	});
+});
@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { generateInputHash } from "../lib/cache/prompt-fingerprinting.js";
+import { maybeHandleCodexCommand } from "../lib/commands/codex-metrics.js";
+import { estimateRequestTokens } from "../lib/request/context-guard.js";
+import { isImagePart, normalizeImagePart, normalizeImageParts } from "../lib/request/image-inputs.js";
+import { filterInput } from "../lib/request/input-filters.js";
+import { decodePng, encodePng } from "../lib/request/png-resize.js";
+import type { InputItem } from "../lib/types.js";
+import { extractTextFromItem } from "../lib/utils/input-item-utils.js";
+
+const logWarnMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logDebug: vi.fn(),
+	logWarn: logWarnMock,
+}));
+
+const PNG_BASE64 =
+	"iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+const PNG_DATA_URL = `data:image/png;base64,${PNG_BASE64}`;
+
+function userMessage(...parts: unknown[]): InputItem {
+	return {
+		type: "message",
+		role: "user",
+		content: [{ type: "input_text", text: "what is this?" }, ...parts],
+	};
+}
+
+describe("image inputs", () => {
+	beforeEach(() => {
+		logWarnMock.mockClear();
+	});
+
+	it("recognizes image parts in every supported shape", () => {
+		expect(isImagePart({ type: "input_image", image_url: PNG_DATA_URL })).toBe(true);
+		expect(isImagePart({ type: "image_url", image_url: { url: PNG_DATA_URL } })).toBe(true);
+		expect(isImagePart({ type: "image", image: PNG_BASE64, mediaType: "image/png" })).toBe(true);
+		expect(isImagePart({ type: "file", mediaType: "image/jpeg", data: PNG_BASE64 })).toBe(true);
+		expect(isImagePart({ type: "file", mediaType: "application/pdf", data: "JVBER" })).toBe(false);
+		expect(isImagePart({ type: "input_text", text: "hi" })).toBe(false);
+		expect(isImagePart(null)).toBe(false);
+	});
+
+	it("converts AI SDK and chat-style parts to input_image", () => {
+		expect(normalizeImagePart({ type: "image", image: PNG_BASE64, mediaType: "image/png" })).toEqual({
+			type: "input_image",
+			image_url: PNG_DATA_URL,
+		});
+		expect(normalizeImagePart({ type: "file", mediaType: "image/png", url: PNG_DATA_URL })).toEqual({
+			type: "input_image",
+			image_url: PNG_DATA_URL,
+		});
+		expect(
+			normalizeImagePart({
+				type: "image_url",
+				image_url: { url: "https://example.com/a.png", detail: "high" },
+			}),
+		).toEqual({ type: "input_image", image_url: "https://example.com/a.png", detail: "high" });
+		expect(normalizeImagePart({ type: "input_image", file_id: "file-1" })).toEqual({
+			type: "input_image",
+			file_id: "file-1",
+		});
+	});
+
+	it("applies the configured detail level", () => {
+		const part = normalizeImagePart(
+			{ type: "input_image", image_url: PNG_DATA_URL, detail: "high" },
+			{ detail: "low" },
+		);
+
+		expect(part).toEqual({ type: "input_image", image_url: PNG_DATA_URL, detail: "low" });
+	});
+
+	it("replaces unsupported or oversized images with a note", () => {
+		const svg = normalizeImagePart({ type: "input_image", image_url: "data:image/svg+xml;base64,PHN2Zz4=" });
+		const large = normalizeImagePart({ type: "input_image", image_url: PNG_DATA_URL }, { maxBytes: 10 });
+		const empty = normalizeImagePart({ type: "image" });
+
+		expect(svg).toEqual({ type: "input_text", text: "[Image omitted: unsupported format image/svg+xml]" });
+		expect(large.type).toBe("input_text");
+		expect(large.text).toContain("exceeds the 0 KB limit");
+		expect(empty).toEqual({ type: "input_text", text: "[Image omitted: no image data or URL]" });
+		expect(logWarnMock).toHaveBeenCalledTimes(3);
+	});
+
+	it("downscales PNG images to maxDimension before checking maxBytes", () => {
+		// Noise barely compresses, so the 200x200 original is well over the limit
+		let seed = 1;
+		const pixels = Uint8Array.from({ length: 200 * 200 * 4 }, () => {
+			seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+			return seed >>> 24;
+		});
+		const url = `data:image/png;base64,${encodePng({ width: 200, height: 200, pixels }).toString("base64")}`;
+
+		expect(normalizeImagePart({ type: "input_image", image_url: url }, { maxBytes: 20_000 }).type).toBe(
+			"input_text",
+		);
+		const image = normalizeImagePart(
+			{ type: "input_image", image_url: url },
+			{ maxBytes: 20_000, maxDimension: 50 },
+		);
+		expect(image.type).toBe("input_image");
+		const base64 = (image as { image_url: string }).image_url.replace("data:image/png;base64,", "");
+		expect(decodePng(Buffer.from(base64, "base64"))).toMatchObject({ width: 50, height: 50 });
+
+		// Small PNGs and other formats are sent unchanged
+		expect(
+			normalizeImagePart({ type: "input_image", image_url: PNG_DATA_URL }, { maxDimension: 50 }),
+		).toEqual({
+			type: "input_image",
+			image_url: PNG_DATA_URL,
+		});
+		const jpeg = "data:image/jpeg;base64,/9j/4AAQ";
+		expect(normalizeImagePart({ type: "input_image", image_url: jpeg }, { maxDimension: 1 })).toEqual({
+			type: "input_image",
+			image_url: jpeg,
+		});
+	});
+
+	it("only touches user messages and is stable when applied twice", () => {
+		const assistant: InputItem = {
+			type: "message",
+			role: "assistant",
+			content: [{ type: "image", image: "x" }],
+		};
+		const once = normalizeImageParts(userMessage({ type: "image_url", image_url: PNG_DATA_URL }), {
+			detail: "low",
+		});
+
+		expect(normalizeImageParts(assistant)).toBe(assistant);
+		expect(normalizeImageParts(once, { detail: "low" })).toEqual(once);
+	});
+
+	it("survives filterInput alongside ID stripping", () => {
+		const input = [{ ...userMessage({ type: "image", image: PNG_DATA_URL }), id: "msg_1" }];
+
+		const result = filterInput(input, { images: {} });
+
+		expect(result?.[0]).not.toHaveProperty("id");
+		expect((result?.[0].content as unknown[])[1]).toEqual({ type: "input_image", image_url: PNG_DATA_URL });
+		expect(filterInput(result)).toEqual(result);
+	});
+
+	it("is ignored by text extraction, commands, fingerprinting and token estimates", () => {
+		const image = { type: "input_image", image_url: PNG_DATA_URL };
+		const withImage = userMessage(image);
+		const withoutImage = userMessage();
+		const command: InputItem = {
+			type: "message",
+			role: "user",
+			content: [image, null, { type: "input_text", text: "/codex-inspect" }],
+		};
+
+		expect(extractTextFromItem(withImage)).toBe("what is this?");
+		expect(maybeHandleCodexCommand({ model: "gpt-5.1-codex", input: [command] })).toBeInstanceOf(Response);
+		expect(generateInputHash([withImage])).toBe(
+			generateInputHash([userMessage({ type: "input_image", image_url: "https://example.com/b.png" })]),
+		);
+		expect(estimateRequestTokens({ model: "gpt-5.1-codex", input: [withImage] })).toBe(
+			estimateRequestTokens({ model: "gpt-5.1-codex", input: [withoutImage] }) + 1000,
+		);
+	});
+});
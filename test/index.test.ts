@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { REDIRECT_URI } from "../lib/auth/auth.js";
+import { AUTH_LABELS, ERROR_MESSAGES } from "../lib/constants.js";
 
 const fetchMock = vi.fn();
 const codexFetchMock = vi.hoisted(() => vi.fn());
@@ -10,6 +11,7 @@ const decodeJWTMock = vi.hoisted(() =>
 );
 const loadPluginConfigMock = vi.hoisted(() => vi.fn(() => ({ enablePromptCaching: true })));
 const getCodexModeMock = vi.hoisted(() => vi.fn(() => true));
+const getCodexBaseUrlMock = vi.hoisted(() => vi.fn(() => "https://chatgpt.com/backend-api"));
 const getCodexInstructionsMock = vi.hoisted(() => vi.fn(() => Promise.resolve("instructions")));
 const areCachesWarmMock = vi.hoisted(() => vi.fn(() => Promise.resolve(false)));
 const warmCachesOnStartupMock = vi.hoisted(() => vi.fn(() => Promise.resolve()));
@@ -17,6 +19,7 @@ const createAuthorizationFlowMock = vi.hoisted(() => vi.fn());
 const exchangeAuthorizationCodeMock = vi.hoisted(() => vi.fn());
 const startLocalOAuthServerMock = vi.hoisted(() => vi.fn());
 const openBrowserUrlMock = vi.hoisted(() => vi.fn());
+const importCodexCliAuthMock = vi.hoisted(() => vi.fn());
 const logWarnMock = vi.hoisted(() => vi.fn());
 const logErrorMock = vi.hoisted(() => vi.fn());
 const sessionManagerInstance = vi.hoisted(() => ({
@@ -26,6 +29,12 @@ const sessionManagerInstance = vi.hoisted(() => ({
 }));
 const SessionManagerMock = vi.hoisted(() => vi.fn(() => sessionManagerInstance));
 const createCodexFetcherMock = vi.hoisted(() => vi.fn(() => codexFetchMock));
+const accountPoolInstance = vi.hoisted(() => ({
+	addFromTokens: vi.fn(),
+	get: vi.fn(),
+	setWorkspace: vi.fn(),
+}));
+const AccountPoolMock = vi.hoisted(() => vi.fn(() => accountPoolInstance));
 
 const getLastCallArgument = (calls: any[][], index: number): any => {
 	if (!calls.length) {
@@ -45,11 +54,22 @@ vi.mock("../lib/auth/auth.js", async () => {
 	};
 });
 
+vi.mock("../lib/auth/account-pool.js", () => ({
+	__esModule: true,
+	AccountPool: AccountPoolMock,
+}));
+
 vi.mock("../lib/auth/server.js", () => ({
 	__esModule: true,
 	startLocalOAuthServer: startLocalOAuthServerMock,
 }));
 
+vi.mock("../lib/auth/codex-cli-import.js", () => ({
+	__esModule: true,
+	getCodexCliAuthPath: () => "/home/dev/.codex/auth.json",
+	importCodexCliAuth: importCodexCliAuthMock,
+}));
+
 vi.mock("../lib/auth/browser.js", () => ({
 	__esModule: true,
 	openBrowserUrl: openBrowserUrlMock,
@@ -59,6 +79,7 @@ vi.mock("../lib/config.js", () => ({
 	__esModule: true,
 	loadPluginConfig: loadPluginConfigMock,
 	getCodexMode: getCodexModeMock,
+	getCodexBaseUrl: getCodexBaseUrlMock,
 }));
 
 vi.mock("../lib/prompts/codex.js", () => ({
@@ -115,19 +136,24 @@ describe("OpenAIAuthPlugin", () => {
 		exchangeAuthorizationCodeMock.mockReset();
 		startLocalOAuthServerMock.mockReset();
 		openBrowserUrlMock.mockReset();
+		importCodexCliAuthMock.mockReset();
 		SessionManagerMock.mockReset();
 		sessionManagerInstance.getContext.mockReset();
 		sessionManagerInstance.applyRequest.mockReset();
 		sessionManagerInstance.recordResponse.mockReset();
 		logWarnMock.mockReset();
 		logErrorMock.mockReset();
+		AccountPoolMock.mockClear();
+		accountPoolInstance.addFromTokens.mockReset();
+		accountPoolInstance.get.mockReset();
+		accountPoolInstance.setWorkspace.mockReset();
 	});
 
 	afterEach(() => {
 		vi.unstubAllGlobals();
 	});
 
-	it("returns empty loader result for non-oauth auth types", async () => {
+	it("returns empty loader result for unsupported auth types", async () => {
 		const { OpenAIAuthPlugin } = await import("../index.js");
 		const plugin = await OpenAIAuthPlugin({
 			client: { auth: { set: vi.fn() } },
@@ -136,11 +162,43 @@ describe("OpenAIAuthPlugin", () => {
 			worktree: "",
 			$: vi.fn(),
 		} as never);
-		const loaderResult = await plugin.auth?.loader?.(async () => ({ type: "api" }) as any, {} as any);
+		const loaderResult = await plugin.auth?.loader?.(
+			async () => ({ type: "wellknown", key: "k", token: "t" }) as any,
+			{} as any,
+		);
 		expect(loaderResult).toEqual({});
 		expect(createCodexFetcherMock).not.toHaveBeenCalled();
 	});
 
+	it("routes API-key auth to the Platform Responses API", async () => {
+		const fetcherInstance = vi.fn();
+		createCodexFetcherMock.mockReturnValue(fetcherInstance);
+
+		const { OpenAIAuthPlugin } = await import("../index.js");
+		const plugin = await OpenAIAuthPlugin({
+			client: { auth: { set: vi.fn() } },
+			project: "",
+			directory: "",
+			worktree: "",
+			$: vi.fn(),
+		} as never);
+		const config = await plugin.auth?.loader?.(
+			async () => ({ type: "api", key: "sk-test" }) as any,
+			{} as any,
+		);
+
+		expect(config).toEqual({
+			apiKey: "sk-test",
+			baseURL: "https://api.openai.com/v1",
+			fetch: fetcherInstance,
+		});
+		expect(getLastCallArgument(createCodexFetcherMock.mock.calls, 0)).toEqual(
+			expect.objectContaining({ apiKey: "sk-test", accountId: undefined, codexInstructions: "instructions" }),
+		);
+		expect(decodeJWTMock).not.toHaveBeenCalled();
+		expect(accountPoolInstance.addFromTokens).not.toHaveBeenCalled();
+	});
+
 	it("wires codex fetcher with derived dependencies", async () => {
 		const providerOverrides = {
 			options: { reasoningEffort: "high" },
@@ -167,6 +225,7 @@ describe("OpenAIAuthPlugin", () => {
 
 		const config = await plugin.auth?.loader?.(getAuth, providerOverrides as any);
 		expect(config?.fetch).toBe(fetcherInstance);
+		expect(config?.baseURL).toBe("https://chatgpt.com/backend-api");
 		const createFetcherArgs = getLastCallArgument(createCodexFetcherMock.mock.calls, 0);
 		expect(createFetcherArgs).toEqual(
 			expect.objectContaining({
@@ -179,8 +238,17 @@ describe("OpenAIAuthPlugin", () => {
 				codexMode: true,
 				sessionManager: expect.any(Object),
 				codexInstructions: "instructions",
+				accountPool: accountPoolInstance,
+				usageLedger: expect.any(Object),
+				projectDirectory: "",
 			}),
 		);
+		expect(accountPoolInstance.addFromTokens).toHaveBeenCalledWith({
+			type: "success",
+			access: "access-token",
+			refresh: "refresh-token",
+			expires: expect.any(Number),
+		});
 	});
 
 	it("handles missing account ID", async () => {
@@ -382,6 +450,165 @@ describe("OpenAIAuthPlugin", () => {
 		expect(closeMock).toHaveBeenCalled();
 		expect(exchangeAuthorizationCodeMock).toHaveBeenCalledWith("auth-code", flow.pkce.verifier, REDIRECT_URI);
 		expect(callbackResult).toEqual(tokenResponse);
+		expect(accountPoolInstance.addFromTokens).toHaveBeenCalledWith(tokenResponse);
+	});
+
+	it("routes requests to the workspace chosen at login unless the config pins one", async () => {
+		accountPoolInstance.get.mockReturnValue({ accountId: "acc-123", workspaceId: "org-team" });
+		const getAuth = vi.fn().mockResolvedValue({
+			type: "oauth",
+			access: "access-token",
+			refresh: "refresh-token",
+			expires: Date.now() + 10_000,
+		});
+		const pluginInput = {
+			client: { auth: { set: vi.fn() } },
+			project: "",
+			directory: "",
+			worktree: "",
+			$: vi.fn(),
+		} as never;
+
+		const { OpenAIAuthPlugin } = await import("../index.js");
+		await (await OpenAIAuthPlugin(pluginInput)).auth?.loader?.(getAuth, {} as any);
+		expect(getLastCallArgument(createCodexFetcherMock.mock.calls, 0)).toEqual(
+			expect.objectContaining({ accountId: "acc-123", workspaceId: "org-team" }),
+		);
+
+		loadPluginConfigMock.mockReturnValue({ enablePromptCaching: true, workspaceId: "org-pinned" } as never);
+		await (await OpenAIAuthPlugin(pluginInput)).auth?.loader?.(getAuth, {} as any);
+		expect(getLastCallArgument(createCodexFetcherMock.mock.calls, 0)).toEqual(
+			expect.objectContaining({ accountId: "acc-123", workspaceId: "org-pinned" }),
+		);
+	});
+
+	it("offers a workspace picker in the browser when the login spans several workspaces", async () => {
+		const flow = {
+			pkce: { challenge: "challenge", verifier: "verifier" },
+			state: "state-ws",
+			url: "https://codex.local/auth",
+		};
+		createAuthorizationFlowMock.mockResolvedValue(flow);
+		const chooseWorkspace = vi.fn().mockResolvedValue("org-team");
+		const closeMock = vi.fn();
+		startLocalOAuthServerMock.mockResolvedValue({
+			waitForCode: vi.fn().mockResolvedValue({ code: "auth-code" }),
+			chooseWorkspace,
+			close: closeMock,
+		});
+		exchangeAuthorizationCodeMock.mockResolvedValue({
+			type: "success",
+			access: "access-token",
+			refresh: "refresh-token",
+			expires: Date.now() + 10_000,
+		});
+		accountPoolInstance.addFromTokens.mockReturnValue({
+			accountId: "acc-123",
+			identity: { organizations: [{ id: "org-team", title: "Acme Team" }] },
+		});
+
+		const { OpenAIAuthPlugin } = await import("../index.js");
+		const plugin = await OpenAIAuthPlugin({
+			client: { auth: { set: vi.fn() } },
+			project: "",
+			directory: "",
+			worktree: "",
+			$: vi.fn(),
+		} as never);
+		const oauthMethod = plugin.auth?.methods?.find((method) => method.type === "oauth");
+		if (!oauthMethod || oauthMethod.type !== "oauth") throw new Error("OAuth method not registered");
+
+		const authorizeResult = await oauthMethod.authorize();
+		if (authorizeResult.method !== "auto") throw new Error("expected auto flow");
+		await authorizeResult.callback();
+
+		expect(chooseWorkspace).toHaveBeenCalledWith([
+			{ id: "acc-123", label: "Personal account", isTokenDefault: true },
+			{ id: "org-team", label: "Acme Team" },
+		]);
+		expect(openBrowserUrlMock).toHaveBeenLastCalledWith(
+			"http://localhost:1455/auth/workspace?state=state-ws",
+		);
+		expect(accountPoolInstance.setWorkspace).toHaveBeenCalledWith("acc-123", "org-team");
+		expect(closeMock).toHaveBeenCalled();
+	});
+
+	it("skips the workspace picker and preselects the workspace when the config pins one", async () => {
+		loadPluginConfigMock.mockReturnValue({ enablePromptCaching: true, workspaceId: "org-team" } as never);
+		createAuthorizationFlowMock.mockResolvedValue({
+			pkce: { challenge: "challenge", verifier: "verifier" },
+			state: "state-pinned",
+			url: "https://codex.local/auth",
+		});
+		const chooseWorkspace = vi.fn();
+		startLocalOAuthServerMock.mockResolvedValue({
+			waitForCode: vi.fn().mockResolvedValue({ code: "auth-code" }),
+			chooseWorkspace,
+			close: vi.fn(),
+		});
+		exchangeAuthorizationCodeMock.mockResolvedValue({
+			type: "success",
+			access: "access-token",
+			refresh: "refresh-token",
+			expires: Date.now() + 10_000,
+		});
+		accountPoolInstance.addFromTokens.mockReturnValue({
+			accountId: "acc-123",
+			identity: { organizations: [{ id: "org-team", title: "Acme Team" }] },
+		});
+
+		const { OpenAIAuthPlugin } = await import("../index.js");
+		const plugin = await OpenAIAuthPlugin({
+			client: { auth: { set: vi.fn() } },
+			project: "",
+			directory: "",
+			worktree: "",
+			$: vi.fn(),
+		} as never);
+		const oauthMethod = plugin.auth?.methods?.find((method) => method.type === "oauth");
+		if (!oauthMethod || oauthMethod.type !== "oauth") throw new Error("OAuth method not registered");
+
+		const authorizeResult = await oauthMethod.authorize();
+		if (authorizeResult.method !== "auto") throw new Error("expected auto flow");
+		await authorizeResult.callback();
+
+		expect(createAuthorizationFlowMock).toHaveBeenCalledWith({ workspaceId: "org-team" });
+		expect(chooseWorkspace).not.toHaveBeenCalled();
+		expect(accountPoolInstance.setWorkspace).not.toHaveBeenCalled();
+	});
+
+	it("imports the Codex CLI login without a browser flow", async () => {
+		const client = { auth: { set: vi.fn() } };
+		const tokens = { type: "success" as const, access: "cli-access", refresh: "cli-refresh", expires: 1 };
+		importCodexCliAuthMock
+			.mockResolvedValueOnce({ type: "success", tokens })
+			.mockResolvedValueOnce({ type: "failed", error: "No Codex CLI credentials found" });
+
+		const { OpenAIAuthPlugin } = await import("../index.js");
+		const plugin = await OpenAIAuthPlugin({
+			client,
+			project: "",
+			directory: "",
+			worktree: "",
+			$: vi.fn(),
+		} as never);
+		const importMethod = plugin.auth?.methods?.find(
+			(method) => method.label === AUTH_LABELS.CODEX_CLI_IMPORT,
+		);
+		if (!importMethod || importMethod.type !== "oauth") throw new Error("Import method not registered");
+
+		const authorizeResult = await importMethod.authorize();
+		if (authorizeResult.method !== "auto") throw new Error("expected auto flow");
+		expect(authorizeResult.instructions).toContain("/home/dev/.codex/auth.json");
+
+		await expect(authorizeResult.callback()).resolves.toEqual(tokens);
+		expect(importCodexCliAuthMock).toHaveBeenCalledWith(client, { authPath: "/home/dev/.codex/auth.json" });
+		expect(accountPoolInstance.addFromTokens).toHaveBeenCalledWith(tokens);
+		expect(createAuthorizationFlowMock).not.toHaveBeenCalled();
+		expect(openBrowserUrlMock).not.toHaveBeenCalled();
+
+		await expect(authorizeResult.callback()).resolves.toEqual({ type: "failed" });
+		expect(logErrorMock).toHaveBeenCalledWith("No Codex CLI credentials found");
 	});
 
 	it("returns a failed authorize callback when no code is provided", async () => {
@@ -421,6 +648,182 @@ describe("OpenAIAuthPlugin", () => {
 		expect(callbackResult).toEqual({ type: "failed" });
 	});
 
+	it("passes the configured callback port and timeout to the OAuth server", async () => {
+		loadPluginConfigMock.mockReturnValue({
+			enablePromptCaching: true,
+			oauth: { callbackPort: 1460, callbackTimeoutMs: 120_000 },
+		} as never);
+		createAuthorizationFlowMock.mockResolvedValue({
+			pkce: { challenge: "challenge", verifier: "verifier" },
+			state: "state-port",
+			url: "https://codex.local/auth",
+		});
+		startLocalOAuthServerMock.mockResolvedValue({ waitForCode: vi.fn(), close: vi.fn() });
+
+		const { OpenAIAuthPlugin } = await import("../index.js");
+		const plugin = await OpenAIAuthPlugin({
+			client: { auth: { set: vi.fn() } },
+			project: "",
+			directory: "",
+			worktree: "",
+			$: vi.fn(),
+		} as never);
+
+		const oauthMethod = plugin.auth?.methods?.find((method) => method.type === "oauth");
+		if (!oauthMethod || oauthMethod.type !== "oauth") throw new Error("OAuth method not registered");
+		await oauthMethod.authorize();
+
+		expect(startLocalOAuthServerMock).toHaveBeenCalledWith({
+			state: "state-port",
+			port: 1460,
+			timeoutMs: 120_000,
+		});
+	});
+
+	it("falls back to pasting the redirect URL when the callback port is busy", async () => {
+		const flow = {
+			pkce: { challenge: "challenge", verifier: "verifier" },
+			state: "state-busy",
+			url: "https://codex.local/auth",
+		};
+		createAuthorizationFlowMock.mockResolvedValue(flow);
+		const portError = "OAuth callback port 1455 is already in use by codex (pid 4242).";
+		startLocalOAuthServerMock.mockRejectedValue(new Error(portError));
+		const tokenResponse = {
+			type: "success" as const,
+			access: "access-token",
+			refresh: "refresh-token",
+			expires: Date.now() + 10_000,
+		};
+		exchangeAuthorizationCodeMock.mockResolvedValue(tokenResponse);
+
+		const { OpenAIAuthPlugin } = await import("../index.js");
+		const plugin = await OpenAIAuthPlugin({
+			client: { auth: { set: vi.fn() } },
+			project: "",
+			directory: "",
+			worktree: "",
+			$: vi.fn(),
+		} as never);
+
+		const oauthMethod = plugin.auth?.methods?.find((method) => method.type === "oauth");
+		if (!oauthMethod || oauthMethod.type !== "oauth") throw new Error("OAuth method not registered");
+		const authorizeResult = await oauthMethod.authorize();
+
+		expect(logErrorMock).toHaveBeenCalledWith(portError);
+		expect(openBrowserUrlMock).not.toHaveBeenCalled();
+		expect(authorizeResult.method).toBe("code");
+		expect(authorizeResult.instructions).toContain(portError);
+		if (authorizeResult.method !== "code") throw new Error("Expected code method");
+		const callbackResult = await authorizeResult.callback(`code-1#${flow.state}`);
+		expect(callbackResult).toEqual(tokenResponse);
+	});
+
+	it("exchanges a pasted redirect URL in the headless OAuth flow", async () => {
+		const flow = {
+			pkce: { challenge: "challenge", verifier: "verifier" },
+			state: "state-paste",
+			url: "https://codex.local/auth",
+		};
+		createAuthorizationFlowMock.mockResolvedValue(flow);
+		const tokenResponse = {
+			type: "success" as const,
+			access: "access-token",
+			refresh: "refresh-token",
+			expires: Date.now() + 10_000,
+		};
+		exchangeAuthorizationCodeMock.mockResolvedValue(tokenResponse);
+
+		const { OpenAIAuthPlugin } = await import("../index.js");
+		const plugin = await OpenAIAuthPlugin({
+			client: { auth: { set: vi.fn() } },
+			project: "",
+			directory: "",
+			worktree: "",
+			$: vi.fn(),
+		} as never);
+
+		const manualMethod = plugin.auth?.methods?.find(
+			(method) => method.type === "oauth" && method.label === AUTH_LABELS.OAUTH_MANUAL,
+		);
+		if (!manualMethod || manualMethod.type !== "oauth") throw new Error("Headless method not registered");
+
+		const authorizeResult = await manualMethod.authorize();
+		expect(authorizeResult.method).toBe("code");
+		expect(startLocalOAuthServerMock).not.toHaveBeenCalled();
+		expect(openBrowserUrlMock).not.toHaveBeenCalled();
+		if (authorizeResult.method !== "code") throw new Error("Expected code method");
+
+		const callbackResult = await authorizeResult.callback(
+			`${REDIRECT_URI}?code=pasted-code&state=${flow.state}`,
+		);
+		expect(exchangeAuthorizationCodeMock).toHaveBeenCalledWith(
+			"pasted-code",
+			flow.pkce.verifier,
+			REDIRECT_URI,
+		);
+		expect(callbackResult).toEqual(tokenResponse);
+	});
+
+	it("rejects pasted input whose state does not match the flow", async () => {
+		createAuthorizationFlowMock.mockResolvedValue({
+			pkce: { challenge: "challenge", verifier: "verifier" },
+			state: "expected-state",
+			url: "https://codex.local/auth",
+		});
+
+		const { OpenAIAuthPlugin } = await import("../index.js");
+		const plugin = await OpenAIAuthPlugin({
+			client: { auth: { set: vi.fn() } },
+			project: "",
+			directory: "",
+			worktree: "",
+			$: vi.fn(),
+		} as never);
+
+		const manualMethod = plugin.auth?.methods?.find(
+			(method) => method.type === "oauth" && method.label === AUTH_LABELS.OAUTH_MANUAL,
+		);
+		if (!manualMethod || manualMethod.type !== "oauth") throw new Error("Headless method not registered");
+
+		const authorizeResult = await manualMethod.authorize();
+		if (authorizeResult.method !== "code") throw new Error("Expected code method");
+		const callbackResult = await authorizeResult.callback("pasted-code#wrong-state");
+		expect(callbackResult).toEqual({ type: "failed" });
+		expect(exchangeAuthorizationCodeMock).not.toHaveBeenCalled();
+		expect(logErrorMock).toHaveBeenCalledWith(ERROR_MESSAGES.STATE_MISMATCH);
+	});
+
+	it("explains a rejected pasted code", async () => {
+		const flow = {
+			pkce: { challenge: "challenge", verifier: "verifier" },
+			state: "state-paste",
+			url: "https://codex.local/auth",
+		};
+		createAuthorizationFlowMock.mockResolvedValue(flow);
+		exchangeAuthorizationCodeMock.mockResolvedValue({ type: "failed" } as const);
+
+		const { OpenAIAuthPlugin } = await import("../index.js");
+		const plugin = await OpenAIAuthPlugin({
+			client: { auth: { set: vi.fn() } },
+			project: "",
+			directory: "",
+			worktree: "",
+			$: vi.fn(),
+		} as never);
+
+		const manualMethod = plugin.auth?.methods?.find(
+			(method) => method.type === "oauth" && method.label === AUTH_LABELS.OAUTH_MANUAL,
+		);
+		if (!manualMethod || manualMethod.type !== "oauth") throw new Error("Headless method not registered");
+
+		const authorizeResult = await manualMethod.authorize();
+		if (authorizeResult.method !== "code") throw new Error("Expected code method");
+		const callbackResult = await authorizeResult.callback(`stale-code#${flow.state}`);
+		expect(callbackResult).toEqual({ type: "failed" });
+		expect(logErrorMock).toHaveBeenCalledWith(ERROR_MESSAGES.CODE_EXCHANGE_FAILED);
+	});
+
 	it("returns failed authorize callback when token exchange is unsuccessful", async () => {
 		const flow = {
 			pkce: { challenge: "challenge", verifier: "verifier" },
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import { logoutCodex } from "../lib/auth/logout.js";
+
+const revokeTokenMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../lib/auth/auth.js", () => ({
+	__esModule: true,
+	revokeToken: revokeTokenMock,
+}));
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logInfo: vi.fn(),
+	logWarn: vi.fn(),
+}));
+
+function createDeps() {
+	return {
+		client: { auth: { set: vi.fn().mockResolvedValue(undefined) } } as any,
+		accountPool: { remove: vi.fn((accountId: string) => ({ accountId })) } as any,
+		sessionManager: { clear: vi.fn() } as any,
+	};
+}
+
+describe("logoutCodex", () => {
+	it("revokes, clears stored credentials, drops the pooled account and resets sessions", async () => {
+		revokeTokenMock.mockResolvedValueOnce(true);
+		const deps = createDeps();
+
+		const result = await logoutCodex({
+			...deps,
+			refreshToken: "refresh-token",
+			revocationUrl: "https://auth.example.com/oauth/revoke",
+			accountId: "acc-1",
+		});
+
+		expect(revokeTokenMock).toHaveBeenCalledWith("refresh-token", "https://auth.example.com/oauth/revoke");
+		expect(deps.client.auth.set).toHaveBeenCalledWith({
+			path: { id: "openai" },
+			body: { type: "oauth", access: "", refresh: "", expires: 0 },
+		});
+		expect(deps.accountPool.remove).toHaveBeenCalledWith("acc-1");
+		expect(deps.sessionManager.clear).toHaveBeenCalled();
+		expect(result).toEqual({ cleared: true, revocation: "revoked", removedAccountId: "acc-1" });
+	});
+
+	it("skips revocation without an endpoint and still clears state", async () => {
+		revokeTokenMock.mockClear();
+		const deps = createDeps();
+		deps.client.auth.set.mockRejectedValueOnce(new Error("store locked"));
+
+		const result = await logoutCodex({ ...deps, refreshToken: "refresh-token" });
+
+		expect(revokeTokenMock).not.toHaveBeenCalled();
+		expect(deps.sessionManager.clear).toHaveBeenCalled();
+		expect(result).toEqual({ cleared: false, revocation: "skipped", removedAccountId: undefined });
+	});
+
+	it("reports a rejected revocation", async () => {
+		revokeTokenMock.mockResolvedValueOnce(false);
+		const result = await logoutCodex({
+			...createDeps(),
+			refreshToken: "refresh-token",
+			revocationUrl: "https://auth.example.com/oauth/revoke",
+		});
+		expect(result.revocation).toBe("failed");
+	});
+});
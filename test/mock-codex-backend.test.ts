@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as openCodeCodex from "../lib/prompts/opencode-codex.js";
+import { createCodexFetcher } from "../lib/request/codex-fetcher.js";
+import { SessionManager } from "../lib/session/session-manager.js";
+import {
+	createMockCodexBackend,
+	type RunningMockCodexBackend,
+	startMockCodexBackend,
+} from "../lib/testing/mock-codex-backend.js";
+import type { PluginConfig } from "../lib/types.js";
+
+const validHeaders = {
+	authorization: "Bearer access-token",
+	"chatgpt-account-id": "acc-123",
+	"OpenAI-Beta": "responses=experimental",
+	originator: "codex_cli_rs",
+	accept: "text/event-stream",
+	"content-type": "application/json",
+};
+
+describe("mock Codex backend", () => {
+	describe("request validation", () => {
+		it("rejects requests without the Codex headers", async () => {
+			const { app } = createMockCodexBackend();
+			const body = JSON.stringify({ model: "gpt-5", input: [], stream: true });
+
+			const unauthorized = await app.request("/backend-api/codex/responses", { method: "POST", body });
+			expect(unauthorized.status).toBe(401);
+
+			const missingBeta = await app.request("/backend-api/codex/responses", {
+				method: "POST",
+				body,
+				headers: { ...validHeaders, "OpenAI-Beta": "" },
+			});
+			expect(missingBeta.status).toBe(400);
+			expect(await missingBeta.json()).toMatchObject({ error: { code: "invalid_headers" } });
+		});
+
+		it("streams queued scenarios in order and records requests", async () => {
+			const backend = createMockCodexBackend({
+				scenarios: [{ type: "text", text: "first" }],
+				defaultScenario: { type: "failed", code: "server_error" },
+			});
+			const send = () =>
+				backend.app.request("/backend-api/codex/responses", {
+					method: "POST",
+					headers: validHeaders,
+					body: JSON.stringify({ model: "gpt-5", input: [], stream: true }),
+				});
+
+			expect(await (await send()).text()).toContain('"delta":"first"');
+			expect(await (await send()).text()).toContain("event: response.failed");
+			expect(backend.requests).toHaveLength(2);
+			expect(backend.requests[0].body).toMatchObject({ model: "gpt-5" });
+		});
+	});
+
+	describe("driving the plugin fetcher offline", () => {
+		let backend: RunningMockCodexBackend;
+
+		beforeEach(async () => {
+			vi.spyOn(openCodeCodex, "getOpenCodeCodexPrompt").mockResolvedValue(
+				"You are a coding agent running in OpenCode",
+			);
+			backend = await startMockCodexBackend({
+				rateLimits: { primaryUsedPercent: 12, secondaryUsedPercent: 3 },
+			});
+		});
+
+		afterEach(async () => {
+			await backend.close();
+			vi.restoreAllMocks();
+		});
+
+		function createFetcher(pluginConfig: PluginConfig = {}) {
+			return createCodexFetcher({
+				getAuth: async () => ({
+					type: "oauth",
+					access: "access-token",
+					refresh: "refresh-token",
+					expires: Date.now() + 60 * 60 * 1000,
+				}),
+				client: {} as never,
+				accountId: "acc-123",
+				userConfig: { global: {}, models: {} },
+				codexMode: true,
+				sessionManager: new SessionManager({ enabled: false }),
+				codexInstructions: "codex instructions",
+				pluginConfig: { retry: { maxAttempts: 1 }, ...pluginConfig },
+			});
+		}
+
+		function send(fetcher: ReturnType<typeof createFetcher>, extra: Record<string, unknown> = {}) {
+			return fetcher(`${backend.baseUrl}/responses`, {
+				method: "POST",
+				body: JSON.stringify({
+					model: "gpt-5-codex",
+					input: [{ type: "message", role: "user", content: "hello" }],
+					...extra,
+				}),
+			});
+		}
+
+		it("returns text replies converted to JSON", async () => {
+			backend.enqueue({ type: "text", text: "Hello offline" });
+			const response = await send(createFetcher());
+
+			expect(response.status).toBe(200);
+			expect(JSON.stringify(await response.json())).toContain("Hello offline");
+			expect(backend.requests[0].headers["chatgpt-account-id"]).toBe("acc-123");
+		});
+
+		it("streams tool calls through untouched", async () => {
+			backend.enqueue({ type: "tool_call", name: "read", arguments: '{"path":"README.md"}' });
+			const response = await send(createFetcher(), {
+				tools: [{ type: "function", name: "read", parameters: { type: "object" } }],
+			});
+
+			const text = await response.text();
+			expect(text).toContain("response.function_call_arguments.delta");
+			expect(text).toContain("response.completed");
+		});
+
+		it("surfaces usage-limit errors with a friendly message", async () => {
+			backend.enqueue({ type: "usage_limit", planType: "plus" });
+			const response = await send(createFetcher());
+
+			expect(response.status).toBe(429);
+			const body = (await response.json()) as { error: { friendly_message?: string } };
+			expect(body.error.friendly_message).toContain("usage limit");
+		});
+
+		it("maps failed and stalled streams to gateway errors", async () => {
+			backend.enqueue({ type: "failed", message: "boom" }, { type: "stall" });
+			const fetcher = createFetcher({ timeouts: { firstByteMs: 50, idleMs: 50 } });
+
+			expect((await send(fetcher)).status).toBe(502);
+			expect((await send(fetcher)).status).toBe(504);
+		});
+	});
+});
@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+	getModelFallbackSnapshot,
+	getNextFallbackModel,
+	recordModelFallback,
+	resetModelFallbackMetrics,
+	withRequestModel,
+} from "../lib/request/model-fallback.js";
+
+describe("model fallback", () => {
+	const chain = ["gpt-5.1-codex-max", "gpt-5.1-codex-high", "gpt-5.1-codex-mini"];
+
+	beforeEach(() => {
+		resetModelFallbackMetrics();
+	});
+
+	describe("getNextFallbackModel", () => {
+		it("returns the next chain entry after the normalized model", () => {
+			expect(getNextFallbackModel("gpt-5.1-codex-max", chain)).toBe("gpt-5.1-codex-high");
+			expect(getNextFallbackModel("gpt-5.1-codex", chain)).toBe("gpt-5.1-codex-mini");
+		});
+
+		it("skips models already tried and stops at the end of the chain", () => {
+			expect(getNextFallbackModel("gpt-5.1-codex-max", chain, ["gpt-5.1-codex"])).toBe("gpt-5.1-codex-mini");
+			expect(getNextFallbackModel("gpt-5.1-codex-mini", chain)).toBeUndefined();
+		});
+
+		it("does nothing for models outside the chain or without a chain", () => {
+			expect(getNextFallbackModel("gpt-5", chain)).toBeUndefined();
+			expect(getNextFallbackModel("gpt-5.1-codex-max", undefined)).toBeUndefined();
+		});
+	});
+
+	it("swaps the model in the original request body", () => {
+		const init = { method: "POST", body: JSON.stringify({ model: "gpt-5.1-codex-max", input: [] }) };
+		const updated = withRequestModel(init, "gpt-5.1-codex");
+		expect(updated?.method).toBe("POST");
+		expect(JSON.parse(updated?.body as string)).toEqual({ model: "gpt-5.1-codex", input: [] });
+		expect(withRequestModel({ body: "not json" }, "gpt-5.1-codex")).toBeUndefined();
+	});
+
+	it("keeps the most recent downgrades for metrics", () => {
+		for (let i = 0; i < 7; i++) {
+			recordModelFallback(`from-${i}`, "gpt-5.1-codex-mini");
+		}
+		const snapshot = getModelFallbackSnapshot();
+		expect(snapshot.total).toBe(7);
+		expect(snapshot.recent).toHaveLength(5);
+		expect(snapshot.recent[0].from).toBe("from-6");
+	});
+});
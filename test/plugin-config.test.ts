@@ -1,7 +1,7 @@
 import * as os from "node:os";
 import * as path from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { getCodexMode, loadPluginConfig } from "../lib/config.js";
+import { getCodexBaseUrl, getCodexMode, loadPluginConfig } from "../lib/config.js";
 import * as logger from "../lib/logger.js";
 import type { PluginConfig } from "../lib/types.js";
 
@@ -248,6 +248,31 @@ describe("Plugin Configuration", () => {
 		});
 	});
 
+	describe("getCodexBaseUrl", () => {
+		afterEach(() => {
+			delete process.env.CODEX_BASE_URL;
+		});
+
+		it("defaults to the ChatGPT backend", () => {
+			delete process.env.CODEX_BASE_URL;
+			expect(getCodexBaseUrl({})).toBe("https://chatgpt.com/backend-api");
+		});
+
+		it("uses the configured override without a trailing slash", () => {
+			delete process.env.CODEX_BASE_URL;
+			expect(getCodexBaseUrl({ codexBaseUrl: "http://127.0.0.1:8787/backend-api/" })).toBe(
+				"http://127.0.0.1:8787/backend-api",
+			);
+		});
+
+		it("prioritizes CODEX_BASE_URL over config", () => {
+			process.env.CODEX_BASE_URL = "http://localhost:9000/backend-api";
+			expect(getCodexBaseUrl({ codexBaseUrl: "http://127.0.0.1:8787/backend-api" })).toBe(
+				"http://localhost:9000/backend-api",
+			);
+		});
+	});
+
 	describe("Priority order", () => {
 		it("should follow priority: env var > config file > default", () => {
 			// Test 1: env var overrides config
@@ -0,0 +1,107 @@
+import { crc32, deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { decodePng, downscalePng, encodePng } from "../lib/request/png-resize.js";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function pngChunk(type: string, data: Buffer): Buffer {
+	const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+	const length = Buffer.alloc(4);
+	length.writeUInt32BE(data.length);
+	const crc = Buffer.alloc(4);
+	crc.writeUInt32BE(crc32(body));
+	return Buffer.concat([length, body, crc]);
+}
+
+/** Build a PNG from unfiltered rows; every row gets filter type 0 */
+function buildPng(
+	width: number,
+	height: number,
+	bitDepth: number,
+	colorType: number,
+	rows: number[][],
+	extra: Buffer[] = [],
+): Buffer {
+	const header = Buffer.alloc(13);
+	header.writeUInt32BE(width, 0);
+	header.writeUInt32BE(height, 4);
+	header[8] = bitDepth;
+	header[9] = colorType;
+	const raw = Buffer.from(rows.flatMap((row) => [0, ...row]));
+	return Buffer.concat([
+		PNG_SIGNATURE,
+		pngChunk("IHDR", header),
+		...extra,
+		pngChunk("IDAT", deflateSync(raw)),
+		pngChunk("IEND", Buffer.alloc(0)),
+	]);
+}
+
+function solidImage(width: number, height: number, rgba: number[]) {
+	const pixels = new Uint8Array(width * height * 4);
+	for (let i = 0; i < pixels.length; i += 4) pixels.set(rgba, i);
+	return { width, height, pixels };
+}
+
+describe("png resize", () => {
+	it("round-trips RGBA pixels through encode and decode", () => {
+		const pixels = Uint8Array.from([255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0, 10, 20, 30, 40]);
+		const png = encodePng({ width: 2, height: 2, pixels });
+
+		expect(decodePng(png)).toEqual({ width: 2, height: 2, pixels });
+	});
+
+	it("writes valid chunk checksums", () => {
+		const png = encodePng(solidImage(3, 1, [1, 2, 3, 4]));
+		const ihdr = png.subarray(12, 12 + 17);
+
+		expect(png.readUInt32BE(29)).toBe(crc32(ihdr));
+	});
+
+	it("expands gray, palette and 16-bit images to RGBA", () => {
+		expect(decodePng(buildPng(2, 1, 8, 0, [[0, 200]]))?.pixels).toEqual(
+			Uint8Array.from([0, 0, 0, 255, 200, 200, 200, 255]),
+		);
+		// 1-bit gray packs 8 pixels per byte
+		expect(decodePng(buildPng(2, 1, 1, 0, [[0b1000_0000]]))?.pixels).toEqual(
+			Uint8Array.from([255, 255, 255, 255, 0, 0, 0, 255]),
+		);
+		const palette = pngChunk("PLTE", Buffer.from([10, 20, 30, 40, 50, 60]));
+		const alpha = pngChunk("tRNS", Buffer.from([0]));
+		expect(decodePng(buildPng(2, 1, 8, 3, [[1, 0]], [palette, alpha]))?.pixels).toEqual(
+			Uint8Array.from([40, 50, 60, 255, 10, 20, 30, 0]),
+		);
+		expect(decodePng(buildPng(1, 1, 16, 2, [[0x12, 0x34, 0x56, 0x78, 0x9a, 0xbc]]))?.pixels).toEqual(
+			Uint8Array.from([0x12, 0x56, 0x9a, 255]),
+		);
+	});
+
+	it("rejects data that is not a supported PNG", () => {
+		expect(decodePng(Buffer.from("GIF89a"))).toBeUndefined();
+		expect(decodePng(Buffer.concat([PNG_SIGNATURE, Buffer.from([0, 0, 0, 0])]))).toBeUndefined();
+		// Palette image without a palette
+		expect(decodePng(buildPng(1, 1, 8, 3, [[0]]))).toBeUndefined();
+	});
+
+	it("downscales so the longest side fits and keeps the aspect ratio", () => {
+		const png = encodePng(solidImage(400, 200, [30, 60, 90, 255]));
+		const smaller = downscalePng(png, 100);
+
+		const image = smaller ? decodePng(smaller) : undefined;
+		expect(image?.width).toBe(100);
+		expect(image?.height).toBe(50);
+		expect(Array.from(image?.pixels.subarray(0, 4) ?? [])).toEqual([30, 60, 90, 255]);
+	});
+
+	it("averages the pixels behind each target pixel, ignoring the color of transparent ones", () => {
+		const pixels = Uint8Array.from([200, 100, 0, 255, 0, 0, 0, 0]);
+		const smaller = downscalePng(encodePng({ width: 2, height: 1, pixels }), 1);
+
+		expect(smaller ? decodePng(smaller)?.pixels : undefined).toEqual(Uint8Array.from([200, 100, 0, 128]));
+	});
+
+	it("leaves images that already fit alone", () => {
+		expect(downscalePng(encodePng(solidImage(100, 50, [0, 0, 0, 255])), 100)).toBeUndefined();
+		expect(downscalePng(Buffer.from("not a png"), 100)).toBeUndefined();
+	});
+});
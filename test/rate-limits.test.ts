@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { handleLimitsCommand } from "../lib/commands/codex-limits.js";
+import {
+	formatWindowLength,
+	getRateLimitSnapshot,
+	recordRateLimits,
+	resetRateLimitState,
+} from "../lib/request/rate-limits.js";
+
+const notifyToastMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logWarn: vi.fn(),
+	logRequest: vi.fn(),
+	logDebug: vi.fn(),
+	notifyToast: notifyToastMock,
+}));
+
+const now = Date.UTC(2025, 0, 1, 12);
+
+function limitHeaders(primary: number, secondary = 10): Headers {
+	return new Headers({
+		"x-codex-primary-used-percent": String(primary),
+		"x-codex-primary-window-minutes": "300",
+		"x-codex-primary-reset-at": String(now / 1000 + 3600),
+		"x-codex-secondary-used-percent": String(secondary),
+		"x-codex-secondary-window-minutes": "10080",
+		"x-codex-secondary-reset-at": String(now / 1000 + 86_400),
+	});
+}
+
+describe("rate-limit tracking", () => {
+	beforeEach(() => {
+		resetRateLimitState();
+		notifyToastMock.mockClear();
+	});
+
+	it("keeps the latest windows from successful responses", () => {
+		recordRateLimits("acc-1", limitHeaders(42), undefined, now);
+
+		expect(getRateLimitSnapshot("acc-1")).toEqual({
+			primary: { usedPercent: 42, windowMinutes: 300, resetsAt: now + 3_600_000 },
+			secondary: { usedPercent: 10, windowMinutes: 10080, resetsAt: now + 86_400_000 },
+			updatedAt: now,
+		});
+	});
+
+	it("tracks windows and warnings separately per account", () => {
+		recordRateLimits("acc-1", limitHeaders(85), undefined, now);
+		recordRateLimits("acc-2", limitHeaders(20), undefined, now + 1000);
+		recordRateLimits("acc-2", limitHeaders(82), undefined, now + 2000);
+
+		expect(getRateLimitSnapshot("acc-1")?.primary.usedPercent).toBe(85);
+		expect(getRateLimitSnapshot("acc-2")?.primary.usedPercent).toBe(82);
+		expect(getRateLimitSnapshot("acc-3")).toBeUndefined();
+		expect(notifyToastMock).toHaveBeenCalledTimes(2);
+		expect(notifyToastMock).toHaveBeenLastCalledWith("warn", expect.stringContaining("for account acc-2"));
+	});
+
+	it("ignores responses without rate-limit headers", () => {
+		recordRateLimits("acc-1", limitHeaders(42), undefined, now);
+		recordRateLimits("acc-1", new Headers(), undefined, now + 1000);
+		expect(getRateLimitSnapshot("acc-1")?.updatedAt).toBe(now);
+	});
+
+	it("toasts once per threshold crossing", () => {
+		recordRateLimits("acc-1", limitHeaders(79), undefined, now);
+		expect(notifyToastMock).not.toHaveBeenCalled();
+
+		recordRateLimits("acc-1", limitHeaders(81), undefined, now);
+		recordRateLimits("acc-1", limitHeaders(85), undefined, now);
+		expect(notifyToastMock).toHaveBeenCalledTimes(1);
+		expect(notifyToastMock).toHaveBeenCalledWith(
+			"warn",
+			expect.stringContaining("primary usage at 81% for account acc-1 (5h window"),
+		);
+
+		recordRateLimits("acc-1", limitHeaders(96), undefined, now);
+		expect(notifyToastMock).toHaveBeenCalledTimes(2);
+		expect(notifyToastMock).toHaveBeenLastCalledWith("warn", expect.stringContaining("96%"));
+	});
+
+	it("re-arms thresholds once usage drops in a new window", () => {
+		recordRateLimits("acc-1", limitHeaders(90), undefined, now);
+		recordRateLimits("acc-1", limitHeaders(5), undefined, now);
+		recordRateLimits("acc-1", limitHeaders(82), undefined, now);
+		expect(notifyToastMock).toHaveBeenCalledTimes(2);
+	});
+
+	it("honours configured thresholds", () => {
+		recordRateLimits("acc-1", limitHeaders(60, 55), [50], now);
+		expect(notifyToastMock).toHaveBeenCalledTimes(2);
+
+		resetRateLimitState();
+		notifyToastMock.mockClear();
+		recordRateLimits("acc-1", limitHeaders(99), [], now);
+		expect(notifyToastMock).not.toHaveBeenCalled();
+	});
+
+	it("formats window lengths", () => {
+		expect(formatWindowLength(300)).toBe("5h");
+		expect(formatWindowLength(10080)).toBe("7d");
+		expect(formatWindowLength(45)).toBe("45m");
+		expect(formatWindowLength(undefined)).toBe("unknown window");
+	});
+
+	describe("/codex-limits", () => {
+		async function readText(response: Response) {
+			const raw = await response.text();
+			const completed = raw
+				.split("\n\n")
+				.map((chunk) => chunk.trim())
+				.filter((chunk) => chunk.startsWith("data: ") && chunk !== "data: [DONE]")
+				.map((chunk) => JSON.parse(chunk.slice(6)))
+				.find((event) => event.type === "response.completed");
+			return completed.response;
+		}
+
+		it("shows both windows with reset times", async () => {
+			recordRateLimits("acc-1", limitHeaders(42), undefined, Date.now());
+			const payload = await readText(handleLimitsCommand({ model: "gpt-5" }));
+			const text = payload.output[0].content[0].text as string;
+
+			expect(payload.metadata.command).toBe("codex-limits");
+			expect(text).toContain("- Primary: 42% used (5h window), resets ");
+			expect(text).toContain("- Secondary: 10% used (7d window), resets ");
+		});
+
+		it("lists every account that reported limits", async () => {
+			recordRateLimits("acc-1", limitHeaders(42), undefined, Date.now());
+			recordRateLimits("acc-2", limitHeaders(7), undefined, Date.now());
+			const payload = await readText(handleLimitsCommand({ model: "gpt-5" }));
+			const text = payload.output[0].content[0].text as string;
+
+			expect(text).toMatch(/Account acc-1 \(as of [^)]+\)\n- Primary: 42% used/);
+			expect(text).toMatch(/Account acc-2 \(as of [^)]+\)\n- Primary: 7% used/);
+			expect(Object.keys(payload.metadata.rateLimits)).toEqual(["acc-1", "acc-2"]);
+		});
+
+		it("explains when no response has reported limits", async () => {
+			const payload = await readText(handleLimitsCommand({ model: "gpt-5" }));
+			expect(payload.output[0].content[0].text).toContain("No rate-limit headers seen yet");
+		});
+	});
+});
@@ -0,0 +1,111 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isLockStale, withRefreshLock } from "../lib/auth/refresh-lock.js";
+
+const logWarnMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logDebug: vi.fn(),
+	logWarn: logWarnMock,
+}));
+
+// A PID far above typical pid_max so the liveness probe reports it as gone
+const DEAD_PID = 2 ** 30;
+
+describe("refresh lock", () => {
+	let dir: string;
+	let lockPath: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "codex-lock-"));
+		lockPath = join(dir, "refresh.lock");
+		logWarnMock.mockReset();
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("holds the lock file during the critical section and removes it afterwards", async () => {
+		const result = await withRefreshLock(
+			async () => {
+				const owner = JSON.parse(readFileSync(lockPath, "utf8"));
+				expect(owner.pid).toBe(process.pid);
+				return "done";
+			},
+			{ lockPath },
+		);
+
+		expect(result).toBe("done");
+		expect(existsSync(lockPath)).toBe(false);
+	});
+
+	it("releases the lock when the critical section throws", async () => {
+		await expect(
+			withRefreshLock(
+				async () => {
+					throw new Error("boom");
+				},
+				{ lockPath },
+			),
+		).rejects.toThrow("boom");
+		expect(existsSync(lockPath)).toBe(false);
+	});
+
+	it("serializes concurrent holders", async () => {
+		const order: string[] = [];
+		const critical = (name: string) => async () => {
+			order.push(`${name}:start`);
+			await new Promise((resolve) => setTimeout(resolve, 20));
+			order.push(`${name}:end`);
+		};
+
+		await Promise.all([
+			withRefreshLock(critical("a"), { lockPath, pollMs: 5 }),
+			withRefreshLock(critical("b"), { lockPath, pollMs: 5 }),
+		]);
+
+		expect(order).toEqual(["a:start", "a:end", "b:start", "b:end"]);
+	});
+
+	it("detects locks left behind by exited processes", async () => {
+		writeFileSync(lockPath, JSON.stringify({ pid: DEAD_PID, token: "dead", createdAt: Date.now() }));
+		expect(isLockStale(lockPath, 30_000)).toBe(true);
+
+		const fn = vi.fn().mockResolvedValue("ok");
+		await expect(withRefreshLock(fn, { lockPath })).resolves.toBe("ok");
+		expect(logWarnMock).toHaveBeenCalledWith("Removing stale token refresh lock", expect.any(Object));
+	});
+
+	it("treats locks older than staleMs as abandoned even if the owner is alive", () => {
+		writeFileSync(lockPath, JSON.stringify({ pid: process.pid, token: "old", createdAt: 1_000 }));
+		expect(isLockStale(lockPath, 30_000, 1_000 + 30_001)).toBe(true);
+		expect(isLockStale(lockPath, 30_000, 1_000 + 10_000)).toBe(false);
+	});
+
+	it("only breaks unreadable lock files after a grace period", () => {
+		writeFileSync(lockPath, "");
+		expect(isLockStale(lockPath, 30_000)).toBe(false);
+
+		const past = new Date(Date.now() - 5_000);
+		utimesSync(lockPath, past, past);
+		expect(isLockStale(lockPath, 30_000)).toBe(true);
+	});
+
+	it("proceeds without the lock after timing out on a live holder", async () => {
+		writeFileSync(lockPath, JSON.stringify({ pid: process.pid, token: "other", createdAt: Date.now() }));
+
+		const result = await withRefreshLock(async () => "forced", { lockPath, timeoutMs: 20, pollMs: 5 });
+
+		expect(result).toBe("forced");
+		expect(logWarnMock).toHaveBeenCalledWith(
+			"Timed out waiting for token refresh lock; refreshing without it",
+			expect.any(Object),
+		);
+		// The other holder's lock is left untouched
+		expect(JSON.parse(readFileSync(lockPath, "utf8")).token).toBe("other");
+	});
+});
@@ -4,6 +4,7 @@ import {
 	getModelConfig,
 	getReasoningConfig,
 	filterInput,
+	truncateToolOutput,
 	addToolRemapMessage,
 	isOpenCodeSystemPrompt,
 	filterOpenCodeSystemPrompts,
@@ -300,6 +301,50 @@ describe("filterInput", () => {
 		const result = filterInput(input);
 		expect(result).toEqual([]);
 	});
+
+	it("should cap oversized tool outputs with a head/tail excerpt", async () => {
+		const output = `${"a".repeat(5000)}${"b".repeat(5000)}`;
+		const input: InputItem[] = [
+			{ type: "function_call_output", role: "tool", call_id: "call_1", output },
+			{ type: "message", role: "user", content: "x".repeat(5000) },
+		];
+
+		const result = filterInput(input, { maxToolOutputChars: 1000 });
+		const capped = result![0].output as string;
+
+		expect(capped.length).toBeLessThanOrEqual(1000);
+		expect(capped.startsWith("aaaa")).toBe(true);
+		expect(capped.endsWith("bbbb")).toBe(true);
+		expect(capped).toMatch(/\[\.\.\. \d+ characters truncated \.\.\.\]/);
+		expect(result![0].call_id).toBe("call_1");
+		expect(result![1].content).toBe("x".repeat(5000));
+	});
+
+	it("should cap text parts of array tool outputs", async () => {
+		const input: InputItem[] = [
+			{
+				type: "custom_tool_call_output",
+				role: "tool",
+				call_id: "call_1",
+				output: [{ type: "input_text", text: "z".repeat(3000) }],
+			},
+		];
+
+		const result = filterInput(input, { maxToolOutputChars: 500 });
+		const parts = result![0].output as Array<{ type: string; text: string }>;
+
+		expect(parts[0].type).toBe("input_text");
+		expect(parts[0].text.length).toBeLessThanOrEqual(500);
+	});
+
+	it("should truncate deterministically and leave truncated output unchanged", async () => {
+		const text = "0123456789".repeat(1000);
+		const once = truncateToolOutput(text, 800);
+
+		expect(truncateToolOutput(text, 800)).toBe(once);
+		expect(truncateToolOutput(once, 800)).toBe(once);
+		expect(truncateToolOutput("short", 800)).toBe("short");
+	});
 });
 
 describe("getModelConfig", () => {
@@ -789,6 +834,37 @@ describe("transformRequestBody caching stability", () => {
 		expect(result.input?.[1].content as string).toContain("<env>");
 		expect(result.input?.[1].content as string).toContain("<files>");
 	});
+
+	it("keeps the session prefix when a capped tool output is resent", async () => {
+		const sessionManager = new SessionManager({ enabled: true });
+		const history: InputItem[] = [
+			{ type: "message", role: "user", content: "read the log" },
+			{ type: "function_call", role: "assistant", call_id: "call_log", name: "read", arguments: "{}" },
+			{ type: "function_call_output", role: "tool", call_id: "call_log", output: "L".repeat(50_000) },
+		];
+
+		const sendTurn = async (input: InputItem[]) => {
+			const body: RequestBody = { model: "gpt-5-codex", input, metadata: { conversation_id: "ses_capped" } };
+			const context = sessionManager.getContext(body)!;
+			const result = await transformRequestBodyInternal(
+				body,
+				CODEX_INSTRUCTIONS,
+				userConfig,
+				false,
+				{ preserveIds: context.preserveIds, maxToolOutputChars: 2000 },
+				context,
+			);
+			return { body: result.body, context: sessionManager.applyRequest(result.body, context) };
+		};
+
+		const first = await sendTurn(history);
+		const second = await sendTurn([...history, { type: "message", role: "user", content: "and now?" }]);
+
+		expect((first.body.input?.[2].output as string).length).toBeLessThanOrEqual(2000);
+		expect(second.body.input?.slice(0, 3)).toEqual(first.body.input);
+		expect(second.context?.isNew).toBe(false);
+		expect(second.body.prompt_cache_key).toBe(first.body.prompt_cache_key);
+	});
 });
 
 describe("addCodexBridgeMessage", () => {
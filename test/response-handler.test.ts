@@ -59,6 +59,17 @@ data: {"type":"response.completed","response":{"id":"resp_456","output":"done"}}
 			expect(body).toEqual({ id: "resp_456", output: "done" });
 		});
 
+		it("should turn a response.failed stream timeout into a 504 error", async () => {
+			const sseContent = `data: {"type":"response.created"}
+event: response.failed
+data: {"type":"response.failed","response":{"status":"failed","error":{"code":"stream_timeout","message":"stalled"}}}
+`;
+			const result = await convertSseToJson(new Response(sseContent), new Headers());
+
+			expect(result.status).toBe(504);
+			expect(await result.json()).toEqual({ error: { code: "stream_timeout", message: "stalled" } });
+		});
+
 		it("should return original text if no final response found", async () => {
 			const sseContent = `data: {"type":"response.started"}
 data: {"type":"chunk","delta":"text"}
@@ -72,6 +83,18 @@ data: {"type":"chunk","delta":"text"}
 			expect(text).toBe(sseContent);
 		});
 
+		it("should return only the last event if no final response found", async () => {
+			const sseContent = `data: {"type":"response.created"}
+
+data: {"type":"response.output_text.delta","delta":"a"}
+
+data: {"type":"response.output_text.delta","delta":"b"}
+`;
+			const result = await convertSseToJson(new Response(sseContent), new Headers());
+
+			expect(await result.text()).toBe(`data: {"type":"response.output_text.delta","delta":"b"}\n`);
+		});
+
 		it("should skip malformed JSON in SSE stream", async () => {
 			const sseContent = `data: not-json
 data: {"type":"response.done","response":{"id":"resp_789"}}
@@ -95,6 +118,15 @@ data: {"type":"response.done","response":{"id":"resp_789"}}
 			expect(text).toBe("");
 		});
 
+		it("should parse CRLF streams with event lines and data without a space", async () => {
+			const sseContent =
+				'event: response.created\r\ndata:{"type":"response.created"}\r\n\r\n' +
+				'event: response.completed\r\ndata:{"type":"response.completed",\r\ndata:"response":{"id":"resp_crlf"}}\r\n\r\n';
+			const result = await convertSseToJson(new Response(sseContent), new Headers());
+
+			expect(await result.json()).toEqual({ id: "resp_crlf" });
+		});
+
 		it("should preserve response status and statusText", async () => {
 			const sseContent = `data: {"type":"response.done","response":{"id":"x"}}`;
 			const response = new Response(sseContent, {
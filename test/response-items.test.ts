@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { filterInput } from "../lib/request/input-filters.js";
+import type { InputItem } from "../lib/types.js";
+import {
+	getCallId,
+	isContentPart,
+	isMessageFrom,
+	isMessageItem,
+	isTextPart,
+	isToolCallItem,
+	isToolOutputItem,
+	parseResponseItem,
+} from "../lib/utils/response-items.js";
+
+const logDebugMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logDebug: logDebugMock,
+	logWarn: vi.fn(),
+}));
+
+describe("response items", () => {
+	beforeEach(() => {
+		logDebugMock.mockClear();
+	});
+
+	it("accepts messages with or without the item type", () => {
+		expect(isMessageItem({ type: "message", role: "user", content: "hi" })).toBe(true);
+		expect(isMessageItem({ role: "assistant", content: [{ type: "output_text", text: "ok" }] })).toBe(true);
+		expect(isMessageItem({ role: "tool", content: "x" })).toBe(false);
+		expect(isMessageItem({ type: "function_call", role: "user", content: "x" })).toBe(false);
+		expect(isMessageItem({ role: "user" })).toBe(false);
+		expect(isMessageFrom({ role: "system", content: "x" }, "developer", "system")).toBe(true);
+		expect(isMessageFrom({ role: "system", content: "x" }, "user")).toBe(false);
+	});
+
+	it("validates content parts", () => {
+		expect(isTextPart({ type: "input_text", text: "a" })).toBe(true);
+		expect(isTextPart({ type: "output_text", text: "b" })).toBe(true);
+		expect(isTextPart({ type: "input_text" })).toBe(false);
+		expect(isContentPart({ type: "refusal", refusal: "no" })).toBe(true);
+		expect(isContentPart({ type: "input_image", image_url: "https://example.com/a.png" })).toBe(true);
+		expect(isContentPart({ type: "input_file" })).toBe(false);
+		expect(isContentPart(null)).toBe(false);
+	});
+
+	it("validates tool calls and outputs and links them by call ID", () => {
+		const call: InputItem = { type: "function_call", call_id: "c1", name: "read", arguments: "{}" };
+		const custom: InputItem = { type: "custom_tool_call", call_id: "c2", name: "patch", input: "diff" };
+		const output: InputItem = { type: "function_call_output", call_id: "c1", output: "done" };
+
+		expect(isToolCallItem(call)).toBe(true);
+		expect(isToolCallItem(custom)).toBe(true);
+		expect(isToolCallItem({ type: "function_call", call_id: "c1" })).toBe(false);
+		expect(isToolOutputItem(output)).toBe(true);
+		expect(isToolOutputItem({ type: "custom_tool_call_output", call_id: "c2", output: [] })).toBe(true);
+		expect(getCallId(call)).toBe("c1");
+		expect(getCallId(output)).toBe("c1");
+		expect(getCallId({ role: "user", content: "hi", call_id: "c9" })).toBeUndefined();
+	});
+
+	it("parses known items and rejects unknown or malformed ones", () => {
+		expect(parseResponseItem({ role: "user", content: "hi" })).toEqual({ role: "user", content: "hi" });
+		expect(parseResponseItem({ type: "reasoning", summary: [] })).toBeDefined();
+		expect(parseResponseItem({ type: "item_reference", id: "msg_1" })).toBeDefined();
+		expect(parseResponseItem({ type: "web_search_call", id: "ws_1" })).toBeUndefined();
+		expect(parseResponseItem({ type: "function_call_output", output: "no call id" })).toBeUndefined();
+		expect(parseResponseItem("message")).toBeUndefined();
+	});
+
+	it("passes unrecognized items through filterInput and logs each type once", () => {
+		const search = { type: "web_search_call", id: "ws_1", status: "completed" };
+		const input: InputItem[] = [
+			{ type: "item_reference", id: "msg_0" },
+			{ type: "item_reference" },
+			search,
+			{ ...search, id: "ws_2" },
+			{ role: "user", content: "hi" },
+		];
+
+		const result = filterInput(input);
+
+		expect(result).toEqual([
+			{ type: "web_search_call", status: "completed" },
+			{ type: "web_search_call", status: "completed" },
+			{ role: "user", content: "hi" },
+		]);
+		expect(logDebugMock).toHaveBeenCalledTimes(1);
+		expect(logDebugMock).toHaveBeenCalledWith("Passing unrecognized Responses item through unchanged", {
+			type: "web_search_call",
+			keys: ["type", "status"],
+		});
+	});
+
+	it("still caps tool outputs in requests that carry unrecognized items", () => {
+		const input: InputItem[] = [
+			{ type: "web_search_call", status: "completed", action: { query: "x".repeat(500) } },
+			{ type: "function_call_output", call_id: "c1", output: "y".repeat(500) },
+		];
+
+		const result = filterInput(input, { maxToolOutputChars: 100 });
+
+		expect(result?.[0]).toBe(input[0]);
+		expect(result?.[1]).toMatchObject({ type: "function_call_output", call_id: "c1" });
+		expect(String(result?.[1]?.output).length).toBeLessThanOrEqual(100);
+	});
+});
@@ -1,6 +1,12 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	ConcurrencyLimiter,
+	getConcurrencySnapshot,
+	resetConcurrencyMetrics,
+} from "../lib/request/concurrency-limiter.js";
 import {
 	isCodexResponsePayload,
+	observeSessionResponseStream,
 	recordSessionResponseFromHandledResponse,
 } from "../lib/session/response-recorder.js";
 import type { SessionManager } from "../lib/session/session-manager.js";
@@ -11,6 +17,7 @@ const logDebugMock = vi.hoisted(() => vi.fn());
 vi.mock("../lib/logger.js", () => ({
 	__esModule: true,
 	logDebug: logDebugMock,
+	logWarn: vi.fn(),
 }));
 
 function createSessionContext(): SessionContext {
@@ -116,6 +123,131 @@ describe("recordSessionResponseFromHandledResponse", () => {
 	});
 });
 
+describe("observeSessionResponseStream", () => {
+	const recordResponseMock = vi.fn();
+	const sessionManager = {
+		recordResponse: recordResponseMock,
+	} as Pick<SessionManager, "recordResponse">;
+	const encoder = new TextEncoder();
+	const completed = {
+		type: "response.completed",
+		response: { id: "resp_1", usage: { input_tokens: 1200, input_tokens_details: { cached_tokens: 1024 } } },
+	};
+
+	beforeEach(() => {
+		recordResponseMock.mockClear();
+	});
+
+	function sseResponse(body: ReadableStream<Uint8Array> | string): Response {
+		return new Response(body, { status: 200, headers: { "content-type": "text/event-stream" } });
+	}
+
+	it("records response.completed usage while passing the stream through unchanged", async () => {
+		const sessionContext = createSessionContext();
+		const raw = `event: response.created\ndata: {"type":"response.created"}\n\nevent: response.completed\ndata: ${JSON.stringify(completed)}\n\n`;
+
+		const observed = observeSessionResponseStream({
+			sessionManager,
+			sessionContext,
+			handledResponse: sseResponse(raw),
+		});
+
+		expect(await observed.text()).toBe(raw);
+		await vi.waitFor(() =>
+			expect(recordResponseMock).toHaveBeenCalledWith(
+				sessionContext,
+				expect.objectContaining({ usage: completed.response.usage }),
+			),
+		);
+	});
+
+	it("delivers chunks to the client before the response completes", async () => {
+		let push: ReadableStreamDefaultController<Uint8Array> | undefined;
+		const upstream = new ReadableStream<Uint8Array>({
+			start(controller) {
+				push = controller;
+			},
+		});
+		const observed = observeSessionResponseStream({
+			sessionManager,
+			sessionContext: createSessionContext(),
+			handledResponse: sseResponse(upstream),
+		});
+		const reader = observed.body!.getReader();
+
+		push?.enqueue(encoder.encode('data: {"type":"response.created"}\n\n'));
+		const first = await reader.read();
+		expect(new TextDecoder().decode(first.value)).toContain("response.created");
+		expect(recordResponseMock).not.toHaveBeenCalled();
+
+		push?.enqueue(encoder.encode(`data: ${JSON.stringify(completed)}\n\n`));
+		push?.close();
+		await reader.read();
+		await vi.waitFor(() => expect(recordResponseMock).toHaveBeenCalledTimes(1));
+	});
+
+	it("cancels upstream and frees the concurrency slot when the client cancels", async () => {
+		resetConcurrencyMetrics();
+		const cancelUpstream = vi.fn();
+		const limiter = new ConcurrencyLimiter({ maxInFlight: 1 });
+		const limited = await limiter.run("acc", "interactive", async () =>
+			sseResponse(
+				new ReadableStream<Uint8Array>({
+					start(controller) {
+						controller.enqueue(encoder.encode('data: {"type":"response.created"}\n\n'));
+					},
+					cancel: cancelUpstream,
+				}),
+			),
+		);
+		const observed = observeSessionResponseStream({
+			sessionManager,
+			sessionContext: createSessionContext(),
+			handledResponse: limited,
+		});
+		const reader = observed.body!.getReader();
+		await reader.read();
+		expect(getConcurrencySnapshot().inFlight).toBe(1);
+
+		await reader.cancel();
+
+		await vi.waitFor(() => expect(cancelUpstream).toHaveBeenCalled());
+		expect(getConcurrencySnapshot().inFlight).toBe(0);
+	});
+
+	it("passes completed payloads to onResponse without a managed session", async () => {
+		const onResponse = vi.fn();
+		const observed = observeSessionResponseStream({
+			sessionManager,
+			sessionContext: undefined,
+			handledResponse: sseResponse(`data: ${JSON.stringify(completed)}\n\n`),
+			onResponse,
+		});
+
+		await observed.text();
+		await vi.waitFor(() =>
+			expect(onResponse).toHaveBeenCalledWith(expect.objectContaining({ usage: completed.response.usage })),
+		);
+		expect(recordResponseMock).not.toHaveBeenCalled();
+	});
+
+	it("returns non-stream responses and unmanaged sessions untouched", () => {
+		const json = new Response("{}", { status: 200, headers: { "content-type": "application/json" } });
+		expect(
+			observeSessionResponseStream({
+				sessionManager,
+				sessionContext: createSessionContext(),
+				handledResponse: json,
+			}),
+		).toBe(json);
+
+		const stream = sseResponse("data: {}\n\n");
+		expect(
+			observeSessionResponseStream({ sessionManager, sessionContext: undefined, handledResponse: stream }),
+		).toBe(stream);
+	});
+});
+
 describe("isCodexResponsePayload", () => {
 	it("returns false for null payloads", () => {
 		expect(isCodexResponsePayload(null)).toBe(false);
@@ -137,4 +269,10 @@ describe("isCodexResponsePayload", () => {
 	it("accepts payloads with numeric cached tokens", () => {
 		expect(isCodexResponsePayload({ usage: { cached_tokens: 10 } })).toBe(true);
 	});
+
+	it("validates cached tokens nested under input_tokens_details", () => {
+		expect(isCodexResponsePayload({ usage: { input_tokens_details: { cached_tokens: 10 } } })).toBe(true);
+		expect(isCodexResponsePayload({ usage: { input_tokens_details: { cached_tokens: "10" } } })).toBe(false);
+		expect(isCodexResponsePayload({ usage: { input_tokens_details: 5 } })).toBe(false);
+	});
 });
@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	computeBackoffDelay,
+	createRequestId,
+	fetchWithRetry,
+	getServerRetryDelay,
+} from "../lib/request/retry-policy.js";
+
+const logWarnMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logDebug: vi.fn(),
+	logWarn: logWarnMock,
+}));
+
+describe("retry policy", () => {
+	const sleep = vi.fn(async (_ms: number) => {});
+
+	beforeEach(() => {
+		sleep.mockClear();
+		logWarnMock.mockClear();
+	});
+
+	describe("getServerRetryDelay", () => {
+		const now = Date.UTC(2025, 0, 1);
+
+		it("reads Retry-After seconds", () => {
+			expect(getServerRetryDelay(new Headers({ "retry-after": "2" }), 503, now)).toBe(2000);
+		});
+
+		it("reads Retry-After HTTP dates", () => {
+			const date = new Date(now + 5000).toUTCString();
+			expect(getServerRetryDelay(new Headers({ "retry-after": date }), 503, now)).toBe(5000);
+		});
+
+		it("uses the earliest future reset of an exhausted Codex bucket for 429s only", () => {
+			const headers = new Headers({
+				"x-codex-primary-used-percent": "100",
+				"x-codex-primary-reset-at": String(now / 1000 + 30),
+				"x-codex-secondary-used-percent": "100",
+				"x-codex-secondary-reset-at": String(now / 1000 + 10),
+			});
+			expect(getServerRetryDelay(headers, 429, now)).toBe(10_000);
+			expect(getServerRetryDelay(headers, 502, now)).toBeUndefined();
+		});
+
+		it("ignores resets of buckets that still have room", () => {
+			const headers = new Headers({
+				"x-codex-primary-used-percent": "40",
+				"x-codex-primary-reset-at": String(now / 1000 + 3600),
+				"x-codex-secondary-used-percent": "100",
+				"x-codex-secondary-reset-at": String(now / 1000 + 20),
+			});
+			expect(getServerRetryDelay(headers, 429, now)).toBe(20_000);
+			headers.set("x-codex-secondary-used-percent", "99");
+			expect(getServerRetryDelay(headers, 429, now)).toBeUndefined();
+		});
+
+		it("returns undefined without hints", () => {
+			expect(getServerRetryDelay(new Headers(), 429, now)).toBeUndefined();
+		});
+	});
+
+	it("keeps backoff jitter between half and the full exponential step", () => {
+		expect(computeBackoffDelay(1, 500, () => 0)).toBe(250);
+		expect(computeBackoffDelay(3, 500, () => 0.999_999)).toBe(2000);
+	});
+
+	it("creates short correlation IDs", () => {
+		expect(createRequestId()).toMatch(/^[0-9a-f]{8}$/);
+	});
+
+	describe("fetchWithRetry", () => {
+		it("never retries successful responses", async () => {
+			const send = vi.fn().mockResolvedValue(new Response("ok", { status: 200 }));
+			const response = await fetchWithRetry(send, { requestId: "r1", sleep });
+			expect(response.status).toBe(200);
+			expect(send).toHaveBeenCalledTimes(1);
+		});
+
+		it("retries retryable statuses with backoff until one succeeds", async () => {
+			const send = vi
+				.fn()
+				.mockResolvedValueOnce(new Response("busy", { status: 503 }))
+				.mockResolvedValueOnce(new Response("ok", { status: 200 }));
+			const response = await fetchWithRetry(send, { requestId: "r1", sleep, random: () => 0 });
+			expect(response.status).toBe(200);
+			expect(sleep).toHaveBeenCalledWith(250, undefined);
+			expect(logWarnMock).toHaveBeenCalledWith(
+				"Retrying Codex request after transient error",
+				expect.objectContaining({ requestId: "r1", attempt: 1, status: 503, source: "backoff" }),
+			);
+		});
+
+		it("honours Retry-After within maxDelayMs", async () => {
+			const send = vi
+				.fn()
+				.mockResolvedValueOnce(new Response("slow down", { status: 429, headers: { "retry-after": "3" } }))
+				.mockResolvedValueOnce(new Response("ok", { status: 200 }));
+			await fetchWithRetry(send, { requestId: "r1", sleep });
+			expect(sleep).toHaveBeenCalledWith(3000, undefined);
+		});
+
+		it("retries a 429 with backoff when the usage windows reset far in the future but are not spent", async () => {
+			const resetAt = String(Math.floor(Date.now() / 1000) + 4 * 3600);
+			const send = vi
+				.fn()
+				.mockResolvedValueOnce(
+					new Response("slow down", {
+						status: 429,
+						headers: { "x-codex-primary-used-percent": "12", "x-codex-primary-reset-at": resetAt },
+					}),
+				)
+				.mockResolvedValueOnce(new Response("ok", { status: 200 }));
+			const response = await fetchWithRetry(send, { requestId: "r1", sleep, random: () => 0 });
+			expect(response.status).toBe(200);
+			expect(send).toHaveBeenCalledTimes(2);
+			expect(sleep).toHaveBeenCalledWith(250, undefined);
+		});
+
+		it("returns immediately when the server asks to wait longer than maxDelayMs", async () => {
+			const send = vi
+				.fn()
+				.mockResolvedValue(new Response("limit", { status: 429, headers: { "retry-after": "3600" } }));
+			const response = await fetchWithRetry(send, { requestId: "r1", sleep });
+			expect(response.status).toBe(429);
+			expect(send).toHaveBeenCalledTimes(1);
+			expect(sleep).not.toHaveBeenCalled();
+		});
+
+		it("returns the last failure after maxAttempts", async () => {
+			const send = vi.fn().mockImplementation(async () => new Response("boom", { status: 500 }));
+			const response = await fetchWithRetry(send, { config: { maxAttempts: 2 }, requestId: "r1", sleep });
+			expect(response.status).toBe(500);
+			expect(send).toHaveBeenCalledTimes(2);
+		});
+
+		it("does not retry non-retryable statuses or vetoed responses", async () => {
+			const badRequest = vi.fn().mockResolvedValue(new Response("bad", { status: 400 }));
+			expect((await fetchWithRetry(badRequest, { requestId: "r1", sleep })).status).toBe(400);
+			expect(badRequest).toHaveBeenCalledTimes(1);
+
+			const vetoed = vi.fn().mockResolvedValue(new Response("limit", { status: 429 }));
+			await fetchWithRetry(vetoed, { requestId: "r1", sleep, shouldRetry: () => false });
+			expect(vetoed).toHaveBeenCalledTimes(1);
+		});
+
+		it("retries network errors but not aborts", async () => {
+			const flaky = vi
+				.fn()
+				.mockRejectedValueOnce(new TypeError("fetch failed"))
+				.mockResolvedValueOnce(new Response("ok", { status: 200 }));
+			expect((await fetchWithRetry(flaky, { requestId: "r1", sleep })).status).toBe(200);
+			expect(flaky).toHaveBeenCalledTimes(2);
+
+			const abort = new Error("aborted");
+			abort.name = "AbortError";
+			const aborted = vi.fn().mockRejectedValue(abort);
+			await expect(fetchWithRetry(aborted, { requestId: "r1", sleep })).rejects.toBe(abort);
+			expect(aborted).toHaveBeenCalledTimes(1);
+		});
+
+		it("stops waiting for a retry when the caller aborts", async () => {
+			const controller = new AbortController();
+			const send = vi.fn().mockImplementation(async () => {
+				setTimeout(() => controller.abort(new Error("cancelled")), 5);
+				return new Response("busy", { status: 503 });
+			});
+
+			await expect(
+				fetchWithRetry(send, {
+					config: { baseDelayMs: 60_000, maxDelayMs: 60_000 },
+					requestId: "r1",
+					signal: controller.signal,
+				}),
+			).rejects.toThrow("cancelled");
+			expect(send).toHaveBeenCalledTimes(1);
+		});
+	});
+});
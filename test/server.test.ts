@@ -29,13 +29,21 @@ class MockServer {
 	public _lastCode?: string;
 	private errorHandler: ((err: Error) => void) | null = null;
 	public closed = false;
+	public port?: number;
 
 	constructor(handler: (req: { url?: string }, res: MockResponse) => void) {
 		this.handler = handler;
 	}
 
-	listen(_port: number, _host: string, callback: () => void) {
-		callback();
+	listen(port: number, _host: string, callback: () => void) {
+		this.port = port;
+		queueMicrotask(() => {
+			if (mockState.listenError) {
+				this.errorHandler?.(mockState.listenError);
+				return;
+			}
+			callback();
+		});
 		return this;
 	}
 
@@ -62,10 +70,23 @@ class MockServer {
 	}
 }
 
-const mockState = { server: null as MockServer | null };
+const mockState = {
+	server: null as MockServer | null,
+	listenError: null as NodeJS.ErrnoException | null,
+};
+
+const execFileMock = vi.hoisted(() => vi.fn());
 
 const mockServerFs = {
-	readFileSync: vi.fn(() => "<!DOCTYPE html><title>Success</title>"),
+	readFileSync: vi.fn((file: string) => {
+		if (String(file).endsWith("oauth-error.html")) {
+			return "<!DOCTYPE html><title>Failed</title><p>{{ERROR}}</p><p>{{DESCRIPTION}}</p>";
+		}
+		if (String(file).endsWith("oauth-workspace.html")) {
+			return "<!DOCTYPE html><title>Workspace</title>{{OPTIONS}}";
+		}
+		return "<!DOCTYPE html><title>Success</title>";
+	}),
 	existsSync: vi.fn(() => true),
 	mkdirSync: vi.fn(),
 	writeFileSync: vi.fn(),
@@ -76,6 +97,16 @@ vi.mock("node:fs", () => ({
 	...mockServerFs,
 }));
 
+vi.mock("node:child_process", () => ({
+	execFile: execFileMock,
+	default: { execFile: execFileMock },
+}));
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logError: vi.fn(),
+}));
+
 vi.mock("node:http", async () => {
 	const actual = await vi.importActual<typeof import("node:http")>("node:http");
 	const mocked = {
@@ -95,6 +126,8 @@ vi.mock("node:http", async () => {
 describe("OAuth Server", () => {
 	beforeEach(() => {
 		mockState.server = null;
+		mockState.listenError = null;
+		execFileMock.mockReset();
 	});
 
 	afterEach(() => {
@@ -129,4 +162,120 @@ describe("OAuth Server", () => {
 		expect(result).toBeNull();
 		serverInfo.close();
 	});
+
+	it("resolves as soon as the callback arrives", async () => {
+		const { startLocalOAuthServer } = await import("../lib/auth/server.js");
+		const serverInfo = await startLocalOAuthServer({ state: "s", port: 1460 });
+		expect(serverInfo.port).toBe(1460);
+		expect(mockState.server?.port).toBe(1460);
+
+		const waitPromise = serverInfo.waitForCode("s");
+		mockState.server?.trigger("/auth/callback?code=FAST&state=s");
+		await expect(waitPromise).resolves.toEqual({ code: "FAST" });
+		serverInfo.close();
+	});
+
+	it("renders the failure page and resolves null on OAuth errors", async () => {
+		const { startLocalOAuthServer } = await import("../lib/auth/server.js");
+		const serverInfo = await startLocalOAuthServer({ state: "s" });
+		const response = mockState.server?.trigger(
+			"/auth/callback?state=s&error=access_denied&error_description=%3Cb%3EUser%20cancelled%3C%2Fb%3E",
+		);
+
+		expect(response?.statusCode).toBe(400);
+		expect(response?.headers.get("Content-Type")).toBe("text/html; charset=utf-8");
+		expect(response?.body).toContain("<title>Failed</title>");
+		expect(response?.body).toContain("access_denied");
+		expect(response?.body).toContain("&lt;b&gt;User cancelled&lt;/b&gt;");
+		await expect(serverInfo.waitForCode("s")).resolves.toBeNull();
+		serverInfo.close();
+	});
+
+	it("serves the workspace picker and resolves with the clicked workspace", async () => {
+		const { startLocalOAuthServer } = await import("../lib/auth/server.js");
+		const serverInfo = await startLocalOAuthServer({ state: "state-ws" });
+		expect(mockState.server?.trigger("/auth/workspace?state=state-ws").statusCode).toBe(404);
+
+		const choice = serverInfo.chooseWorkspace([
+			{ id: "acc-1", label: "Personal account", isTokenDefault: true },
+			{ id: "org-team", label: "Acme <Team>" },
+		]);
+		const page = mockState.server?.trigger("/auth/workspace?state=state-ws");
+		expect(page?.statusCode).toBe(200);
+		expect(page?.body).toContain('href="/auth/workspace?state=state-ws&amp;id=org-team"');
+		expect(page?.body).toContain("Acme &lt;Team&gt;");
+		expect(page?.body).toContain("(acc-1) [default]");
+
+		expect(mockState.server?.trigger("/auth/workspace?state=other&id=org-team").statusCode).toBe(400);
+		expect(mockState.server?.trigger("/auth/workspace?state=state-ws&id=org-unknown").statusCode).toBe(400);
+		const picked = mockState.server?.trigger("/auth/workspace?state=state-ws&id=org-team");
+		expect(picked?.body).toContain("<title>Success</title>");
+		await expect(choice).resolves.toBe("org-team");
+		serverInfo.close();
+	});
+
+	it("resolves the workspace choice with null when the server closes", async () => {
+		const { startLocalOAuthServer } = await import("../lib/auth/server.js");
+		const serverInfo = await startLocalOAuthServer({ state: "state-ws" });
+		const choice = serverInfo.chooseWorkspace([{ id: "acc-1", label: "Personal account" }]);
+		serverInfo.close();
+		await expect(choice).resolves.toBeNull();
+	});
+
+	it("honours the configured timeout", async () => {
+		vi.useFakeTimers();
+		const { startLocalOAuthServer } = await import("../lib/auth/server.js");
+		const serverInfo = await startLocalOAuthServer({ state: "s", timeoutMs: 1000 });
+		const waitPromise = serverInfo.waitForCode("s");
+		await vi.advanceTimersByTimeAsync(1000);
+		await expect(waitPromise).resolves.toBeNull();
+		serverInfo.close();
+	});
+
+	it("stops waiting and closes the server when aborted", async () => {
+		const { startLocalOAuthServer } = await import("../lib/auth/server.js");
+		const controller = new AbortController();
+		const serverInfo = await startLocalOAuthServer({ state: "s", signal: controller.signal });
+		const waitPromise = serverInfo.waitForCode("s");
+
+		controller.abort();
+
+		await expect(waitPromise).resolves.toBeNull();
+		expect(mockState.server?.closed).toBe(true);
+	});
+
+	it("rejects with the process holding the port on EADDRINUSE", async () => {
+		mockState.listenError = Object.assign(new Error("listen EADDRINUSE"), { code: "EADDRINUSE" });
+		execFileMock.mockImplementation(
+			(_cmd: string, _args: string[], _opts: unknown, cb: (err: Error | null, out: string) => void) =>
+				cb(null, "p4242\ncnode\nf12\n"),
+		);
+		const { startLocalOAuthServer } = await import("../lib/auth/server.js");
+
+		const pending = startLocalOAuthServer({ state: "s" });
+
+		await expect(pending).rejects.toThrow("OAuth callback port 1455 is already in use by node (pid 4242)");
+		expect(mockState.server?.closed).toBe(true);
+		if (process.platform !== "win32") {
+			expect(execFileMock).toHaveBeenCalledWith(
+				"lsof",
+				["-nP", "-iTCP:1455", "-sTCP:LISTEN", "-Fpc"],
+				expect.any(Object),
+				expect.any(Function),
+			);
+		}
+	});
+
+	it("still explains the conflict when the port owner cannot be determined", async () => {
+		mockState.listenError = Object.assign(new Error("listen EADDRINUSE"), { code: "EADDRINUSE" });
+		execFileMock.mockImplementation(
+			(_cmd: string, _args: string[], _opts: unknown, cb: (err: Error | null, out: string) => void) =>
+				cb(new Error("lsof: not found"), ""),
+		);
+		const { startLocalOAuthServer } = await import("../lib/auth/server.js");
+
+		await expect(startLocalOAuthServer({ state: "s" })).rejects.toThrow(
+			/^OAuth callback port 1455 is already in use\. Stop that process/,
+		);
+	});
 });
@@ -153,13 +153,8 @@ describe("SessionManager", () => {
 			input: [
 				{ type: "message", role: "system", content: "sys" },
 				{ type: "message", role: "user", content: "step 1" },
-				{
-					type: "message",
-					role: "assistant",
-					content: "tool call",
-					tool_calls: [{ id: "call-1" }],
-				},
-				{ type: "message", role: "tool", content: "tool output", tool_call_id: "call-1" },
+				{ type: "function_call", call_id: "call-1", name: "read", arguments: "{}" },
+				{ type: "function_call_output", call_id: "call-1", output: "tool output" },
 				{ type: "message", role: "user", content: "follow up" },
 			],
 		};
@@ -182,8 +177,9 @@ describe("SessionManager", () => {
 		expect(warnCall?.[1]).toMatchObject({
 			prefixCause: "history_pruned",
 			removedCount: 4,
+			removedToolCount: 2,
+			removedRoles: ["system", "user"],
 		});
-		expect((warnCall?.[1] as Record<string, unknown>)?.removedRoles).toContain("tool");
 
 		warnSpy.mockRestore();
 	});
@@ -200,6 +196,20 @@ describe("SessionManager", () => {
 		expect(context.state.lastCachedTokens).toBe(42);
 	});
 
+	it("records cached tokens nested under input_tokens_details", () => {
+		const manager = new SessionManager({ enabled: true });
+		const body = createBody("conv-usage-nested");
+
+		const context = manager.getContext(body) as SessionContext;
+		manager.applyRequest(body, context);
+
+		manager.recordResponse(context, {
+			usage: { input_tokens: 900, input_tokens_details: { cached_tokens: 768 } },
+		});
+
+		expect(context.state.lastCachedTokens).toBe(768);
+	});
+
 	it("reports metrics snapshot with recent sessions", () => {
 		const manager = new SessionManager({ enabled: true });
 		const body = createBody("conv-metrics");
@@ -300,6 +310,19 @@ describe("SessionManager", () => {
 		expect(metrics.totalSessions).toBe(0);
 	});
 
+	it("drops every session on clear", () => {
+		const manager = new SessionManager({ enabled: true });
+		for (const id of ["conv-a", "conv-b"]) {
+			const body = createBody(id);
+			manager.applyRequest(body, manager.getContext(body));
+		}
+
+		manager.clear();
+
+		expect(manager.getMetrics().totalSessions).toBe(0);
+		expect((manager.getContext(createBody("conv-a")) as SessionContext).isNew).toBe(true);
+	});
+
 	it("caps total sessions to the configured maximum", () => {
 		const manager = new SessionManager({ enabled: true });
 
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+	createSseDecoder,
+	observeSseEvents,
+	parseSseEventData,
+	parseSseEventPayloads,
+	readSseEvents,
+} from "../lib/request/sse-parser.js";
+
+function streamOf(chunks: Array<string | Uint8Array>): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream({
+		start(controller) {
+			for (const chunk of chunks)
+				controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk);
+			controller.close();
+		},
+	});
+}
+
+describe("SSE parser", () => {
+	describe("createSseDecoder", () => {
+		it("dispatches events on blank lines with event, id and retry fields", () => {
+			const decoder = createSseDecoder();
+			const events = decoder.push("event: response.created\nid: 7\nretry: 1500\ndata: {}\n\n");
+			expect(events).toEqual([{ event: "response.created", data: "{}", id: "7", retry: 1500 }]);
+		});
+
+		it("joins multi-line data and accepts values without a space after the colon", () => {
+			const decoder = createSseDecoder();
+			expect(decoder.push("data:first\ndata: second\ndata\n\n")).toEqual([
+				{ event: "message", data: "first\nsecond\n" },
+			]);
+		});
+
+		it("handles CR, LF and CRLF line endings split across chunks", () => {
+			const decoder = createSseDecoder();
+			expect(decoder.push("data: a\r")).toEqual([]);
+			expect(decoder.push("\n\r\ndata: b\r\rdata: c\n")).toEqual([
+				{ event: "message", data: "a" },
+				{ event: "message", data: "b" },
+			]);
+			expect(decoder.push("\n")).toEqual([{ event: "message", data: "c" }]);
+		});
+
+		it("ignores comments, unknown fields and events without data", () => {
+			const decoder = createSseDecoder();
+			expect(decoder.push(": keep-alive\nfoo: bar\nevent: ping\n\n")).toEqual([]);
+			expect(decoder.push("data: x\n\n")).toEqual([{ event: "message", data: "x" }]);
+		});
+
+		it("flushes a trailing event that lacks the final blank line", () => {
+			const decoder = createSseDecoder();
+			expect(decoder.push('data: {"type":"response.completed"}')).toEqual([]);
+			expect(decoder.flush()).toEqual([{ event: "message", data: '{"type":"response.completed"}' }]);
+		});
+	});
+
+	it("yields events as bytes arrive, including multi-byte characters split across chunks", async () => {
+		const bytes = new TextEncoder().encode("data: héllo\n\n");
+		const split = bytes.indexOf(0xc3) + 1;
+		const seen: string[] = [];
+		const events = [];
+		for await (const event of readSseEvents(streamOf([bytes.slice(0, split), bytes.slice(split)]), (text) =>
+			seen.push(text),
+		)) {
+			events.push(event);
+		}
+		expect(events).toEqual([{ event: "message", data: "héllo" }]);
+		expect(seen.join("")).toBe("data: héllo\n\n");
+	});
+
+	it("observes events while passing the bytes through unchanged", async () => {
+		const raw = "data: one\n\ndata: tw";
+		const events: string[] = [];
+		const passed = streamOf(["data: one\n", "\ndata: tw"]).pipeThrough(
+			observeSseEvents((event) => events.push(event.data)),
+		);
+
+		expect(await new Response(passed).text()).toBe(raw);
+		expect(events).toEqual(["one", "tw"]);
+	});
+
+	it("parses typed event payloads and skips [DONE] and malformed data", () => {
+		expect(
+			parseSseEventData({ event: "message", data: '{"type":"response.completed","response":{}}' }),
+		).toEqual({
+			type: "response.completed",
+			response: {},
+		});
+		expect(parseSseEventData({ event: "message", data: "[DONE]" })).toBeUndefined();
+		expect(parseSseEventData({ event: "message", data: "not-json" })).toBeUndefined();
+		expect(parseSseEventData({ event: "message", data: '{"no":"type"}' })).toBeUndefined();
+	});
+
+	it("splits events whose data lines were not separated by blank lines", () => {
+		const multiLine = { event: "message", data: '{"type":"a",\n"x":1}' };
+		const runTogether = { event: "message", data: 'not-json\n{"type":"b"}\n{"type":"c"}' };
+
+		expect(parseSseEventPayloads(multiLine)).toEqual([{ type: "a", x: 1 }]);
+		expect(parseSseEventPayloads(runTogether)).toEqual([{ type: "b" }, { type: "c" }]);
+		expect(parseSseEventPayloads({ event: "message", data: "not-json" })).toEqual([]);
+	});
+});
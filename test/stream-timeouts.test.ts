@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSseDecoder, parseSseEventData } from "../lib/request/sse-parser.js";
+import {
+	fetchWithConnectTimeout,
+	resolveTimeouts,
+	withStreamTimeouts,
+} from "../lib/request/stream-timeouts.js";
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logWarn: vi.fn(),
+}));
+
+const encoder = new TextEncoder();
+
+function streamResponse(chunks: string[], { stallAfter = false } = {}): Response {
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+			if (!stallAfter) controller.close();
+		},
+	});
+	return new Response(body, { status: 200, headers: { "content-type": "text/event-stream" } });
+}
+
+describe("stream timeouts", () => {
+	const originalFetch = globalThis.fetch;
+
+	afterEach(() => {
+		globalThis.fetch = originalFetch;
+	});
+
+	it("applies defaults and lets 0 disable a timeout", () => {
+		expect(resolveTimeouts()).toEqual({ connectMs: 30_000, firstByteMs: 120_000, idleMs: 120_000 });
+		expect(resolveTimeouts({ idleMs: 0 }).idleMs).toBe(0);
+	});
+
+	describe("withStreamTimeouts", () => {
+		it("passes complete streams through untouched", async () => {
+			const response = withStreamTimeouts(streamResponse(["data: a\n\n", "data: b\n\n"]), {
+				firstByteMs: 50,
+				idleMs: 50,
+			});
+			expect(response.headers.get("content-type")).toBe("text/event-stream");
+			expect(await response.text()).toBe("data: a\n\ndata: b\n\n");
+		});
+
+		it("ends a stream that stalls between events with response.failed", async () => {
+			const response = withStreamTimeouts(streamResponse(["data: a\n\n"], { stallAfter: true }), {
+				firstByteMs: 1000,
+				idleMs: 10,
+			});
+			const text = await response.text();
+			expect(text.startsWith("data: a\n\nevent: response.failed\n")).toBe(true);
+			const failed = JSON.parse(
+				text
+					.split("\n")
+					.find((line) => line.includes("response.failed") && line.startsWith("data: "))!
+					.slice(6),
+			);
+			expect(failed.response.error).toEqual({
+				code: "stream_timeout",
+				message: "Codex stream stalled: no events for 10ms",
+			});
+		});
+
+		it("drops an event the stall cut off before sending response.failed", async () => {
+			const response = withStreamTimeouts(
+				streamResponse(["data: a\r\n\r\n", 'data: {"type":"response.output'], { stallAfter: true }),
+				{
+					firstByteMs: 1000,
+					idleMs: 10,
+				},
+			);
+			const text = await response.text();
+			const events = createSseDecoder().push(text);
+
+			expect(text).not.toContain("response.output");
+			expect(events.map((event) => event.data.slice(0, 1))).toEqual(["a", "{"]);
+			expect(parseSseEventData(events[1])?.type).toBe("response.failed");
+		});
+
+		it("forwards events split across chunks once they are complete", async () => {
+			const response = withStreamTimeouts(streamResponse(["data: a", "\n", "\ndata: b"]), {
+				firstByteMs: 50,
+				idleMs: 50,
+			});
+			expect(await response.text()).toBe("data: a\n\ndata: b");
+		});
+
+		it("fails streams that never send a first byte", async () => {
+			const response = withStreamTimeouts(streamResponse([], { stallAfter: true }), {
+				firstByteMs: 10,
+				idleMs: 0,
+			});
+			expect(await response.text()).toContain("Codex stream sent no data within 10ms");
+		});
+	});
+
+	describe("fetchWithConnectTimeout", () => {
+		const hangingFetch = vi.fn(
+			(_url: string, init?: RequestInit) =>
+				new Promise<Response>((_resolve, reject) => {
+					init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+				}),
+		);
+
+		it("returns a 504 when headers don't arrive in time", async () => {
+			globalThis.fetch = hangingFetch as unknown as typeof fetch;
+			const response = await fetchWithConnectTimeout("https://codex", {}, 10);
+			expect(response.status).toBe(504);
+			expect(await response.json()).toEqual({
+				error: { code: "timeout", message: "No response from Codex within 10ms" },
+			});
+		});
+
+		it("rethrows when the caller aborts", async () => {
+			globalThis.fetch = hangingFetch as unknown as typeof fetch;
+			const controller = new AbortController();
+			const pending = fetchWithConnectTimeout("https://codex", { signal: controller.signal }, 1000);
+			controller.abort(new Error("user cancelled"));
+			await expect(pending).rejects.toThrow("user cancelled");
+		});
+
+		it("keeps forwarding the caller's abort until the body ends", async () => {
+			let upstreamSignal: AbortSignal | undefined;
+			globalThis.fetch = vi.fn(async (_url: string, init: RequestInit) => {
+				upstreamSignal = init.signal ?? undefined;
+				return new Response("ok");
+			}) as unknown as typeof fetch;
+			const controller = new AbortController();
+			const removeSpy = vi.spyOn(controller.signal, "removeEventListener");
+
+			const response = await fetchWithConnectTimeout("https://codex", { signal: controller.signal }, 1000);
+			expect(removeSpy).not.toHaveBeenCalled();
+
+			controller.abort(new Error("user cancelled"));
+			expect(upstreamSignal?.aborted).toBe(true);
+			await response.body?.cancel();
+			expect(removeSpy).toHaveBeenCalledWith("abort", expect.any(Function));
+		});
+
+		it("stops listening to the caller's signal once the body is read", async () => {
+			globalThis.fetch = vi.fn().mockResolvedValue(new Response("ok")) as unknown as typeof fetch;
+			const controller = new AbortController();
+			const removeSpy = vi.spyOn(controller.signal, "removeEventListener");
+
+			const response = await fetchWithConnectTimeout("https://codex", { signal: controller.signal }, 1000);
+			expect(await response.text()).toBe("ok");
+
+			expect(removeSpy).toHaveBeenCalledWith("abort", expect.any(Function));
+		});
+	});
+});
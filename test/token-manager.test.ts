@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TokenManager } from "../lib/auth/token-manager.js";
+import { ERROR_MESSAGES } from "../lib/constants.js";
+
+const refreshAccessTokenMock = vi.hoisted(() => vi.fn());
+const logErrorMock = vi.hoisted(() => vi.fn());
+const logWarnMock = vi.hoisted(() => vi.fn());
+
+vi.mock("../lib/auth/auth.js", () => ({
+	__esModule: true,
+	refreshAccessToken: refreshAccessTokenMock,
+}));
+
+vi.mock("../lib/auth/refresh-lock.js", () => ({
+	__esModule: true,
+	withRefreshLock: (fn: () => Promise<unknown>) => fn(),
+}));
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logDebug: vi.fn(),
+	logError: logErrorMock,
+	logWarn: logWarnMock,
+}));
+
+const NOW = 1_700_000_000_000;
+
+function oauth(overrides: Record<string, unknown> = {}) {
+	return {
+		type: "oauth" as const,
+		access: "old-access",
+		refresh: "old-refresh",
+		expires: NOW - 1,
+		...overrides,
+	};
+}
+
+const rotated = {
+	type: "success" as const,
+	access: "new-access",
+	refresh: "new-refresh",
+	expires: NOW + 3_600_000,
+};
+
+describe("TokenManager", () => {
+	let client: { auth: { set: ReturnType<typeof vi.fn> } };
+
+	beforeEach(() => {
+		refreshAccessTokenMock.mockReset();
+		logErrorMock.mockReset();
+		logWarnMock.mockReset();
+		client = { auth: { set: vi.fn().mockResolvedValue(undefined) } };
+	});
+
+	const createManager = (auth: unknown, config = {}) =>
+		new TokenManager({
+			getAuth: vi.fn().mockResolvedValue(auth),
+			client: client as never,
+			config: { backoffMs: 0, ...config },
+		});
+
+	it("returns stored auth without refreshing when the token is fresh", async () => {
+		const auth = oauth({ expires: NOW + 3_600_000 });
+		const result = await createManager(auth).getValidAuth(NOW);
+
+		expect(result).toEqual({ success: true, auth });
+		expect(refreshAccessTokenMock).not.toHaveBeenCalled();
+	});
+
+	it("deduplicates concurrent refreshes into one request", async () => {
+		let resolveRefresh: (value: typeof rotated) => void = () => {};
+		refreshAccessTokenMock.mockReturnValue(
+			new Promise((resolve) => {
+				resolveRefresh = resolve;
+			}),
+		);
+		const onRefresh = vi.fn();
+		const manager = new TokenManager({
+			getAuth: vi.fn().mockResolvedValue(oauth()),
+			client: client as never,
+			onRefresh,
+		});
+
+		const pending = Promise.all([
+			manager.getValidAuth(NOW),
+			manager.getValidAuth(NOW),
+			manager.getValidAuth(NOW),
+		]);
+		await vi.waitFor(() => expect(refreshAccessTokenMock).toHaveBeenCalled());
+		resolveRefresh(rotated);
+		const results = await pending;
+
+		expect(refreshAccessTokenMock).toHaveBeenCalledTimes(1);
+		expect(client.auth.set).toHaveBeenCalledTimes(1);
+		expect(client.auth.set).toHaveBeenCalledWith({
+			path: { id: "openai" },
+			body: { type: "oauth", access: "new-access", refresh: "new-refresh", expires: rotated.expires },
+		});
+		expect(onRefresh).toHaveBeenCalledWith(rotated, "old-refresh");
+		for (const result of results) {
+			expect(result).toMatchObject({ success: true, auth: { access: "new-access", refresh: "new-refresh" } });
+		}
+	});
+
+	it("reuses the rotated tokens when a caller still holds the old refresh token", async () => {
+		refreshAccessTokenMock.mockResolvedValue(rotated);
+		const manager = createManager(oauth());
+
+		await manager.getValidAuth(NOW);
+		const second = await manager.getValidAuth(NOW);
+
+		expect(refreshAccessTokenMock).toHaveBeenCalledTimes(1);
+		expect(second).toMatchObject({ success: true, auth: { access: "new-access" } });
+	});
+
+	it("reuses credentials another process stored while waiting for the lock", async () => {
+		const otherProcess = oauth({
+			access: "other-access",
+			refresh: "other-refresh",
+			expires: Date.now() + 60_000,
+		});
+		const getAuth = vi.fn().mockResolvedValueOnce(oauth()).mockResolvedValue(otherProcess);
+		const onRefresh = vi.fn();
+		const manager = new TokenManager({ getAuth, client: client as never, onRefresh });
+
+		const result = await manager.getValidAuth(NOW);
+
+		expect(refreshAccessTokenMock).not.toHaveBeenCalled();
+		expect(client.auth.set).not.toHaveBeenCalled();
+		expect(result).toMatchObject({
+			success: true,
+			auth: { access: "other-access", refresh: "other-refresh" },
+		});
+		expect(onRefresh).toHaveBeenCalledWith(
+			expect.objectContaining({ refresh: "other-refresh" }),
+			"old-refresh",
+		);
+	});
+
+	it("refreshes in the background inside the skew window", async () => {
+		refreshAccessTokenMock.mockResolvedValue(rotated);
+		const auth = oauth({ expires: NOW + 60_000 });
+		const manager = createManager(auth, { skewMs: 120_000 });
+
+		const result = await manager.getValidAuth(NOW);
+
+		expect(result).toEqual({ success: true, auth });
+		await vi.waitFor(() => expect(client.auth.set).toHaveBeenCalled());
+		expect(refreshAccessTokenMock).toHaveBeenCalledWith("old-refresh");
+	});
+
+	it("retries transient failures with backoff", async () => {
+		refreshAccessTokenMock
+			.mockResolvedValueOnce({ type: "failed", reason: "network_error" })
+			.mockResolvedValueOnce({ type: "failed", reason: "http_error", status: 503 })
+			.mockResolvedValueOnce(rotated);
+
+		const result = await createManager(oauth(), { maxRetries: 2 }).getValidAuth(NOW);
+
+		expect(result).toMatchObject({ success: true, auth: { access: "new-access" } });
+		expect(refreshAccessTokenMock).toHaveBeenCalledTimes(3);
+		expect(logWarnMock).toHaveBeenCalledWith(
+			"Token refresh failed; retrying",
+			expect.objectContaining({ attempt: 1, reason: "network_error" }),
+		);
+	});
+
+	it("gives up after the configured retries", async () => {
+		refreshAccessTokenMock.mockResolvedValue({ type: "failed", reason: "network_error" });
+
+		const result = await createManager(oauth(), { maxRetries: 1 }).getValidAuth(NOW);
+
+		expect(result.success).toBe(false);
+		expect(refreshAccessTokenMock).toHaveBeenCalledTimes(2);
+		expect(logErrorMock).toHaveBeenCalledWith(ERROR_MESSAGES.TOKEN_REFRESH_FAILED);
+		if (!result.success) {
+			expect(result.response.status).toBe(401);
+			expect(await result.response.json()).toEqual({ error: "Token refresh failed" });
+		}
+	});
+
+	it("does not retry non-transient rejections", async () => {
+		refreshAccessTokenMock.mockResolvedValue({ type: "failed", reason: "http_error", status: 401 });
+
+		const result = await createManager(oauth()).getValidAuth(NOW);
+
+		expect(result.success).toBe(false);
+		expect(refreshAccessTokenMock).toHaveBeenCalledTimes(1);
+	});
+
+	it("stops on invalid_grant and asks the user to log in again", async () => {
+		refreshAccessTokenMock.mockResolvedValue({ type: "failed", reason: "invalid_grant", status: 400 });
+		const manager = createManager(oauth());
+
+		const first = await manager.getValidAuth(NOW);
+		const second = await manager.getValidAuth(NOW);
+
+		expect(refreshAccessTokenMock).toHaveBeenCalledTimes(1);
+		expect(client.auth.set).not.toHaveBeenCalled();
+		expect(logErrorMock).toHaveBeenCalledWith(ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+		for (const result of [first, second]) {
+			expect(result.success).toBe(false);
+			if (!result.success) {
+				expect(await result.response.json()).toEqual({ error: ERROR_MESSAGES.REFRESH_TOKEN_INVALID });
+			}
+		}
+	});
+
+	it("fails without a network call when no OAuth credentials are stored", async () => {
+		const result = await createManager({ type: "api", key: "sk-test" }).getValidAuth(NOW);
+
+		expect(result.success).toBe(false);
+		expect(refreshAccessTokenMock).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,154 @@
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { handleUsageCommand } from "../lib/commands/codex-usage.js";
+import {
+	createUsageRecord,
+	describeUsageRequest,
+	UsageLedger,
+	type UsageRecord,
+} from "../lib/session/usage-ledger.js";
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logWarn: vi.fn(),
+}));
+
+const completedPayload = {
+	usage: {
+		input_tokens: 1000,
+		input_tokens_details: { cached_tokens: 800 },
+		output_tokens: 200,
+		output_tokens_details: { reasoning_tokens: 150 },
+	},
+};
+
+function record(overrides: Partial<UsageRecord> = {}): UsageRecord {
+	return {
+		timestamp: new Date().toISOString(),
+		project: "/work/app",
+		model: "gpt-5.1-codex",
+		effort: "medium",
+		promptCacheKey: "pck-1",
+		inputTokens: 1000,
+		cachedTokens: 800,
+		outputTokens: 200,
+		reasoningTokens: 150,
+		...overrides,
+	};
+}
+
+async function readCommandPayload(response: Response) {
+	const raw = await response.text();
+	const completed = raw
+		.split("\n\n")
+		.map((chunk) => chunk.trim())
+		.filter((chunk) => chunk.startsWith("data: ") && chunk !== "data: [DONE]")
+		.map((chunk) => JSON.parse(chunk.slice(6)))
+		.find((event) => event.type === "response.completed");
+	return completed.response;
+}
+
+describe("usage ledger", () => {
+	let dir: string;
+	let filePath: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), "codex-usage-"));
+		filePath = join(dir, "nested", "usage.jsonl");
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("builds records from nested Responses API usage", () => {
+		const info = describeUsageRequest(
+			{ model: "gpt-5.1-codex", reasoning: { effort: "high" }, prompt_cache_key: "pck-1" },
+			"/work/app",
+		);
+		expect(createUsageRecord(info, completedPayload, Date.UTC(2025, 0, 1))).toEqual({
+			timestamp: "2025-01-01T00:00:00.000Z",
+			project: "/work/app",
+			model: "gpt-5.1-codex",
+			effort: "high",
+			promptCacheKey: "pck-1",
+			inputTokens: 1000,
+			cachedTokens: 800,
+			outputTokens: 200,
+			reasoningTokens: 150,
+		});
+		expect(createUsageRecord(info, {})).toBeUndefined();
+	});
+
+	it("appends one JSONL line per response and reads them back", async () => {
+		const ledger = new UsageLedger({ filePath });
+		const recorder = ledger.createRecorder({ project: "/work/app", model: "gpt-5.1-codex" });
+		recorder(completedPayload);
+		recorder(completedPayload);
+		await ledger.flush();
+
+		expect(readFileSync(filePath, "utf8").trim().split("\n")).toHaveLength(2);
+		expect(ledger.read()).toHaveLength(2);
+	});
+
+	it("skips torn lines and filters by time", async () => {
+		const ledger = new UsageLedger({ filePath });
+		ledger.append(record({ timestamp: "2025-01-01T00:00:00.000Z" }));
+		ledger.append(record({ timestamp: "2025-01-03T00:00:00.000Z" }));
+		await ledger.flush();
+		appendFileSync(filePath, '{"timestamp":"2025-01-04');
+
+		expect(ledger.read()).toHaveLength(2);
+		expect(ledger.read(Date.parse("2025-01-02T00:00:00.000Z"))).toHaveLength(1);
+	});
+
+	describe("/codex-usage", () => {
+		const now = Date.now();
+
+		it("reports today's totals with cache-hit ratios by model and project", async () => {
+			const ledger = new UsageLedger({ filePath });
+			ledger.append(record());
+			ledger.append(
+				record({ project: "/work/api", model: "gpt-5.1-codex-mini", effort: undefined, cachedTokens: 0 }),
+			);
+			ledger.append(record({ timestamp: new Date(now - 3 * 24 * 60 * 60 * 1000).toISOString() }));
+
+			const payload = await readCommandPayload(await handleUsageCommand({ model: "gpt-5" }, [], ledger, now));
+
+			expect(payload.metadata.period).toBe("today");
+			expect(payload.metadata.totals).toMatchObject({ requests: 2, inputTokens: 2000, cachedTokens: 800 });
+			expect(payload.metadata.totals.cacheHitRate).toBeCloseTo(40);
+			expect(Object.keys(payload.metadata.byModel)).toEqual(["gpt-5.1-codex (medium)", "gpt-5.1-codex-mini"]);
+			expect(Object.keys(payload.metadata.byProject)).toEqual(["/work/app", "/work/api"]);
+			expect(payload.output[0].content[0].text).toContain("80.0% hit");
+		});
+
+		it("includes the last 7 days for week and filters session by prompt cache key", async () => {
+			const ledger = new UsageLedger({ filePath });
+			ledger.append(record({ timestamp: new Date(now - 3 * 24 * 60 * 60 * 1000).toISOString() }));
+			ledger.append(record({ promptCacheKey: "other" }));
+
+			const week = await readCommandPayload(
+				await handleUsageCommand({ model: "gpt-5" }, ["week"], ledger, now),
+			);
+			expect(week.metadata.totals.requests).toBe(2);
+
+			const session = await readCommandPayload(
+				await handleUsageCommand({ model: "gpt-5", prompt_cache_key: "pck-1" }, ["session"], ledger, now),
+			);
+			expect(session.metadata.totals.requests).toBe(1);
+			expect(session.metadata.promptCacheKey).toBe("pck-1");
+		});
+
+		it("explains unknown periods and empty ledgers", async () => {
+			const payload = await readCommandPayload(
+				await handleUsageCommand({ model: "gpt-5" }, ["month"], undefined, now),
+			);
+			const text = payload.output[0].content[0].text;
+			expect(text).toContain('Unknown period "month"');
+			expect(text).toContain("No recorded usage.");
+		});
+	});
+});
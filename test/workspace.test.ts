@@ -0,0 +1,78 @@
+import { PassThrough } from "node:stream";
+import { describe, expect, it, vi } from "vitest";
+import {
+	listWorkspaceOptions,
+	promptWorkspaceInTerminal,
+	resolveWorkspaceId,
+} from "../lib/auth/workspace.js";
+
+vi.mock("../lib/logger.js", () => ({
+	__esModule: true,
+	logWarn: vi.fn(),
+}));
+
+const options = [
+	{ id: "acc-1", label: "Personal account", isTokenDefault: true },
+	{ id: "org-team", label: "Acme Team" },
+];
+
+function createTty(answer?: string) {
+	const input = Object.assign(new PassThrough(), { isTTY: true });
+	const output = new PassThrough();
+	let written = "";
+	output.on("data", (chunk) => {
+		written += String(chunk);
+	});
+	if (answer !== undefined) {
+		setTimeout(() => input.write(`${answer}\n`), 0);
+	}
+	return { input, output, written: () => written };
+}
+
+describe("workspace selection", () => {
+	it("lists the token workspace first and the other organizations after it", () => {
+		expect(
+			listWorkspaceOptions("acc-1", {
+				organizations: [
+					{ id: "acc-1", title: "Personal" },
+					{ id: "org-team", title: "Acme Team" },
+					{ id: "org-untitled" },
+				],
+			}),
+		).toEqual([
+			{ id: "acc-1", label: "Personal", isTokenDefault: true },
+			{ id: "org-team", label: "Acme Team" },
+			{ id: "org-untitled", label: "org-untitled" },
+		]);
+		expect(listWorkspaceOptions("acc-1")).toEqual([
+			{ id: "acc-1", label: "Personal account", isTokenDefault: true },
+		]);
+	});
+
+	it("prefers the configured workspace, then the stored choice, then the token account", () => {
+		const stored = { accountId: "acc-1", workspaceId: "org-team" } as never;
+		expect(resolveWorkspaceId("acc-1", "org-pinned", stored)).toBe("org-pinned");
+		expect(resolveWorkspaceId("acc-1", undefined, stored)).toBe("org-team");
+		expect(resolveWorkspaceId("acc-1", undefined, undefined)).toBe("acc-1");
+	});
+
+	it("returns the workspace picked on the terminal", async () => {
+		const tty = createTty("2");
+		await expect(promptWorkspaceInTerminal(options, tty)).resolves.toBe("org-team");
+		expect(tty.written()).toContain("1) Personal account (acc-1) [default]");
+		expect(tty.written()).toContain("2) Acme Team (org-team)");
+	});
+
+	it("keeps the token workspace on empty, invalid or missing answers", async () => {
+		await expect(promptWorkspaceInTerminal(options, createTty(""))).resolves.toBeUndefined();
+		await expect(promptWorkspaceInTerminal(options, createTty("7"))).resolves.toBeUndefined();
+		await expect(
+			promptWorkspaceInTerminal(options, { ...createTty(), timeoutMs: 10 }),
+		).resolves.toBeUndefined();
+	});
+
+	it("does not prompt without an interactive terminal", async () => {
+		const input = new PassThrough();
+		await expect(promptWorkspaceInTerminal(options, { input })).resolves.toBeUndefined();
+	});
+});